@@ -6,6 +6,7 @@
 import { VibeAnalyzer, PersonalityProfile } from './VibeAnalyzer';
 import { ContextMemory } from './ContextMemory';
 import { logger } from '../utils/Logger';
+import { promptLibrary } from './LLMPromptTemplates';
 
 export interface AutoConfig {
   enableVibeAnalysis: boolean;
@@ -211,17 +212,12 @@ export class AutonomousOrchestrator {
     _content: string,
     context: any[]
   ): string[] {
-    const reasoning: string[] = [];
-
-    reasoning.push('Analyzed user message for tone and style');
-    reasoning.push('Retrieved relevant conversation context');
-    reasoning.push('Adapted personality to match user communication style');
-
-    if (context.length > 0) {
-      reasoning.push(`Used ${context.length} previous interactions for context`);
-    }
+    const { prompt } = promptLibrary.render({
+      id: 'autonomous.reasoning',
+      variables: { contextCount: context.length }
+    });
 
-    return reasoning;
+    return prompt.split('\n').filter(step => step !== '');
   }
 
   /**
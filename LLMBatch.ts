@@ -0,0 +1,264 @@
+/**
+ * LLM Batch
+ *
+ * Types and the checkpoint store behind generateBatch. A batch job
+ * appends a line to its checkpoint file for every finished item and
+ * every vendor batch it submits, and rewrites the file in compact form
+ * when the job returns. Running the same requests against the same
+ * file after a crash or a deploy picks the job up where it stopped:
+ * finished items are not sent again, and vendor batches that were
+ * already submitted are polled rather than paid for twice.
+ *
+ * Answers to sensitive and redacted requests stay out of the file
+ * unless the job opts in; a resumed job sends those items again.
+ */
+
+import { createHash } from 'crypto';
+import { appendFileSync, existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import type { LLMRequest, LLMResponse } from './UnifiedLLMOrchestrator';
+
+// How long an online item may wait for rate limit capacity
+export const DEFAULT_BATCH_RATE_LIMIT_WAIT_MS = 5 * 60 * 1000;
+
+export const DEFAULT_BATCH_OPTIONS = {
+  concurrency: 8,
+  pollIntervalMs: 30000
+};
+
+export interface BatchOptions {
+  checkpointFile?: string; // progress file; without one a job cannot be resumed
+  vendorBatch?: boolean; // send items to discounted vendor batch endpoints where available (default true)
+  concurrency?: number; // online requests in flight
+  rateLimitWaitMs?: number; // applied to items that do not set their own
+  pollIntervalMs?: number; // between vendor batch status checks
+  maxWaitMs?: number; // stop waiting on vendor batches; their items are returned as pending
+  retryFailed?: boolean; // when resuming, send items that failed last time again (default true)
+  persistPrivateResults?: boolean; // write answers to sensitive and redacted requests to the checkpoint (default false)
+  signal?: AbortSignal; // stops the job; the checkpoint keeps what finished
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+export type BatchItemStatus = 'success' | 'error' | 'pending';
+
+export interface BatchItemResult {
+  index: number; // position in the request list
+  status: BatchItemStatus;
+  response?: LLMResponse;
+  error?: { name: string; message: string };
+  via?: 'online' | 'vendor-batch';
+}
+
+export interface BatchProgress {
+  total: number;
+  succeeded: number;
+  failed: number;
+  pending: number;
+}
+
+export interface BatchResult extends BatchProgress {
+  items: BatchItemResult[]; // in request order
+  totalCost: number; // USD, including items finished before a resume
+  resumed: number; // items taken from the checkpoint instead of being sent
+}
+
+/**
+ * A vendor batch submitted for some of the job's items
+ */
+export interface VendorBatchJob {
+  provider: string;
+  model: string;
+  batchId: string;
+  indexes: number[];
+  submittedAt: number;
+}
+
+interface CheckpointData {
+  fingerprint: string; // identifies the request list the file belongs to
+  items: Record<string, BatchItemResult>; // finished items by index
+  vendorJobs: VendorBatchJob[]; // submitted and not yet collected
+}
+
+// One line of a checkpoint file after the header
+type CheckpointEntry =
+  | { item: BatchItemResult }
+  | { vendorJob: VendorBatchJob }
+  | { completedVendorJob: string };
+
+/**
+ * Finished items and open vendor batches of one job, kept in memory
+ * and, when a file is given, logged to disk as they change
+ */
+export class BatchCheckpoint {
+  private constructor(
+    private file: string | undefined,
+    private data: CheckpointData,
+    private withheld: Set<number> // items whose answers are not written to disk
+  ) {}
+
+  /**
+   * Load the checkpoint for a request list, or start an empty one. A
+   * file written for a different request list is refused rather than
+   * overwritten. Answers to requests `isPrivate` accepts are kept in
+   * memory only.
+   */
+  static open(
+    file: string | undefined,
+    requests: LLMRequest[],
+    isPrivate: (request: LLMRequest) => boolean = () => false
+  ): BatchCheckpoint {
+    const fingerprint = batchFingerprint(requests);
+    const withheld = new Set(requests.map((request, index) => (isPrivate(request) ? index : -1)).filter(index => index >= 0));
+    if (!file || !existsSync(file)) {
+      const checkpoint = new BatchCheckpoint(file, { fingerprint, items: {}, vendorJobs: [] }, withheld);
+      checkpoint.compact();
+      return checkpoint;
+    }
+
+    let data: CheckpointData;
+    try {
+      data = readCheckpoint(readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new Error(`Unreadable batch checkpoint ${file}: ${String(error)}`);
+    }
+    if (data.fingerprint !== fingerprint) {
+      throw new Error(`Batch checkpoint ${file} belongs to a different request list`);
+    }
+    return new BatchCheckpoint(file, data, withheld);
+  }
+
+  get vendorJobs(): VendorBatchJob[] {
+    return [...this.data.vendorJobs];
+  }
+
+  item(index: number): BatchItemResult | undefined {
+    return this.data.items[index];
+  }
+
+  record(result: BatchItemResult): void {
+    this.data.items[result.index] = result;
+    this.append(this.itemEntries([result]));
+  }
+
+  addVendorJob(job: VendorBatchJob): void {
+    this.data.vendorJobs.push(job);
+    this.append([{ vendorJob: job }]);
+  }
+
+  /**
+   * Close a vendor batch, recording its items' results in the same write
+   */
+  completeVendorJob(batchId: string, results: BatchItemResult[]): void {
+    for (const result of results) {
+      this.data.items[result.index] = result;
+    }
+    this.data.vendorJobs = this.data.vendorJobs.filter(job => job.batchId !== batchId);
+    this.append([...this.itemEntries(results), { completedVendorJob: batchId }]);
+  }
+
+  progress(total: number): BatchProgress {
+    const finished = Object.values(this.data.items);
+    const succeeded = finished.filter(item => item.status === 'success').length;
+    const failed = finished.filter(item => item.status === 'error').length;
+    return { total, succeeded, failed, pending: total - succeeded - failed };
+  }
+
+  /**
+   * Rewrite the file as one line per finished item and open vendor
+   * batch. Written to a temporary file and renamed, so a crash
+   * mid-write cannot corrupt it.
+   */
+  compact(): void {
+    if (!this.file) return;
+    const header = { version: CHECKPOINT_VERSION, fingerprint: this.data.fingerprint };
+    const entries: CheckpointEntry[] = [
+      ...this.itemEntries(Object.values(this.data.items)),
+      ...this.data.vendorJobs.map(job => ({ vendorJob: job }))
+    ];
+    const temporary = `${this.file}.tmp`;
+    writeFileSync(temporary, [header, ...entries].map(line => `${JSON.stringify(line)}\n`).join(''));
+    renameSync(temporary, this.file);
+  }
+
+  // One write per change, so a crash loses at most the line being written
+  private append(entries: CheckpointEntry[]): void {
+    if (!this.file || entries.length === 0) return;
+    appendFileSync(this.file, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''));
+  }
+
+  /**
+   * Lines for finished items. Answers to private requests are left
+   * out, so a resumed job sends those items again; their failures are
+   * kept, as they carry no provider output.
+   */
+  private itemEntries(results: BatchItemResult[]): CheckpointEntry[] {
+    return results
+      .filter(result => result.status === 'error' || !this.withheld.has(result.index))
+      .map(result => ({ item: storedResult(result) }));
+  }
+}
+
+const CHECKPOINT_VERSION = 2;
+
+/**
+ * Parse a checkpoint file: a header line with the fingerprint, then
+ * one entry per line. A torn last line from a crash mid-append is
+ * dropped. Version 1 files hold the whole state in one JSON object.
+ */
+function readCheckpoint(content: string): CheckpointData {
+  const lines = content.split('\n').filter(line => line.trim() !== '');
+  const header = JSON.parse(lines[0] ?? '{}');
+  if (header.version === 1) {
+    return { fingerprint: header.fingerprint, items: header.items, vendorJobs: header.vendorJobs };
+  }
+  if (header.version !== CHECKPOINT_VERSION) {
+    throw new Error(`unsupported checkpoint version ${header.version}`);
+  }
+
+  const data: CheckpointData = { fingerprint: header.fingerprint, items: {}, vendorJobs: [] };
+  lines.slice(1).forEach((line, offset) => {
+    let entry: CheckpointEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch (error) {
+      if (offset === lines.length - 2) return;
+      throw new Error(`line ${offset + 2}: ${String(error)}`);
+    }
+    if ('item' in entry) data.items[entry.item.index] = entry.item;
+    if ('vendorJob' in entry) data.vendorJobs.push(entry.vendorJob);
+    if ('completedVendorJob' in entry) {
+      const batchId = entry.completedVendorJob;
+      data.vendorJobs = data.vendorJobs.filter(job => job.batchId !== batchId);
+    }
+  });
+  return data;
+}
+
+/**
+ * What a resumed job needs of a finished item: the answer and its
+ * cost, without the per-attempt record
+ */
+function storedResult(result: BatchItemResult): BatchItemResult {
+  if (!result.response?.metadata) return result;
+  const { metadata, ...response } = result.response;
+  return { ...result, response: metadata.batch ? { ...response, metadata: { attempts: [], batch: metadata.batch } } : response };
+}
+
+/**
+ * Digest of a request list, ignoring abort signals
+ */
+export function batchFingerprint(requests: LLMRequest[]): string {
+  const hash = createHash('sha256');
+  for (const { signal, ...request } of requests) {
+    hash.update(JSON.stringify(request)).update('\n');
+  }
+  return hash.digest('hex').slice(0, 32);
+}
+
+/**
+ * Name and message of an error, in a form a checkpoint can store
+ */
+export function batchError(error: unknown): { name: string; message: string } {
+  return error instanceof Error
+    ? { name: error.name, message: error.message }
+    : { name: 'Error', message: String(error) };
+}
@@ -0,0 +1,125 @@
+/**
+ * LLM Cancellation
+ *
+ * Timeouts and caller cancellation. A request runs under an abort
+ * scope that follows the caller's AbortSignal and the request timeout;
+ * each provider attempt runs under a child scope with its own timeout.
+ * An attempt timeout only ends that attempt, so the orchestrator can
+ * retry or fall back, while cancelling the request stops everything.
+ */
+
+// Applied to each provider attempt unless the provider or request sets one
+export const DEFAULT_ATTEMPT_TIMEOUT_MS = 60000;
+
+/**
+ * Raised when a request or a single provider attempt runs out of time
+ */
+export class LLMTimeoutError extends Error {
+  constructor(
+    public readonly scope: 'request' | 'attempt',
+    public readonly timeoutMs: number,
+    public readonly provider?: string
+  ) {
+    super(scope === 'attempt'
+      ? `${provider ?? 'Provider'} did not answer within ${timeoutMs}ms`
+      : `Request timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Raised when the caller cancels a request, or a hedged call loses its race
+ */
+export class LLMCancelledError extends Error {
+  constructor(public readonly reason?: unknown) {
+    super(typeof reason === 'string' ? reason : 'Request was cancelled');
+    this.name = 'LLMCancelledError';
+  }
+}
+
+export interface AbortScope {
+  readonly signal: AbortSignal;
+  abort(reason: Error): void;
+  /** Stop the timeout but keep following the parent signal */
+  disarm(): void;
+  /** Detach from the parent signal and clear the timeout */
+  dispose(): void;
+}
+
+/**
+ * Create an abort scope that aborts when the parent does or when the
+ * timeout elapses
+ */
+export function createAbortScope(
+  parent?: AbortSignal,
+  timeoutMs?: number,
+  onTimeout: () => Error = () => new LLMTimeoutError('request', timeoutMs ?? 0)
+): AbortScope {
+  const controller = new AbortController();
+  const abort = (reason: Error) => {
+    if (!controller.signal.aborted) controller.abort(reason);
+  };
+  const onParentAbort = () => {
+    // Keep our own error types; wrap whatever else the caller aborted with
+    const reason = parent!.reason;
+    abort(reason instanceof LLMCancelledError || reason instanceof LLMTimeoutError ? reason : new LLMCancelledError(reason));
+  };
+
+  if (parent?.aborted) {
+    onParentAbort();
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined = timeoutMs !== undefined && Number.isFinite(timeoutMs)
+    ? setTimeout(() => abort(onTimeout()), timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    abort,
+    disarm() {
+      clearTimeout(timer);
+      timer = undefined;
+    },
+    dispose() {
+      clearTimeout(timer);
+      timer = undefined;
+      parent?.removeEventListener('abort', onParentAbort);
+    }
+  };
+}
+
+/**
+ * The error a signal was aborted with
+ */
+export function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new LLMCancelledError(signal.reason);
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw abortReason(signal);
+}
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortReason(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,136 @@
+/**
+ * LLM Circuit Breaker
+ *
+ * Per-provider breaker that stops routing traffic to a provider after
+ * consecutive failures. After a cooldown the breaker goes half-open and
+ * lets a limited number of probe requests through; a success closes
+ * it again, a failure re-opens it.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // consecutive failures before opening
+  cooldownMs: number; // time spent open before going half-open
+  halfOpenMaxProbes: number; // concurrent requests allowed while half-open
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 30000,
+  halfOpenMaxProbes: 1
+};
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+}
+
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+  private openState: 'closed' | 'open' = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private lastFailureAt: number | null = null;
+  private lastError: string | null = null;
+  private probesInFlight = 0;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}, private now: () => number = Date.now) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  /**
+   * Current state, moving open to half-open once the cooldown has elapsed
+   */
+  get state(): CircuitState {
+    if (this.openState === 'open' && this.openedAt !== null && this.now() - this.openedAt >= this.options.cooldownMs) {
+      return 'half-open';
+    }
+    return this.openState;
+  }
+
+  /**
+   * Whether a request could be sent right now, without reserving a probe
+   */
+  isAvailable(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'half-open') return this.probesInFlight < this.options.halfOpenMaxProbes;
+    return false;
+  }
+
+  /**
+   * Reserve permission to send a request. While half-open this takes
+   * one of the limited probe slots.
+   */
+  tryAcquire(): boolean {
+    if (!this.isAvailable()) return false;
+    if (this.state === 'half-open') this.probesInFlight++;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openState = 'closed';
+    this.openedAt = null;
+    this.probesInFlight = 0;
+  }
+
+  /**
+   * Give back a probe slot without recording an outcome, for requests
+   * cancelled before the provider answered or rejected as malformed
+   */
+  release(): void {
+    this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+  }
+
+  recordFailure(error?: string): void {
+    const wasHalfOpen = this.state === 'half-open';
+    this.consecutiveFailures++;
+    this.lastFailureAt = this.now();
+    this.lastError = error ?? null;
+    this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+
+    if (wasHalfOpen || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openState = 'open';
+      this.openedAt = this.now();
+      this.probesInFlight = 0;
+    }
+  }
+
+  reset(): void {
+    this.recordSuccess();
+    this.lastFailureAt = null;
+    this.lastError = null;
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      lastFailureAt: this.lastFailureAt,
+      lastError: this.lastError
+    };
+  }
+}
+
+export interface HealthCheckOptions {
+  intervalMs: number;
+  timeoutMs: number;
+}
+
+export const DEFAULT_HEALTH_CHECK_OPTIONS: HealthCheckOptions = {
+  intervalMs: 60000,
+  timeoutMs: 10000
+};
+
+export interface ProviderHealth {
+  healthy: boolean;
+  checkedAt: number;
+  latency: number;
+  error: string | null;
+}
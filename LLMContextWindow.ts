@@ -0,0 +1,291 @@
+/**
+ * LLM Context Window
+ *
+ * Token counting and fitting requests into a model's context window.
+ * The built-in tokenizers approximate each vendor's tokenizer family
+ * from the words, numbers and symbols in the text, which tracks real
+ * counts much more closely than characters / 4; exact tokenizers can
+ * be registered per provider or model.
+ *
+ * A request too large for the chosen model is handled by its overflow
+ * strategy:
+ * - error:           reject with ContextWindowError (the default)
+ * - drop-oldest:     drop the oldest turns
+ * - truncate-middle: keep the opening and the latest turns, dropping
+ *                    the middle; a single oversized turn has the middle
+ *                    of its text cut out
+ * - summarize:       replace older turns with a summary written by a
+ *                    cheaper model (performed by the orchestrator)
+ */
+
+import type { LLMRequest } from './UnifiedLLMOrchestrator';
+import type { LLMWireFormat } from './LLMProviderAdapters';
+import { LLMMessage, mediaParts, messageText, toConversation, withText } from './LLMMessages';
+import { mediaTokenEstimate } from './LLMMultimodal';
+
+export interface Tokenizer {
+  readonly name: string;
+  count(text: string): number;
+}
+
+export type ContextOverflowStrategy = 'error' | 'drop-oldest' | 'truncate-middle' | 'summarize';
+
+export interface ContextOverflowOptions {
+  strategy: ContextOverflowStrategy;
+  keepRecentTurns?: number; // latest turns never dropped or summarized (default 2)
+  summaryModel?: string; // model reference for 'summarize'; defaults to the cheapest model
+}
+
+export interface ContextFitReport {
+  strategy: ContextOverflowStrategy;
+  contextWindow: number;
+  originalTokens: number; // prompt tokens before fitting
+  promptTokens: number; // prompt tokens sent
+  droppedTurns: number;
+  truncated: boolean; // text was cut out of a turn
+  summarized: boolean;
+}
+
+// Completion tokens kept free when the request does not set maxTokens
+export const DEFAULT_COMPLETION_RESERVE = 1024;
+
+// Longest summary requested when compacting history
+export const DEFAULT_SUMMARY_TOKENS = 512;
+
+// Role markers and separators each message adds on the wire
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const TRUNCATION_MARKER = '\n\n[... truncated ...]\n\n';
+
+/**
+ * Raised when a request cannot be made to fit a model's context window
+ */
+export class ContextWindowError extends Error {
+  constructor(
+    public readonly requiredTokens: number,
+    public readonly contextWindow: number,
+    public readonly model: string
+  ) {
+    super(`Request needs ${requiredTokens} tokens but ${model} has a ${contextWindow} token context window`);
+    this.name = 'ContextWindowError';
+  }
+}
+
+// Pre-tokenization close to what BPE tokenizers do: contractions, words
+// with their leading space, digit runs, symbol runs and whitespace
+const PIECE_PATTERN = /'(?:s|t|re|ve|m|ll|d)|\s?\p{L}+|\p{N}+|\s?[^\s\p{L}\p{N}]+|\s+/gu;
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g;
+
+/**
+ * Tokenizer estimate tuned per vendor family. Common words are one
+ * token, longer ones split every `wordChars` characters; non-Latin
+ * words split twice as often and CJK characters count one each.
+ */
+export class ApproximateTokenizer implements Tokenizer {
+  constructor(
+    readonly name: string,
+    private wordChars: number,
+    private digitsPerToken: number
+  ) {}
+
+  count(text: string): number {
+    let tokens = 0;
+    for (const piece of text.match(PIECE_PATTERN) || []) {
+      const trimmed = piece.trim();
+      if (trimmed === '') {
+        tokens += Math.ceil(piece.length / 8);
+      } else if (/^\p{N}+$/u.test(trimmed)) {
+        tokens += Math.ceil(trimmed.length / this.digitsPerToken);
+      } else if (/^\p{L}+$/u.test(trimmed)) {
+        const cjk = (trimmed.match(CJK_PATTERN) || []).length;
+        const rest = trimmed.length - cjk;
+        const chars = /^[A-Za-z]*$/.test(trimmed) ? this.wordChars : this.wordChars / 2;
+        tokens += cjk + (rest > 0 ? Math.ceil(rest / chars) : 0);
+      } else {
+        tokens += Math.ceil(trimmed.length / 2);
+      }
+    }
+    return tokens;
+  }
+}
+
+export const builtInTokenizers = {
+  // OpenAI cl100k/o200k vocabularies: long merges, digits in groups of three
+  openai: new ApproximateTokenizer('openai-bpe', 6, 3),
+  anthropic: new ApproximateTokenizer('claude-bpe', 5, 3),
+  // SentencePiece vocabularies (Llama, Mistral): shorter merges, one token per digit
+  llama: new ApproximateTokenizer('llama-sentencepiece', 4, 1),
+  generic: new ApproximateTokenizer('generic', 5, 2)
+};
+
+/**
+ * Built-in tokenizer for a model: by model family where the name
+ * shows it, else by the provider's wire format
+ */
+export function defaultTokenizer(format: LLMWireFormat, model: string): Tokenizer {
+  if (/llama|mistral|mixtral/i.test(model)) return builtInTokenizers.llama;
+  if (format === 'anthropic') return builtInTokenizers.anthropic;
+  if (format === 'openai') return builtInTokenizers.openai;
+  return format === 'ollama' || format === 'huggingface' ? builtInTokenizers.llama : builtInTokenizers.generic;
+}
+
+/**
+ * Prompt tokens a request will use: system prompt, every turn with its
+ * tool calls, tool definitions and per-message overhead
+ */
+export function countRequestTokens(request: LLMRequest, tokenizer: Tokenizer): number {
+  const { system, turns } = toConversation(request);
+  let tokens = system ? tokenizer.count(system) + MESSAGE_OVERHEAD_TOKENS : 0;
+
+  for (const turn of turns) {
+    tokens += countTurn(turn, tokenizer);
+  }
+  if (request.tools && request.tools.length > 0) {
+    tokens += tokenizer.count(JSON.stringify(request.tools));
+  }
+  return tokens;
+}
+
+function countTurn(turn: LLMMessage, tokenizer: Tokenizer): number {
+  const calls = turn.toolCalls && turn.toolCalls.length > 0 ? tokenizer.count(JSON.stringify(turn.toolCalls)) : 0;
+  const media = mediaParts(turn).reduce((sum, part) => sum + mediaTokenEstimate(part), 0);
+  return tokenizer.count(messageText(turn)) + media + calls + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export function overflowOptions(value: ContextOverflowStrategy | ContextOverflowOptions | undefined): ContextOverflowOptions {
+  if (value === undefined) return { strategy: 'error' };
+  return typeof value === 'string' ? { strategy: value } : value;
+}
+
+/**
+ * The request with its history replaced: system text moves to
+ * systemPrompt and the remaining turns to messages
+ */
+export function withTurns(request: LLMRequest, system: string | undefined, turns: LLMMessage[]): LLMRequest {
+  return { ...request, prompt: undefined, systemPrompt: system, messages: turns };
+}
+
+/**
+ * Split history into turns that may be summarized and the recent turns
+ * kept verbatim. The recent part always starts at a user turn so the
+ * conversation stays well-formed.
+ */
+export function splitHistory(request: LLMRequest, keepRecentTurns = 2): { older: LLMMessage[]; recent: LLMMessage[] } {
+  const { turns } = toConversation(request);
+  let start = Math.max(0, turns.length - keepRecentTurns);
+  while (start > 0 && !startsUserTurn(turns[start])) start--;
+  return { older: turns.slice(0, start), recent: turns.slice(start) };
+}
+
+/**
+ * Drop turns from the start until the request fits. Tool results and
+ * assistant turns left at the front are dropped too, so the history
+ * still opens with a user turn.
+ */
+export function dropOldestTurns(
+  request: LLMRequest,
+  budget: number,
+  tokenizer: Tokenizer,
+  keepRecentTurns = 2
+): { request: LLMRequest; droppedTurns: number } {
+  const { system, turns } = toConversation(request);
+  const limit = splitHistory(request, keepRecentTurns).older.length;
+  let tokens = countRequestTokens(request, tokenizer);
+  let start = 0;
+
+  while (tokens > budget && start < limit) {
+    tokens -= countTurn(turns[start++], tokenizer);
+    while (start < limit && !startsUserTurn(turns[start])) {
+      tokens -= countTurn(turns[start++], tokenizer);
+    }
+  }
+
+  return { request: withTurns(request, system, turns.slice(start)), droppedTurns: start };
+}
+
+/**
+ * Keep the opening exchange up to the first user turn and as many of
+ * the latest turns as fit, dropping the middle. If the kept turns still
+ * do not fit, the middle of the longest turn's text is cut out.
+ */
+export function truncateMiddle(
+  request: LLMRequest,
+  budget: number,
+  tokenizer: Tokenizer
+): { request: LLMRequest; droppedTurns: number; truncated: boolean } {
+  const { system, turns } = toConversation(request);
+  const headLength = Math.max(0, turns.findIndex(startsUserTurn)) + 1;
+  const head = turns.slice(0, headLength);
+  let tail = turns.slice(headLength);
+  let droppedTurns = 0;
+
+  let fitted = withTurns(request, system, [...head, ...tail]);
+  while (countRequestTokens(fitted, tokenizer) > budget && tail.length > 0) {
+    // The tail follows a user turn, so it must open with an assistant
+    // turn; the final exchange is never dropped
+    let cut = 1;
+    while (cut < tail.length && tail[cut].role !== 'assistant') cut++;
+    if (cut >= tail.length) break;
+    droppedTurns += cut;
+    tail = tail.slice(cut);
+    fitted = withTurns(request, system, [...head, ...tail]);
+  }
+
+  const overflow = countRequestTokens(fitted, tokenizer) - budget;
+  if (overflow <= 0) return { request: fitted, droppedTurns, truncated: false };
+
+  const kept = [...head, ...tail];
+  const longest = kept.reduce((best, turn, index) =>
+    messageText(turn).length > messageText(kept[best]).length ? index : best, 0);
+  const text = messageText(kept[longest]);
+  const target = tokenizer.count(text) - overflow - tokenizer.count(TRUNCATION_MARKER);
+  if (target <= 0) return { request: fitted, droppedTurns, truncated: false };
+
+  kept[longest] = withText(kept[longest], cutMiddle(text, target, tokenizer));
+  return { request: withTurns(request, system, kept), droppedTurns, truncated: true };
+}
+
+/**
+ * Cut characters from the middle of a text until it is at most
+ * `maxTokens`, keeping the start and end
+ */
+function cutMiddle(text: string, maxTokens: number, tokenizer: Tokenizer): string {
+  let keep = Math.floor(text.length * maxTokens / Math.max(1, tokenizer.count(text)));
+  let result = text;
+  while (keep > 0) {
+    const half = Math.floor(keep / 2);
+    result = text.slice(0, half) + TRUNCATION_MARKER + text.slice(text.length - (keep - half));
+    if (tokenizer.count(result) <= maxTokens + tokenizer.count(TRUNCATION_MARKER)) return result;
+    keep = Math.floor(keep * 0.9);
+  }
+  return TRUNCATION_MARKER.trim();
+}
+
+/**
+ * Prompt asking a model to summarize earlier turns of a conversation
+ */
+export function summaryPrompt(turns: LLMMessage[]): string {
+  const transcript = turns
+    .map(turn => `${turn.role === 'tool' ? `tool ${turn.name || ''}`.trim() : turn.role}: ${messageText(turn)}`)
+    .join('\n\n');
+  return [
+    'Summarize the conversation below so it can replace the original in a later request.',
+    'Keep facts, decisions, names, numbers and open questions; drop pleasantries.',
+    'Reply with the summary only.',
+    '',
+    transcript
+  ].join('\n');
+}
+
+/**
+ * Fold a summary of earlier turns into the system prompt
+ */
+export function withSummary(request: LLMRequest, recent: LLMMessage[], summary: string): LLMRequest {
+  const { system } = toConversation(request);
+  const note = `Summary of the earlier conversation:\n${summary.trim()}`;
+  return withTurns(request, system ? `${system}\n\n${note}` : note, recent);
+}
+
+function startsUserTurn(turn: LLMMessage): boolean {
+  return turn.role === 'user';
+}
@@ -0,0 +1,225 @@
+/**
+ * LLM Cost Ledger
+ *
+ * Records token usage and spend for every completed call and enforces
+ * budget caps. Entries can be queried and summarized by provider,
+ * model, session and time window.
+ */
+
+export interface ModelPricing {
+  inputPerMillion: number; // USD per 1M prompt tokens
+  outputPerMillion: number; // USD per 1M completion tokens
+}
+
+export interface LedgerEntry {
+  timestamp: number;
+  provider: string;
+  model: string;
+  sessionId?: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  cached: boolean;
+}
+
+export interface LedgerFilter {
+  provider?: string;
+  model?: string;
+  sessionId?: string;
+  since?: number;
+  until?: number;
+}
+
+export interface LedgerTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface LedgerSummary extends LedgerTotals {
+  byProvider: Record<string, LedgerTotals>;
+  byModel: Record<string, LedgerTotals>;
+}
+
+export interface BudgetCap {
+  id: string;
+  limitUsd: number;
+  windowMs?: number; // rolling window; omit for an all-time cap
+  provider?: string;
+  model?: string;
+  sessionId?: string;
+  action: 'block' | 'downgrade';
+}
+
+/**
+ * Raised when a request would exceed a blocking budget cap
+ */
+export class BudgetExceededError extends Error {
+  constructor(public readonly cap: BudgetCap, public readonly spent: number) {
+    super(`Budget "${cap.id}" exceeded: $${spent.toFixed(4)} of $${cap.limitUsd.toFixed(2)}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Cost in USD of a call at the given pricing
+ */
+export function calculateCost(pricing: ModelPricing | undefined, promptTokens: number, completionTokens: number): number {
+  if (!pricing) return 0;
+  return (promptTokens * pricing.inputPerMillion + completionTokens * pricing.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * Running spend against one cap, so budget checks do not re-sum the
+ * ledger on every request
+ */
+interface BudgetTally {
+  spent: number; // USD inside the cap's window, or all time
+  window: Array<{ timestamp: number; cost: number }>; // counted entries of a rolling cap, oldest first
+  start: number; // first entry of `window` still inside it
+}
+
+export class CostLedger {
+  private entries: LedgerEntry[] = [];
+  private budgets: Map<string, BudgetCap> = new Map();
+  private tallies: Map<string, BudgetTally> = new Map(); // by cap id
+
+  constructor(private maxEntries = 100000) {}
+
+  record(entry: LedgerEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries = this.entries.slice(-this.maxEntries);
+    }
+    for (const cap of this.budgets.values()) {
+      if (capApplies(cap, entry)) this.count(this.tallies.get(cap.id)!, cap, entry);
+    }
+  }
+
+  query(filter: LedgerFilter = {}): LedgerEntry[] {
+    return this.entries.filter(entry =>
+      (filter.provider === undefined || entry.provider === filter.provider) &&
+      (filter.model === undefined || entry.model === filter.model) &&
+      (filter.sessionId === undefined || entry.sessionId === filter.sessionId) &&
+      (filter.since === undefined || entry.timestamp >= filter.since) &&
+      (filter.until === undefined || entry.timestamp < filter.until)
+    );
+  }
+
+  summarize(filter: LedgerFilter = {}): LedgerSummary {
+    const summary: LedgerSummary = { ...this.emptyTotals(), byProvider: {}, byModel: {} };
+
+    for (const entry of this.query(filter)) {
+      this.addTo(summary, entry);
+      this.addTo(summary.byProvider[entry.provider] ??= this.emptyTotals(), entry);
+      this.addTo(summary.byModel[entry.model] ??= this.emptyTotals(), entry);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Add or replace a cap. Spend already in the ledger counts against it.
+   */
+  addBudget(cap: BudgetCap): void {
+    const tally: BudgetTally = { spent: 0, window: [], start: 0 };
+    const since = cap.windowMs !== undefined ? Date.now() - cap.windowMs : -Infinity;
+    for (const entry of this.entries) {
+      if (entry.timestamp >= since && capApplies(cap, entry)) this.count(tally, cap, entry);
+    }
+    this.budgets.set(cap.id, cap);
+    this.tallies.set(cap.id, tally);
+  }
+
+  removeBudget(id: string): void {
+    this.budgets.delete(id);
+    this.tallies.delete(id);
+  }
+
+  getBudgets(): BudgetCap[] {
+    return Array.from(this.budgets.values());
+  }
+
+  /**
+   * Amount spent so far against a cap
+   */
+  spentAgainst(cap: BudgetCap, now = Date.now()): number {
+    const tally = this.tallies.get(cap.id);
+    if (tally && this.budgets.get(cap.id) === cap) {
+      this.expire(tally, cap, now);
+      return tally.spent;
+    }
+
+    // A cap that is not registered has no running total
+    return this.query({
+      provider: cap.provider,
+      model: cap.model,
+      sessionId: cap.sessionId,
+      since: cap.windowMs !== undefined ? now - cap.windowMs : undefined
+    }).reduce((sum, entry) => sum + entry.cost, 0);
+  }
+
+  /**
+   * Caps that apply to a call with the given attributes and are used up.
+   * A cap without a provider, model or session applies to every call.
+   */
+  exceededBudgets(scope: { provider?: string; model?: string; sessionId?: string }): BudgetCap[] {
+    const now = Date.now();
+    return this.getBudgets().filter(cap => capApplies(cap, scope) && this.spentAgainst(cap, now) >= cap.limitUsd);
+  }
+
+  clear(): void {
+    this.entries = [];
+    for (const tally of this.tallies.values()) {
+      tally.spent = 0;
+      tally.window = [];
+      tally.start = 0;
+    }
+  }
+
+  private count(tally: BudgetTally, cap: BudgetCap, entry: LedgerEntry): void {
+    tally.spent += entry.cost;
+    if (cap.windowMs !== undefined) {
+      tally.window.push({ timestamp: entry.timestamp, cost: entry.cost });
+    }
+  }
+
+  /**
+   * Drop entries that have left a rolling cap's window from its total
+   */
+  private expire(tally: BudgetTally, cap: BudgetCap, now: number): void {
+    if (cap.windowMs === undefined) return;
+    const since = now - cap.windowMs;
+    while (tally.start < tally.window.length && tally.window[tally.start].timestamp < since) {
+      tally.spent -= tally.window[tally.start++].cost;
+    }
+    if (tally.start === tally.window.length) {
+      // Also clears floating point drift from the subtractions
+      tally.spent = 0;
+      tally.window = [];
+      tally.start = 0;
+    } else if (tally.start > tally.window.length / 2) {
+      tally.window = tally.window.slice(tally.start);
+      tally.start = 0;
+    }
+  }
+
+  private emptyTotals(): LedgerTotals {
+    return { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+  }
+
+  private addTo(totals: LedgerTotals, entry: LedgerEntry): void {
+    totals.requests++;
+    totals.promptTokens += entry.promptTokens;
+    totals.completionTokens += entry.completionTokens;
+    totals.cost += entry.cost;
+  }
+}
+
+// Whether a cap covers calls with the given attributes
+function capApplies(cap: BudgetCap, scope: { provider?: string; model?: string; sessionId?: string }): boolean {
+  return (cap.provider === undefined || cap.provider === scope.provider) &&
+    (cap.model === undefined || cap.model === scope.model) &&
+    (cap.sessionId === undefined || cap.sessionId === scope.sessionId);
+}
@@ -0,0 +1,172 @@
+/**
+ * LLM Embeddings
+ *
+ * Types and helpers for the orchestrator's embedding API: per-provider
+ * embedding model configuration, vector normalization and similarity,
+ * a cache of vectors keyed by model and input text, and a deterministic
+ * local embedder that works offline.
+ */
+
+import { createHash } from 'crypto';
+
+export interface EmbeddingModelConfig {
+  endpoint: string;
+  model: string;
+  maxBatchSize: number; // inputs per HTTP request
+  inputPerMillion: number; // USD per 1M input tokens
+}
+
+export interface EmbeddingRequest {
+  input: string | string[];
+  preferredProvider?: string;
+  normalize?: boolean; // scale vectors to unit length (default true)
+  bypassCache?: boolean;
+  sessionId?: string; // attributes spend in the cost ledger
+  sensitive?: boolean; // only local providers and the local embedder may see the input
+  redact?: boolean; // overrides the privacy policy's redaction for this request
+  signal?: AbortSignal; // cancels the request, including queued and in-flight HTTP calls
+  timeoutMs?: number; // overall deadline across batches and fallbacks
+}
+
+export interface EmbeddingResponse {
+  vectors: number[][]; // one per input, in input order
+  provider: string;
+  model: string;
+  dimensions: number;
+  tokensUsed: number;
+  cost: number; // USD
+  latency: number;
+  cachedInputs: number; // inputs served from the cache
+}
+
+export interface EmbeddingResult {
+  vectors: number[][];
+  promptTokens?: number;
+}
+
+/**
+ * Embedder that runs in-process rather than over HTTP
+ */
+export interface LocalEmbedder {
+  readonly name: string;
+  readonly model: string;
+  embed(inputs: string[]): Promise<EmbeddingResult>;
+}
+
+/**
+ * Scale a vector to unit length; zero vectors are returned unchanged
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * Cosine similarity of two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare vectors of length ${a.length} and ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Split inputs into batches of at most `size`
+ */
+export function batchInputs<T>(inputs: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < inputs.length; i += Math.max(1, size)) {
+    batches.push(inputs.slice(i, i + Math.max(1, size)));
+  }
+  return batches;
+}
+
+/**
+ * Raw vectors keyed by model and input text, least recently used evicted first
+ */
+export class EmbeddingCache {
+  private entries: Map<string, number[]> = new Map();
+  private stats = { hits: 0, misses: 0 };
+
+  constructor(private maxEntries = 5000) {}
+
+  get(model: string, input: string): number[] | undefined {
+    const key = this.buildKey(model, input);
+    const vector = this.entries.get(key);
+    if (vector) {
+      this.entries.delete(key);
+      this.entries.set(key, vector);
+      this.stats.hits++;
+    } else {
+      this.stats.misses++;
+    }
+    return vector;
+  }
+
+  set(model: string, input: string, vector: number[]): void {
+    const key = this.buildKey(model, input);
+    this.entries.delete(key);
+    this.entries.set(key, vector);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getStats(): { size: number; hits: number; misses: number } {
+    return { size: this.entries.size, ...this.stats };
+  }
+
+  private buildKey(model: string, input: string): string {
+    return createHash('sha256').update(`${model}\0${input}`).digest('hex');
+  }
+}
+
+/**
+ * Deterministic bag-of-words embedder using signed feature hashing.
+ * Texts sharing words get similar vectors, which is enough for tests
+ * and offline use; it has no grasp of meaning beyond word overlap.
+ */
+export class HashingEmbedder implements LocalEmbedder {
+  readonly name = 'local';
+  readonly model: string;
+
+  constructor(private dimensions = 256) {
+    this.model = `hashing-${dimensions}`;
+  }
+
+  async embed(inputs: string[]): Promise<EmbeddingResult> {
+    let promptTokens = 0;
+    const vectors = inputs.map(input => {
+      const vector = new Array<number>(this.dimensions).fill(0);
+      const terms = input.toLowerCase().split(/\W+/).filter(Boolean);
+      promptTokens += terms.length;
+
+      for (const term of terms) {
+        const digest = createHash('sha256').update(term).digest();
+        const index = digest.readUInt32BE(0) % this.dimensions;
+        vector[index] += digest[4] & 1 ? 1 : -1;
+      }
+      return vector;
+    });
+
+    return { vectors, promptTokens };
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * LLM Ensemble
+ *
+ * Types and scoring helpers for fanning one request out to several
+ * providers and combining their answers. Strategies:
+ * - first:      return the first successful answer
+ * - majority:   vote on normalized answers; suited to short or
+ *               classification-style outputs
+ * - judge:      a judge model picks the best candidate
+ * - synthesize: a model merges the candidates into one answer
+ */
+
+import type { LLMResponse } from './UnifiedLLMOrchestrator';
+import type { JSONSchema } from './LLMTools';
+
+export type EnsembleStrategy = 'first' | 'majority' | 'judge' | 'synthesize';
+
+export interface EnsembleOptions {
+  strategy: EnsembleStrategy;
+  providers?: string[]; // explicit members; defaults to the top-ranked providers
+  size?: number; // members to pick when providers is not given (default 3)
+  combiner?: string; // provider that judges or synthesizes; defaults to the top-ranked provider
+}
+
+export interface EnsembleOutput {
+  provider: string;
+  status: 'success' | 'error' | 'pending'; // pending: still running when 'first' returned
+  response?: LLMResponse;
+  error?: string;
+  agreement?: number; // 0-1 mean similarity to the other successful outputs
+}
+
+export interface EnsembleResult {
+  text: string;
+  strategy: EnsembleStrategy;
+  response: LLMResponse; // the chosen answer, or the judge's pick, or the synthesis
+  outputs: EnsembleOutput[];
+  agreement: number; // 0-1; vote share for majority, mean pairwise similarity otherwise
+  votes?: Record<string, number>; // normalized answer -> count, for majority
+  combinerResponse?: LLMResponse; // judge or synthesis call
+  totalCost: number; // USD across members and the combiner
+  latency: number;
+}
+
+export const JUDGE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    best: { type: 'integer', minimum: 1 },
+    reason: { type: 'string' }
+  },
+  required: ['best']
+};
+
+/**
+ * Canonical form of an answer for voting: case, surrounding
+ * punctuation and whitespace differences do not split the vote
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s"'`*.:;,!?-]+|[\s"'`*.:;,!?-]+$/g, '');
+}
+
+/**
+ * Count votes per normalized answer, keeping first-seen order
+ */
+export function tallyVotes(texts: string[]): Map<string, number> {
+  const votes = new Map<string, number>();
+  for (const text of texts) {
+    const answer = normalizeAnswer(text);
+    votes.set(answer, (votes.get(answer) || 0) + 1);
+  }
+  return votes;
+}
+
+/**
+ * Cosine similarity of the word counts of two texts
+ */
+export function textSimilarity(a: string, b: string): number {
+  const vectorA = termCounts(a);
+  const vectorB = termCounts(b);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  vectorA.forEach((count, term) => {
+    normA += count * count;
+    dot += count * (vectorB.get(term) || 0);
+  });
+  vectorB.forEach(count => {
+    normB += count * count;
+  });
+
+  if (normA === 0 || normB === 0) return normA === normB ? 1 : 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function termCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of text.toLowerCase().split(/\W+/).filter(Boolean)) {
+    counts.set(term, (counts.get(term) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Each text's mean similarity to the others; a lone text scores 1
+ */
+export function agreementScores(texts: string[]): number[] {
+  if (texts.length < 2) return texts.map(() => 1);
+
+  return texts.map((text, i) => {
+    let total = 0;
+    texts.forEach((other, j) => {
+      if (i !== j) total += textSimilarity(text, other);
+    });
+    return total / (texts.length - 1);
+  });
+}
+
+function candidateList(candidates: string[]): string {
+  return candidates.map((text, index) => `Candidate ${index + 1}:\n${text}`).join('\n\n');
+}
+
+/**
+ * Prompt asking a judge model to pick the best candidate answer
+ */
+export function judgePrompt(question: string, candidates: string[]): string {
+  return [
+    'Several assistants answered the same request. Pick the single best answer:',
+    'the most correct, complete and helpful one.',
+    '',
+    `Request:\n${question}`,
+    '',
+    candidateList(candidates),
+    '',
+    `Reply with a JSON object {"best": <candidate number 1-${candidates.length}>, "reason": "<one sentence>"}.`
+  ].join('\n');
+}
+
+/**
+ * Prompt asking a model to merge candidate answers into one
+ */
+export function synthesisPrompt(question: string, candidates: string[]): string {
+  return [
+    'Several assistants answered the same request. Write one answer that combines',
+    'their correct points, resolves disagreements in favour of the best-supported',
+    'view and drops anything wrong. Reply with the answer only.',
+    '',
+    `Request:\n${question}`,
+    '',
+    candidateList(candidates)
+  ].join('\n');
+}
@@ -0,0 +1,566 @@
+/**
+ * LLM Gateway
+ *
+ * OpenAI-compatible HTTP server in front of the orchestrator, so
+ * services that speak the chat-completions protocol get routing,
+ * fallback, budgets and caching without embedding this library.
+ *
+ * Endpoints:
+ *   POST /v1/chat/completions  chat completions, with SSE when `stream` is set
+ *   POST /v1/embeddings        embeddings
+ *   GET  /v1/models            routable models and aliases
+ *   GET  /admin/status         orchestrator status (admin clients only)
+ *   GET  /metrics              Prometheus metrics from the orchestrator's telemetry (admin clients only)
+ *
+ * Without configured clients, authentication is off and the admin
+ * endpoints stay closed unless `allowAnonymousAdmin` is set.
+ *
+ * The `model` field takes anything the orchestrator routes on: a model
+ * id, `Provider/model-id`, an alias such as `fast`, or `auto` to leave
+ * the choice to the routing policy. Routing options the OpenAI protocol
+ * has no field for can be passed in an `orchestrator` object in the body.
+ * The OpenAI `user` field becomes the budget session, prefixed with the
+ * client name (`client/user`) so clients cannot spend against each
+ * other's session caps; without authentication it is ignored.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { LLMRequest, LLMResponse, UnifiedLLMOrchestrator, llmOrchestrator } from './UnifiedLLMOrchestrator';
+import { LLMContentPart, LLMMessage } from './LLMMessages';
+import { LLMToolCall, LLMToolChoice, LLMToolDefinition, parseToolArguments } from './LLMTools';
+import { modelsOf } from './LLMModelCatalog';
+import { LLMResponseFormat } from './LLMStructuredOutput';
+import { RequestPriority, REQUEST_PRIORITIES } from './LLMRequestQueue';
+import { LLMFallbackExhaustedError } from './LLMRetryPolicy';
+import { LLMCancelledError, LLMTimeoutError } from './LLMCancellation';
+import { BudgetExceededError } from './LLMCostLedger';
+import { ContextWindowError } from './LLMContextWindow';
+import { PrivacyPolicyError } from './LLMPrivacy';
+import { MediaValidationError } from './LLMMultimodal';
+
+export interface GatewayClient {
+  name: string; // used as the tenant for fair queuing and in logs
+  key: string;
+  admin?: boolean; // may read /admin/status and /metrics
+}
+
+export interface GatewayOptions {
+  orchestrator?: UnifiedLLMOrchestrator; // defaults to the shared instance
+  clients?: GatewayClient[]; // without clients, authentication is off
+  allowAnonymousAdmin?: boolean; // serve the admin endpoints to anyone when authentication is off
+  maxBodyBytes?: number;
+}
+
+/**
+ * Error answered to the client in OpenAI's error format
+ */
+export class GatewayError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly type = 'invalid_request_error',
+    public readonly code: string | null = null
+  ) {
+    super(message);
+    this.name = 'GatewayError';
+  }
+}
+
+const DEFAULT_MAX_BODY_BYTES = 16 * 1024 * 1024; // room for a few inline images
+
+// Model names that leave the choice to the routing policy
+const AUTO_MODELS = ['auto', 'default'];
+
+/**
+ * HTTP front end speaking the OpenAI chat-completions protocol
+ */
+export class LLMGateway {
+  private orchestrator: UnifiedLLMOrchestrator;
+  private clients: Array<GatewayClient & { digest: Buffer }>;
+  private allowAnonymousAdmin: boolean;
+  private maxBodyBytes: number;
+  private server: Server | null = null;
+
+  constructor(options: GatewayOptions = {}) {
+    this.orchestrator = options.orchestrator ?? llmOrchestrator;
+    this.clients = (options.clients || []).map(client => ({ ...client, digest: digest(client.key) }));
+    this.allowAnonymousAdmin = options.allowAnonymousAdmin ?? false;
+    this.maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  }
+
+  /**
+   * Start listening; resolves with the bound address
+   */
+  listen(port = 8080, host = '127.0.0.1'): Promise<AddressInfo> {
+    if (this.clients.length === 0) {
+      console.log('[LLM Gateway] No clients configured, authentication is disabled');
+    }
+
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(error => console.error('[LLM Gateway] Unhandled error:', error));
+    });
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        const address = server.address() as AddressInfo;
+        console.log(`[LLM Gateway] Listening on http://${address.address}:${address.port}`);
+        resolve(address);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    return new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+  }
+
+  /**
+   * Request listener; can also be mounted on an existing HTTP server
+   */
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const path = (req.url || '/').split('?')[0];
+      const client = this.authenticate(req);
+
+      if (req.method === 'GET' && path === '/v1/models') {
+        return sendJson(res, 200, this.listModels());
+      }
+      if (req.method === 'GET' && (path === '/admin/status' || path === '/metrics')) {
+        if (client ? !client.admin : !this.allowAnonymousAdmin) {
+          throw new GatewayError(403, 'Admin access required', 'permission_error');
+        }
+        if (path === '/metrics') {
+          res.writeHead(200, { 'content-type': 'text/plain; version=0.0.4' });
+          res.end(this.orchestrator.getTelemetry().prometheus());
+          return;
+        }
+        return sendJson(res, 200, this.orchestrator.getStatus());
+      }
+      if (req.method === 'POST' && path === '/v1/chat/completions') {
+        return await this.chatCompletions(req, res, client, await readJson(req, this.maxBodyBytes));
+      }
+      if (req.method === 'POST' && path === '/v1/embeddings') {
+        return sendJson(res, 200, await this.embeddings(client, await readJson(req, this.maxBodyBytes)));
+      }
+      throw new GatewayError(404, `Unknown endpoint: ${req.method} ${path}`, 'invalid_request_error', 'not_found');
+    } catch (error) {
+      this.sendError(res, error);
+    }
+  }
+
+  /**
+   * Match the bearer token against the configured clients. Returns
+   * null when authentication is off.
+   */
+  private authenticate(req: IncomingMessage): GatewayClient | null {
+    if (this.clients.length === 0) return null;
+
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+    const presented = digest(token);
+    const client = token ? this.clients.find(candidate => timingSafeEqual(candidate.digest, presented)) : undefined;
+    if (!client) {
+      throw new GatewayError(401, 'Invalid or missing API key', 'invalid_request_error', 'invalid_api_key');
+    }
+    return client;
+  }
+
+  private listModels(): unknown {
+    const created = Math.floor(Date.now() / 1000);
+    const entry = (id: string, owner: string) => ({ id, object: 'model', created, owned_by: owner });
+    const providers = this.orchestrator.getAvailableProviders();
+    const models = providers.flatMap(provider => modelsOf(provider).map(model => entry(`${provider.name}/${model.id}`, provider.name)));
+    const aliases = new Set(providers.flatMap(provider => modelsOf(provider).flatMap(model => model.aliases)));
+
+    return {
+      object: 'list',
+      data: [
+        entry(AUTO_MODELS[0], 'orchestrator'),
+        ...Array.from(aliases).map(alias => entry(alias, 'orchestrator')),
+        ...models
+      ]
+    };
+  }
+
+  private async chatCompletions(
+    req: IncomingMessage,
+    res: ServerResponse,
+    client: GatewayClient | null,
+    body: any
+  ): Promise<void> {
+    const controller = new AbortController();
+    // Stop provider calls when the client goes away before the answer is complete
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort(new LLMCancelledError('Client disconnected'));
+    });
+
+    const request = toLLMRequest(body, client, controller.signal, this.orchestrator.getRoutingPolicyNames());
+    const id = `chatcmpl-${randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
+
+    if (!body.stream) {
+      const response = await this.orchestrator.generate(request);
+      return sendJson(res, 200, {
+        id,
+        object: 'chat.completion',
+        created,
+        model: `${response.provider}/${response.model}`,
+        choices: [{ index: 0, message: toOpenAIMessage(response), finish_reason: finishReason(response) }],
+        usage: toUsage(response)
+      });
+    }
+
+    const stream = this.orchestrator.generateStream(request);
+    const chunk = (model: string, delta: Record<string, unknown>, finish: string | null) =>
+      `data: ${JSON.stringify({ id, object: 'chat.completion.chunk', created, model, choices: [{ index: 0, delta, finish_reason: finish }] })}\n\n`;
+    let started = false;
+
+    try {
+      for await (const event of stream) {
+        if (!started) {
+          // Headers wait for the first event so routing errors still get a proper status
+          res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache', connection: 'keep-alive' });
+          res.write(chunk(event.type === 'delta' ? event.provider : `${event.response.provider}/${event.response.model}`, { role: 'assistant', content: '' }, null));
+          started = true;
+        }
+        if (event.type === 'delta') {
+          res.write(chunk(event.provider, { content: event.text }, null));
+        } else {
+          const response = event.response;
+          const model = `${response.provider}/${response.model}`;
+          if (response.toolCalls) {
+            res.write(chunk(model, { tool_calls: toOpenAIToolCalls(response.toolCalls, true) }, null));
+          }
+          res.write(chunk(model, {}, finishReason(response)));
+          if (body.stream_options?.include_usage) {
+            res.write(`data: ${JSON.stringify({ id, object: 'chat.completion.chunk', created, model, choices: [], usage: toUsage(response) })}\n\n`);
+          }
+        }
+      }
+    } catch (error) {
+      if (!started) throw error;
+      // Too late for a status code; report in-band as OpenAI does
+      if (!res.writableEnded) res.write(`data: ${JSON.stringify(errorBody(error))}\n\n`);
+    }
+
+    if (!res.writableEnded) {
+      if (!started) res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' });
+      res.end('data: [DONE]\n\n');
+    }
+  }
+
+  private async embeddings(client: GatewayClient | null, body: any): Promise<unknown> {
+    const input = body?.input;
+    if (!(typeof input === 'string' || (Array.isArray(input) && input.length > 0 && input.every(item => typeof item === 'string')))) {
+      throw new GatewayError(400, '`input` must be a string or a non-empty array of strings');
+    }
+    if (body.encoding_format !== undefined && !['float', 'base64'].includes(body.encoding_format)) {
+      throw new GatewayError(400, '`encoding_format` must be "float" or "base64"');
+    }
+
+    const response = await this.orchestrator.embed({
+      input,
+      preferredProvider: this.embeddingProviderFor(body.model),
+      sessionId: sessionFor(body.user, client) ?? client?.name,
+      sensitive: toRoutingOptions(body.orchestrator, this.orchestrator.getRoutingPolicyNames()).sensitive
+    });
+
+    return {
+      object: 'list',
+      data: response.vectors.map((vector, index) => ({
+        object: 'embedding',
+        index,
+        embedding: body.encoding_format === 'base64'
+          ? Buffer.from(new Float32Array(vector).buffer).toString('base64')
+          : vector
+      })),
+      model: `${response.provider}/${response.model}`,
+      usage: { prompt_tokens: response.tokensUsed, total_tokens: response.tokensUsed }
+    };
+  }
+
+  /**
+   * Provider named by an embeddings `model`: a provider name,
+   * `Provider/model-id`, or the id of a provider's embedding model
+   */
+  private embeddingProviderFor(model: unknown): string | undefined {
+    if (typeof model !== 'string' || AUTO_MODELS.includes(model)) return undefined;
+
+    const providers = this.orchestrator.getAvailableProviders();
+    const named = providers.find(provider => provider.name === model || model.startsWith(`${provider.name}/`));
+    const serving = providers.find(provider => provider.embeddings?.model === model);
+    const provider = named ?? serving;
+    if (!provider) {
+      throw new GatewayError(404, `No embedding model matches "${model}"`, 'invalid_request_error', 'model_not_found');
+    }
+    return provider.name;
+  }
+
+  private sendError(res: ServerResponse, error: unknown): void {
+    const status = errorStatus(error);
+    if (status >= 500) {
+      console.log(`[LLM Gateway] Request failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (res.headersSent) {
+      if (!res.writableEnded) res.end();
+      return;
+    }
+    sendJson(res, status, errorBody(error));
+  }
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req: IncomingMessage, maxBytes: number): Promise<any> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      throw new GatewayError(413, `Request body exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new GatewayError(400, 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * Map a chat-completions body onto an orchestrator request
+ */
+function toLLMRequest(body: any, client: GatewayClient | null, signal: AbortSignal, routingPolicies: string[]): LLMRequest {
+  if (!Array.isArray(body?.messages) || body.messages.length === 0) {
+    throw new GatewayError(400, '`messages` must be a non-empty array');
+  }
+
+  const model = typeof body.model === 'string' && !AUTO_MODELS.includes(body.model) ? body.model : undefined;
+  return {
+    messages: body.messages.map(toLLMMessage),
+    model,
+    maxTokens: body.max_completion_tokens ?? body.max_tokens,
+    temperature: body.temperature,
+    tools: Array.isArray(body.tools) ? body.tools.map(toToolDefinition) : undefined,
+    toolChoice: toToolChoice(body.tool_choice),
+    responseFormat: toResponseFormat(body.response_format),
+    sessionId: sessionFor(body.user, client),
+    tenantId: client?.name,
+    signal,
+    ...toRoutingOptions(body.orchestrator, routingPolicies)
+  };
+}
+
+type RoutingOptions = Pick<LLMRequest, 'preferredProvider' | 'routingPolicy' | 'requiredCapabilities' | 'priority' | 'sensitive' | 'bypassCache'>;
+
+/**
+ * Map the `orchestrator` body object. Fields are checked here because
+ * the orchestrator trusts its callers; a bad value is the client's
+ * mistake and must not surface as a 500.
+ */
+function toRoutingOptions(extra: any, routingPolicies: string[]): RoutingOptions {
+  if (extra === undefined || extra === null) return {};
+  if (typeof extra !== 'object' || Array.isArray(extra)) {
+    throw new GatewayError(400, '`orchestrator` must be an object');
+  }
+
+  const { preferred_provider, routing_policy, required_capabilities, priority, sensitive, bypass_cache } = extra;
+  if (preferred_provider !== undefined && typeof preferred_provider !== 'string') {
+    throw new GatewayError(400, '`orchestrator.preferred_provider` must be a string');
+  }
+  if (routing_policy !== undefined && !routingPolicies.includes(routing_policy)) {
+    throw new GatewayError(400, `\`orchestrator.routing_policy\` must be one of ${routingPolicies.join(', ')}`);
+  }
+  if (required_capabilities !== undefined
+    && !(Array.isArray(required_capabilities) && required_capabilities.every(item => typeof item === 'string'))) {
+    throw new GatewayError(400, '`orchestrator.required_capabilities` must be an array of strings');
+  }
+  if (priority !== undefined && !REQUEST_PRIORITIES.includes(priority)) {
+    throw new GatewayError(400, `\`orchestrator.priority\` must be one of ${REQUEST_PRIORITIES.join(', ')}`);
+  }
+  if (sensitive !== undefined && typeof sensitive !== 'boolean') {
+    throw new GatewayError(400, '`orchestrator.sensitive` must be a boolean');
+  }
+  if (bypass_cache !== undefined && typeof bypass_cache !== 'boolean') {
+    throw new GatewayError(400, '`orchestrator.bypass_cache` must be a boolean');
+  }
+
+  return {
+    preferredProvider: preferred_provider,
+    routingPolicy: routing_policy,
+    requiredCapabilities: required_capabilities,
+    priority: priority as RequestPriority | undefined,
+    sensitive,
+    bypassCache: bypass_cache
+  };
+}
+
+/**
+ * Budget session for the OpenAI `user` field, scoped to the client
+ */
+function sessionFor(user: unknown, client: GatewayClient | null): string | undefined {
+  return client && typeof user === 'string' && user ? `${client.name}/${user}` : undefined;
+}
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.*)$/s;
+
+/**
+ * Map an OpenAI content part. Media must be inline: remote image URLs
+ * are refused, file paths are never taken from clients, and parts with
+ * no counterpart are dropped.
+ */
+function toContentPart(part: any, path: string): LLMContentPart | null {
+  switch (part?.type) {
+    case 'text':
+      return { type: 'text', text: String(part.text ?? '') };
+    case 'image_url': {
+      const match = DATA_URL_PATTERN.exec(String(part.image_url?.url ?? ''));
+      if (!match) throw new GatewayError(400, `${path}.image_url.url must be a base64 data: URL`);
+      return { type: 'image', mimeType: match[1], data: match[2] };
+    }
+    case 'input_audio': {
+      const format = String(part.input_audio?.format ?? '');
+      return { type: 'audio', mimeType: format === 'mp3' ? 'audio/mpeg' : `audio/${format}`, data: String(part.input_audio?.data ?? '') };
+    }
+    case 'file': {
+      const match = DATA_URL_PATTERN.exec(String(part.file?.file_data ?? ''));
+      if (!match) throw new GatewayError(400, `${path}.file.file_data must be a base64 data: URL; uploaded file ids are not supported`);
+      return { type: 'document', mimeType: match[1], data: match[2], ...(part.file.filename ? { name: String(part.file.filename) } : {}) };
+    }
+    default:
+      return null; // e.g. refusal parts echoed back in assistant turns
+  }
+}
+
+function toLLMMessage(message: any, index: number): LLMMessage {
+  const roles = ['system', 'developer', 'user', 'assistant', 'tool'];
+  if (!message || !roles.includes(message.role)) {
+    throw new GatewayError(400, `messages[${index}].role must be one of ${roles.join(', ')}`);
+  }
+
+  const content = typeof message.content === 'string'
+    ? message.content
+    : Array.isArray(message.content)
+      ? message.content
+        .map((part: any, partIndex: number) => toContentPart(part, `messages[${index}].content[${partIndex}]`))
+        .filter((part: LLMContentPart | null): part is LLMContentPart => part !== null)
+      : '';
+
+  return {
+    role: message.role === 'developer' ? 'system' : message.role,
+    content,
+    ...(message.name ? { name: message.name } : {}),
+    ...(message.tool_call_id ? { toolCallId: message.tool_call_id } : {}),
+    ...(Array.isArray(message.tool_calls)
+      ? {
+        toolCalls: message.tool_calls.map((call: any): LLMToolCall => ({
+          id: call.id,
+          name: call.function?.name,
+          arguments: parseToolArguments(call.function?.arguments)
+        }))
+      }
+      : {})
+  };
+}
+
+function toToolDefinition(tool: any, index: number): LLMToolDefinition {
+  if (tool?.type !== 'function' || typeof tool.function?.name !== 'string') {
+    throw new GatewayError(400, `tools[${index}] must be a function tool with a name`);
+  }
+  return {
+    name: tool.function.name,
+    description: tool.function.description,
+    parameters: tool.function.parameters ?? { type: 'object', properties: {} }
+  };
+}
+
+function toToolChoice(choice: any): LLMToolChoice | undefined {
+  if (choice === undefined || choice === null) return undefined;
+  if (choice === 'auto' || choice === 'none' || choice === 'required') return choice;
+  if (typeof choice?.function?.name === 'string') return { name: choice.function.name };
+  throw new GatewayError(400, '`tool_choice` must be "auto", "none", "required" or a function');
+}
+
+function toResponseFormat(format: any): LLMResponseFormat | undefined {
+  if (!format || format.type === 'text') return undefined;
+  if (format.type === 'json_object') return { type: 'json' };
+  if (format.type === 'json_schema') return { type: 'json', schema: format.json_schema?.schema };
+  throw new GatewayError(400, '`response_format.type` must be "text", "json_object" or "json_schema"');
+}
+
+function toOpenAIToolCalls(calls: LLMToolCall[], indexed = false): unknown[] {
+  return calls.map((call, index) => ({
+    ...(indexed ? { index } : {}),
+    id: call.id,
+    type: 'function',
+    function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+  }));
+}
+
+function toOpenAIMessage(response: LLMResponse): unknown {
+  return {
+    role: 'assistant',
+    content: response.toolCalls && !response.text ? null : response.text,
+    ...(response.toolCalls ? { tool_calls: toOpenAIToolCalls(response.toolCalls) } : {})
+  };
+}
+
+function finishReason(response: LLMResponse): string {
+  return response.toolCalls && response.toolCalls.length > 0 ? 'tool_calls' : 'stop';
+}
+
+function toUsage(response: LLMResponse): unknown {
+  return {
+    prompt_tokens: response.promptTokens,
+    completion_tokens: response.completionTokens,
+    total_tokens: response.tokensUsed
+  };
+}
+
+function errorStatus(error: unknown): number {
+  if (error instanceof GatewayError) return error.status;
+  if (error instanceof BudgetExceededError) return 429;
+  if (error instanceof PrivacyPolicyError) return 403;
+  if (error instanceof ContextWindowError) return 400;
+  if (error instanceof MediaValidationError) return 400;
+  if (error instanceof Error && /^No available provider accepts/.test(error.message)) return 400;
+  if (error instanceof LLMTimeoutError) return 504;
+  if (error instanceof LLMCancelledError) return 499;
+  if (error instanceof LLMFallbackExhaustedError) return 502;
+  if (error instanceof Error && /^No available model matches/.test(error.message)) return 404;
+  if (error instanceof Error && /^No LLM provider available/.test(error.message)) return 503;
+  return 500;
+}
+
+function errorBody(error: unknown): { error: { message: string; type: string; code: string | null } } {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof GatewayError) {
+    return { error: { message, type: error.type, code: error.code } };
+  }
+
+  const status = errorStatus(error);
+  const code = error instanceof BudgetExceededError
+    ? 'insufficient_quota'
+    : error instanceof ContextWindowError
+      ? 'context_length_exceeded'
+      : status === 404 ? 'model_not_found' : null;
+  const type = status === 429
+    ? 'insufficient_quota'
+    : status < 500 ? 'invalid_request_error' : 'api_error';
+  return { error: { message, type, code } };
+}
@@ -0,0 +1,166 @@
+/**
+ * LLM Messages
+ *
+ * Provider-neutral conversation model. A request may carry a full
+ * message history, the classic prompt/systemPrompt pair, or both; the
+ * helpers here fold them into one conversation that adapters map onto
+ * each vendor's wire format.
+ *
+ * User turns may also carry images, documents and audio as media parts,
+ * given as base64 data or as a file path that LLMMultimodal loads
+ * before the request is sent.
+ */
+
+import { createHash } from 'crypto';
+import type { LLMRequest } from './UnifiedLLMOrchestrator';
+import type { LLMToolCall } from './LLMTools';
+
+export type LLMRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface LLMTextPart {
+  type: 'text';
+  text: string;
+}
+
+export type MediaKind = 'image' | 'document' | 'audio';
+
+interface LLMMediaSource {
+  data?: string; // base64, without a data: prefix
+  path?: string; // local file, read and encoded before sending
+  mimeType?: string; // inferred from the file extension or contents when omitted
+}
+
+export interface LLMImagePart extends LLMMediaSource {
+  type: 'image';
+}
+
+export interface LLMDocumentPart extends LLMMediaSource {
+  type: 'document';
+  name?: string; // file name shown to the model
+}
+
+export interface LLMAudioPart extends LLMMediaSource {
+  type: 'audio';
+}
+
+export type LLMMediaPart = LLMImagePart | LLMDocumentPart | LLMAudioPart;
+
+export type LLMContentPart = LLMTextPart | LLMMediaPart;
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string | LLMContentPart[];
+  name?: string; // speaker name, or the tool name on tool messages
+  toolCalls?: LLMToolCall[]; // calls requested by an assistant turn
+  toolCallId?: string; // the call a tool message answers
+}
+
+export interface LLMConversation {
+  system?: string; // systemPrompt and any system messages, merged
+  turns: LLMMessage[]; // user, assistant and tool turns in order
+}
+
+/**
+ * Fold a request into a system string and an ordered list of turns.
+ * The single-prompt form becomes one trailing user turn.
+ */
+export function toConversation(request: LLMRequest): LLMConversation {
+  const systemParts: string[] = request.systemPrompt ? [request.systemPrompt] : [];
+  const turns: LLMMessage[] = [];
+
+  for (const message of request.messages || []) {
+    if (message.role === 'system') {
+      systemParts.push(messageText(message));
+    } else {
+      turns.push(message);
+    }
+  }
+
+  if (request.prompt) {
+    turns.push({ role: 'user', content: request.prompt });
+  }
+
+  return {
+    system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+    turns
+  };
+}
+
+/**
+ * Plain text of a message, joining its text parts
+ */
+export function messageText(message: LLMMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .filter((part): part is LLMTextPart => part.type === 'text')
+    .map(part => part.text)
+    .join('\n');
+}
+
+/**
+ * Media parts of a message, in order
+ */
+export function mediaParts(message: LLMMessage): LLMMediaPart[] {
+  if (typeof message.content === 'string') return [];
+  return message.content.filter((part): part is LLMMediaPart => part.type !== 'text');
+}
+
+/**
+ * The message with its text replaced and any media parts kept
+ */
+export function withText(message: LLMMessage, text: string): LLMMessage {
+  const media = mediaParts(message);
+  return { ...message, content: media.length > 0 ? [...media, { type: 'text', text }] : text };
+}
+
+/**
+ * Content as an array of parts
+ */
+export function contentParts(message: LLMMessage): LLMContentPart[] {
+  return typeof message.content === 'string'
+    ? [{ type: 'text', text: message.content }]
+    : message.content;
+}
+
+/**
+ * The whole conversation as text, for token estimates and cache keys
+ */
+export function conversationText(request: LLMRequest): string {
+  const { system, turns } = toConversation(request);
+  const lines = turns.map(turn => {
+    const calls = turn.toolCalls && turn.toolCalls.length > 0
+      ? ` ${JSON.stringify(turn.toolCalls.map(call => [call.name, call.arguments]))}`
+      : '';
+    const media = mediaParts(turn).map(mediaMarker).join('');
+    return `${turn.role}${turn.name ? ` (${turn.name})` : ''}: ${media}${messageText(turn)}${calls}`;
+  });
+  return system ? [`system: ${system}`, ...lines].join('\n') : lines.join('\n');
+}
+
+/**
+ * Render turns as a plain transcript for completion-style endpoints
+ * that take a single prompt. A lone user turn is passed through as-is.
+ */
+export function renderTranscript(turns: LLMMessage[]): string {
+  if (turns.length === 1 && turns[0].role === 'user') {
+    return messageText(turns[0]);
+  }
+
+  const lines = turns.map(turn => {
+    const speaker = turn.role === 'tool'
+      ? `Tool ${turn.name || ''}`.trim()
+      : turn.name || (turn.role === 'user' ? 'User' : 'Assistant');
+    return `${speaker}: ${messageText(turn)}`;
+  });
+  return `${lines.join('\n\n')}\n\nAssistant:`;
+}
+
+/**
+ * Short stand-in for a media part in conversation text. The digest
+ * keeps cache keys apart for requests that differ only in an attachment.
+ */
+function mediaMarker(part: LLMMediaPart): string {
+  const source = part.data ?? part.path ?? '';
+  const digest = createHash('sha256').update(source).digest('hex').slice(0, 16);
+  return `[${part.type} ${part.mimeType || 'unknown'} ${digest}] `;
+}
@@ -0,0 +1,282 @@
+/**
+ * LLM Mock Provider
+ *
+ * Scripted providers for deterministic tests. A provider with format
+ * `mock` is answered in-process by MockProviderHost instead of over the
+ * network, but its calls travel the same path as real ones: adapters,
+ * HTTP status handling, retries, fallback, circuit breakers, caching
+ * and routing all see ordinary responses and errors.
+ *
+ * A script lists replies served in order. Each reply can carry text,
+ * tool calls, usage, stream chunks, latency, or an injected error (an
+ * HTTP status, a network failure, or a call that never answers).
+ * Mock providers also accept vendor batches, answered from the same
+ * script; `batchPolls` keeps a batch running for that many status checks.
+ *
+ *   orchestrator.registerProvider(mockProvider('Flaky', {
+ *     replies: [{ error: { status: 503 } }, { text: 'recovered' }]
+ *   }));
+ */
+
+import type { LLMProvider } from './UnifiedLLMOrchestrator';
+import type { FetchLike, ProviderUsage, VendorBatchStatus } from './LLMProviderAdapters';
+import { LLMMessage, messageText } from './LLMMessages';
+import type { LLMToolCall, LLMToolDefinition } from './LLMTools';
+import { HashingEmbedder } from './LLMEmbeddings';
+import { raceAbort } from './LLMCancellation';
+import { sleep } from './LLMRetryPolicy';
+
+export const MOCK_SCHEME = 'mock://';
+
+export interface MockError {
+  status?: number; // HTTP status answered (default 500)
+  message?: string;
+  retryAfterSeconds?: number; // sent as Retry-After
+  network?: boolean; // fail as an unreachable host instead of answering
+  hang?: boolean; // never answer; only cancellation or a timeout ends the call
+}
+
+export interface MockReply {
+  text?: string;
+  toolCalls?: LLMToolCall[];
+  usage?: ProviderUsage; // omitted usage is estimated by the orchestrator
+  chunks?: string[]; // streamed pieces; defaults to the text split after each word
+  latencyMs?: number; // overrides the script's latency
+  error?: MockError;
+}
+
+export interface MockCall {
+  provider: string;
+  index: number; // calls this provider had received before, from 0
+  model: string;
+  system?: string;
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  stream: boolean;
+  input?: string[]; // set for embedding calls
+}
+
+export interface MockScript {
+  replies?: MockReply[]; // served in order; the last repeats unless `loop` is set
+  loop?: boolean; // start over after the last reply
+  latencyMs?: number | { min: number; max: number }; // a range varies per call, seeded by the call index
+  respond?: (call: MockCall) => MockReply | Promise<MockReply>; // computes every reply instead of `replies`
+  batchPolls?: number; // status checks a submitted batch reports as running (default 0)
+}
+
+interface MockBatch {
+  provider: string;
+  checks: number;
+  lines: string[]; // result lines, one per request
+}
+
+const EMBEDDING_DIMENSIONS = 16;
+
+/**
+ * Provider config for a scripted mock. It needs no credential and
+ * serves chat, tools, JSON mode, media input, streaming, embeddings
+ * and batches.
+ */
+export function mockProvider(name: string, script: MockScript = {}, overrides: Partial<LLMProvider> = {}): LLMProvider {
+  const endpoint = `${MOCK_SCHEME}${encodeURIComponent(name)}`;
+  return {
+    name,
+    endpoint,
+    format: 'mock',
+    model: 'mock-model',
+    maxTokens: 1024,
+    temperature: 0,
+    priority: 100,
+    capabilities: ['reasoning', 'coding', 'function-calling', 'json-mode', 'embeddings', 'vision', 'documents', 'audio'],
+    rateLimit: 1000,
+    latency: 'low',
+    cost: 'free',
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 },
+    contextWindow: 8192,
+    embeddings: { endpoint: `${endpoint}/embeddings`, model: 'mock-embedding', maxBatchSize: 64, inputPerMillion: 0 },
+    batch: { endpoint: `${endpoint}/batches`, discount: 0.5, maxItems: 100 },
+    requiresCredential: false,
+    mock: script,
+    ...overrides
+  };
+}
+
+/**
+ * Answers requests to `mock://` endpoints from the scripts of the
+ * providers they name, and records every call for assertions
+ */
+export class MockProviderHost {
+  private counters: Map<string, number> = new Map();
+  private log: MockCall[] = [];
+  private batches: Map<string, MockBatch> = new Map();
+  private embedder = new HashingEmbedder(EMBEDDING_DIMENSIONS);
+
+  constructor(private scriptFor: (provider: string) => MockScript | undefined) {}
+
+  /**
+   * Calls received so far, optionally for one provider
+   */
+  calls(provider?: string): MockCall[] {
+    return provider ? this.log.filter(call => call.provider === provider) : [...this.log];
+  }
+
+  /**
+   * Forget recorded calls and restart every script from its first reply
+   */
+  reset(): void {
+    this.counters.clear();
+    this.log = [];
+    this.batches.clear();
+  }
+
+  readonly fetch: FetchLike = async (url, init) => {
+    const [name, ...path] = url.slice(MOCK_SCHEME.length).split('/');
+    const provider = decodeURIComponent(name);
+    const script = this.scriptFor(provider);
+    if (!script) {
+      throw new Error(`No mock provider named "${provider}"`);
+    }
+    if (path[0] === 'batches') {
+      return this.batch(provider, script, path.slice(1), init.body);
+    }
+
+    const call = this.record(provider, JSON.parse(init.body ?? '{}'), path[0] === 'embeddings');
+    const reply = await replyFor(script, call);
+    await sleep(reply.latencyMs ?? latencyFor(script, call.index), init.signal);
+
+    if (reply.error) return this.failure(reply.error, init.signal);
+    if (call.input) {
+      const result = await this.embedder.embed(call.input);
+      return jsonResponse({ vectors: result.vectors, promptTokens: result.promptTokens });
+    }
+    if (!call.stream) {
+      return jsonResponse({ text: reply.text ?? '', toolCalls: reply.toolCalls, usage: reply.usage });
+    }
+
+    const lines = (reply.chunks ?? splitWords(reply.text ?? '')).map(text => JSON.stringify({ text }));
+    if (reply.usage) lines.push(JSON.stringify({ usage: reply.usage }));
+    const encoded = lines.map(line => new TextEncoder().encode(`${line}\n`));
+    return {
+      ok: true,
+      status: 200,
+      text: async () => lines.join('\n'),
+      body: (async function* () {
+        yield* encoded;
+      })()
+    };
+  };
+
+  private record(provider: string, body: any, embedding: boolean): MockCall {
+    const index = this.counters.get(provider) ?? 0;
+    this.counters.set(provider, index + 1);
+    const call: MockCall = embedding
+      ? { provider, index, model: body.model, messages: [], stream: false, input: body.input }
+      : {
+        provider,
+        index,
+        model: body.model,
+        ...(body.system ? { system: body.system } : {}),
+        messages: body.messages,
+        ...(body.tools ? { tools: body.tools } : {}),
+        stream: body.stream === true
+      };
+    this.log.push(call);
+    return call;
+  }
+
+  /**
+   * Batch API: POST batches creates a batch and answers every request
+   * in it at once; GET batches/<id> reports its state and GET
+   * batches/<id>/results returns one JSON line per request
+   */
+  private async batch(provider: string, script: MockScript, path: string[], body?: string): Promise<ReturnType<typeof jsonResponse>> {
+    if (path.length === 0) {
+      const lines: string[] = [];
+      for (const item of JSON.parse(body ?? '{}').requests ?? []) {
+        const reply = await replyFor(script, this.record(provider, item.body, false));
+        lines.push(JSON.stringify(reply.error
+          ? { custom_id: item.custom_id, error: { message: reply.error.message ?? `Mock error ${reply.error.status ?? 500}` } }
+          : { custom_id: item.custom_id, body: { text: reply.text ?? '', toolCalls: reply.toolCalls, usage: reply.usage } }));
+      }
+      const id = `mock_batch_${this.batches.size + 1}`;
+      this.batches.set(id, { provider, checks: 0, lines });
+      return jsonResponse(this.batchStatus(id, script));
+    }
+
+    const batch = this.batches.get(path[0]);
+    if (!batch || batch.provider !== provider) {
+      return this.failure({ status: 404, message: `No batch ${path[0]}` });
+    }
+    if (path[1] === 'results') {
+      const raw = batch.lines.join('\n');
+      return { ok: true, status: 200, text: async () => raw };
+    }
+    batch.checks++;
+    return jsonResponse(this.batchStatus(path[0], script));
+  }
+
+  private batchStatus(id: string, script: MockScript): VendorBatchStatus {
+    const batch = this.batches.get(id)!;
+    if (batch.checks < (script.batchPolls ?? 0)) return { id, state: 'running' };
+    return { id, state: 'ended', resultsUrl: `${MOCK_SCHEME}${encodeURIComponent(batch.provider)}/batches/${id}/results` };
+  }
+
+  private async failure(error: MockError, signal?: AbortSignal): Promise<ReturnType<typeof jsonResponse>> {
+    if (error.hang) {
+      await raceAbort(new Promise<never>(() => undefined), signal);
+    }
+    if (error.network) {
+      throw Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } });
+    }
+
+    const status = error.status ?? 500;
+    const retryAfter = error.retryAfterSeconds !== undefined ? String(error.retryAfterSeconds) : null;
+    return {
+      ...jsonResponse({ error: { message: error.message ?? `Mock error ${status}` } }),
+      ok: false,
+      status,
+      headers: { get: (header: string) => (header.toLowerCase() === 'retry-after' ? retryAfter : null) }
+    };
+  }
+}
+
+function replyFor(script: MockScript, call: MockCall): MockReply | Promise<MockReply> {
+  return script.respond ? script.respond(call) : replyAt(script, call.index) ?? defaultReply(call);
+}
+
+function replyAt(script: MockScript, index: number): MockReply | undefined {
+  const replies = script.replies || [];
+  if (replies.length === 0) return undefined;
+  return replies[script.loop ? index % replies.length : Math.min(index, replies.length - 1)];
+}
+
+/**
+ * Unscripted providers echo the last user turn, so answers stay
+ * deterministic and show which provider served them
+ */
+function defaultReply(call: MockCall): MockReply {
+  const lastUser = [...call.messages].reverse().find(message => message.role === 'user');
+  return { text: `[${call.provider}] ${lastUser ? messageText(lastUser) : ''}` };
+}
+
+function latencyFor(script: MockScript, index: number): number {
+  const latency = script.latencyMs ?? 0;
+  if (typeof latency === 'number') return latency;
+  // Deterministic spread across the range, so reruns see the same timings
+  const spread = ((index * 2654435761) >>> 0) / 0x100000000;
+  return latency.min + Math.round((latency.max - latency.min) * spread);
+}
+
+function splitWords(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) || [];
+}
+
+function jsonResponse(body: unknown): {
+  ok: boolean;
+  status: number;
+  text(): Promise<string>;
+  headers?: { get(name: string): string | null };
+} {
+  const raw = JSON.stringify(body);
+  return { ok: true, status: 200, text: async () => raw };
+}
@@ -0,0 +1,96 @@
+/**
+ * LLM Model Catalog
+ *
+ * A provider serves one or more models. Each model has its own context
+ * window, output limit, capabilities, pricing and latency class, and
+ * may answer to vendor-neutral aliases such as `fast`, `smart` or
+ * `local`. Fields a model leaves out are inherited from its provider;
+ * the provider's top-level `model` is its default model.
+ *
+ * Routing works on provider entries bound to a single model, so state
+ * keyed by provider name (rate limits, circuit breakers, queues) is
+ * shared by all of a provider's models.
+ */
+
+import type { LLMProvider } from './UnifiedLLMOrchestrator';
+import type { ModelPricing } from './LLMCostLedger';
+
+export interface LLMModelConfig {
+  id: string; // model name sent to the provider
+  contextWindow?: number; // prompt plus completion tokens
+  maxOutputTokens?: number; // defaults to the provider's maxTokens
+  capabilities?: string[];
+  pricing?: ModelPricing;
+  latency?: LLMProvider['latency'];
+  cost?: LLMProvider['cost'];
+  aliases?: string[]; // e.g. fast, smart, local
+}
+
+export interface LLMModel {
+  id: string;
+  contextWindow?: number;
+  maxOutputTokens: number;
+  capabilities: string[];
+  pricing: ModelPricing;
+  latency: LLMProvider['latency'];
+  cost: LLMProvider['cost'];
+  aliases: string[];
+}
+
+/**
+ * Every model a provider serves with inherited fields filled in,
+ * default model first
+ */
+export function modelsOf(provider: LLMProvider): LLMModel[] {
+  const resolve = (config: LLMModelConfig): LLMModel => ({
+    id: config.id,
+    contextWindow: config.contextWindow ?? provider.contextWindow,
+    maxOutputTokens: config.maxOutputTokens ?? provider.maxTokens,
+    capabilities: config.capabilities ?? provider.capabilities,
+    pricing: config.pricing ?? provider.pricing,
+    latency: config.latency ?? provider.latency,
+    cost: config.cost ?? provider.cost,
+    aliases: config.aliases ?? []
+  });
+
+  const configs = provider.models || [];
+  const listedDefault = configs.find(config => config.id === provider.model);
+  return [
+    resolve({ ...listedDefault, id: provider.model }),
+    ...configs.filter(config => config !== listedDefault).map(resolve)
+  ];
+}
+
+/**
+ * The provider entry as seen when calling one of its models: model
+ * fields replace the provider's defaults
+ */
+export function bindModel(provider: LLMProvider, model: LLMModel): LLMProvider {
+  return {
+    ...provider,
+    model: model.id,
+    maxTokens: model.maxOutputTokens,
+    contextWindow: model.contextWindow,
+    capabilities: model.capabilities,
+    pricing: model.pricing,
+    latency: model.latency,
+    cost: model.cost
+  };
+}
+
+/**
+ * Whether a model reference names this model: its id, an alias, or
+ * `Provider/model-id`
+ */
+export function matchesModel(provider: LLMProvider, model: LLMModel, ref: string): boolean {
+  return ref === model.id
+    || ref === `${provider.name}/${model.id}`
+    || model.aliases.includes(ref);
+}
+
+/**
+ * Key for statistics kept per provider/model pair
+ */
+export function modelKey(provider: Pick<LLMProvider, 'name' | 'model'>): string {
+  return `${provider.name}/${provider.model}`;
+}
@@ -0,0 +1,238 @@
+/**
+ * LLM Multimodal
+ *
+ * Preparation and checks for image, document and audio parts before a
+ * request leaves the process. loadMedia reads parts given as a file
+ * path into base64 and fills in missing MIME types; validateMedia
+ * checks MIME types and sizes against the limits. Routing uses
+ * mediaKindsOf and MEDIA_CAPABILITIES so that a request with images
+ * only goes to providers tagged `vision`.
+ */
+
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import type { LLMRequest } from './UnifiedLLMOrchestrator';
+import { LLMMediaPart, LLMMessage, MediaKind, mediaParts } from './LLMMessages';
+
+export interface MediaLimits {
+  maxImageBytes: number;
+  maxDocumentBytes: number;
+  maxAudioBytes: number;
+  maxTotalBytes: number; // all media in one request
+}
+
+export const DEFAULT_MEDIA_LIMITS: MediaLimits = {
+  maxImageBytes: 5 * 1024 * 1024,
+  maxDocumentBytes: 32 * 1024 * 1024,
+  maxAudioBytes: 25 * 1024 * 1024,
+  maxTotalBytes: 50 * 1024 * 1024
+};
+
+// Capability a provider must be tagged with to accept each kind
+export const MEDIA_CAPABILITIES: Record<MediaKind, string> = {
+  image: 'vision',
+  document: 'documents',
+  audio: 'audio'
+};
+
+export const SUPPORTED_MIME_TYPES: Record<MediaKind, string[]> = {
+  image: ['image/png', 'image/jpeg', 'image/gif', 'image/webp'],
+  document: ['application/pdf', 'text/plain', 'text/markdown', 'text/csv', 'text/html'],
+  audio: ['audio/wav', 'audio/mpeg', 'audio/ogg', 'audio/flac', 'audio/webm']
+};
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.wav': 'audio/wav',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.flac': 'audio/flac',
+  '.webm': 'audio/webm'
+};
+
+// Rough prompt cost of one part, for context window checks
+const IMAGE_TOKENS = 1000;
+const TEXT_DOCUMENT_TOKENS_PER_KB = 256; // about four characters a token
+const DOCUMENT_TOKENS_PER_KB = 20; // PDFs: pages of text and layout per compressed KB
+const AUDIO_TOKENS_PER_KB = 2;
+
+/**
+ * Raised when media parts cannot be sent: unreadable files, unsupported
+ * MIME types or parts over the size limits
+ */
+export class MediaValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid media input: ${issues.join('; ')}`);
+    this.name = 'MediaValidationError';
+  }
+}
+
+/**
+ * Every media part in the request's messages
+ */
+export function requestMedia(request: LLMRequest): LLMMediaPart[] {
+  return (request.messages || []).flatMap(message => mediaParts(message));
+}
+
+/**
+ * Distinct media kinds the request carries
+ */
+export function mediaKindsOf(request: LLMRequest): MediaKind[] {
+  return [...new Set(requestMedia(request).map(part => part.type))];
+}
+
+/**
+ * Capabilities a provider needs for the request's media
+ */
+export function mediaCapabilities(request: LLMRequest): string[] {
+  return mediaKindsOf(request).map(kind => MEDIA_CAPABILITIES[kind]);
+}
+
+/**
+ * The request with every file-path part read into base64 and every
+ * part given a MIME type. Requests without media are returned as-is.
+ */
+export async function loadMedia(request: LLMRequest): Promise<LLMRequest> {
+  if (requestMedia(request).length === 0) return request;
+
+  const issues: string[] = [];
+  const messages = await Promise.all((request.messages || []).map(async (message): Promise<LLMMessage> => {
+    if (typeof message.content === 'string') return message;
+    const content = await Promise.all(message.content.map(async part => {
+      if (part.type === 'text') return part;
+      try {
+        return await loadPart(part);
+      } catch (error) {
+        issues.push(`${part.type} ${part.path}: ${error instanceof Error ? error.message : String(error)}`);
+        return part;
+      }
+    }));
+    return { ...message, content };
+  }));
+
+  if (issues.length > 0) throw new MediaValidationError(issues);
+  return { ...request, messages };
+}
+
+async function loadPart(part: LLMMediaPart): Promise<LLMMediaPart> {
+  if (part.data !== undefined) {
+    return part.mimeType ? part : { ...part, mimeType: sniffMimeType(leadingBytes(part.data)) };
+  }
+  if (!part.path) return part;
+
+  const bytes = await readFile(part.path);
+  const mimeType = part.mimeType || EXTENSION_MIME_TYPES[extname(part.path).toLowerCase()] || sniffMimeType(bytes);
+  const { path, ...rest } = part;
+  return {
+    ...rest,
+    data: bytes.toString('base64'),
+    ...(mimeType ? { mimeType } : {}),
+    ...(part.type === 'document' && !part.name ? { name: path.split(/[\\/]/).pop() } : {})
+  };
+}
+
+/**
+ * MIME type from a file's leading bytes, for the formats providers accept
+ */
+export function sniffMimeType(bytes: Uint8Array): string | undefined {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return 'audio/wav';
+  if (ascii(0, 5) === '%PDF-') return 'application/pdf';
+  if (ascii(0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return 'audio/mpeg';
+  if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(0, 4) === 'fLaC') return 'audio/flac';
+  return undefined;
+}
+
+function leadingBytes(data: string): Uint8Array {
+  return Buffer.from(data.slice(0, 24), 'base64');
+}
+
+/**
+ * Decoded size of a part's base64 data
+ */
+export function mediaBytes(part: LLMMediaPart): number {
+  if (!part.data) return 0;
+  const padding = part.data.endsWith('==') ? 2 : part.data.endsWith('=') ? 1 : 0;
+  return Math.floor(part.data.length * 3 / 4) - padding;
+}
+
+/**
+ * Problems with the request's media parts. Run after loadMedia, since
+ * parts still given only as a path have no data or type to check.
+ */
+export function validateMedia(request: LLMRequest, limits: MediaLimits = DEFAULT_MEDIA_LIMITS): string[] {
+  const issues: string[] = [];
+  let total = 0;
+
+  (request.messages || []).forEach((message, index) => {
+    for (const part of mediaParts(message)) {
+      const label = `messages[${index}] ${part.type}`;
+      if (message.role !== 'user') {
+        issues.push(`${label}: media is only accepted in user messages`);
+      }
+      if (!part.data) {
+        issues.push(`${label}: no data or file path`);
+        continue;
+      }
+      if (!/^[A-Za-z0-9+/]*={0,2}$/.test(part.data)) {
+        issues.push(`${label}: data is not base64`);
+        continue;
+      }
+      const sniffed = sniffMimeType(leadingBytes(part.data));
+      if (!part.mimeType) {
+        issues.push(`${label}: unknown MIME type`);
+      } else if (!SUPPORTED_MIME_TYPES[part.type].includes(part.mimeType)) {
+        issues.push(`${label}: unsupported MIME type ${part.mimeType} (expected ${SUPPORTED_MIME_TYPES[part.type].join(', ')})`);
+      } else if (sniffed && sniffed !== part.mimeType) {
+        issues.push(`${label}: declared as ${part.mimeType} but the data is ${sniffed}`);
+      }
+
+      const bytes = mediaBytes(part);
+      const limit = limitFor(part.type, limits);
+      if (bytes > limit) {
+        issues.push(`${label}: ${bytes} bytes exceeds the ${limit} byte limit`);
+      }
+      total += bytes;
+    }
+  });
+
+  if (total > limits.maxTotalBytes) {
+    issues.push(`media totals ${total} bytes, over the ${limits.maxTotalBytes} byte request limit`);
+  }
+  return issues;
+}
+
+function limitFor(kind: MediaKind, limits: MediaLimits): number {
+  if (kind === 'image') return limits.maxImageBytes;
+  if (kind === 'document') return limits.maxDocumentBytes;
+  return limits.maxAudioBytes;
+}
+
+/**
+ * Approximate prompt tokens for one part. Vendors price media very
+ * differently; this only needs to keep context window checks honest.
+ */
+export function mediaTokenEstimate(part: LLMMediaPart): number {
+  const kilobytes = mediaBytes(part) / 1024;
+  if (part.type === 'image') return IMAGE_TOKENS;
+  if (part.type === 'document') {
+    const rate = part.mimeType?.startsWith('text/') ? TEXT_DOCUMENT_TOKENS_PER_KB : DOCUMENT_TOKENS_PER_KB;
+    return Math.ceil(kilobytes * rate);
+  }
+  return Math.ceil(kilobytes * AUDIO_TOKENS_PER_KB);
+}
@@ -0,0 +1,275 @@
+/**
+ * LLM Privacy
+ *
+ * Pre-send filtering for prompts. A pipeline of filters replaces
+ * personal data and secrets with placeholders such as [EMAIL_1] before
+ * a request leaves the process; the vault that issued the placeholders
+ * puts the original values back into the response, including streamed
+ * output and tool call arguments.
+ *
+ * The privacy policy also decides where requests may go: requests
+ * tagged sensitive only reach local providers, and remote providers
+ * must process data in an allowed region.
+ */
+
+import type { LLMProvider, LLMRequest } from './UnifiedLLMOrchestrator';
+import type { LLMContentPart, LLMMessage } from './LLMMessages';
+import type { LLMToolCall } from './LLMTools';
+
+export type PiiKind = 'email' | 'phone' | 'credit-card' | 'national-id' | 'iban' | 'api-key' | 'ip-address';
+
+export interface PromptFilter {
+  readonly name: string;
+  /** Replace matches in `text` with placeholders issued by the vault */
+  redact(text: string, vault: RedactionVault): string;
+}
+
+export interface PrivacyPolicy {
+  redact: 'none' | 'remote' | 'all'; // which providers receive redacted text
+  filters: PromptFilter[]; // applied in order
+  allowedRegions?: string[]; // remote providers must declare one of these regions
+  sensitiveLocalOnly: boolean; // requests tagged sensitive only go to local providers
+}
+
+/**
+ * Raised when no provider may receive a request under the privacy policy
+ */
+export class PrivacyPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrivacyPolicyError';
+  }
+}
+
+const PLACEHOLDER_PATTERN = /\[[A-Z][A-Z_]*_\d+\]/g;
+
+// Longest placeholder a stream may hold back while waiting for its end
+const MAX_PLACEHOLDER_LENGTH = 32;
+
+export const PLACEHOLDER_INSTRUCTIONS =
+  'Values in square brackets such as [EMAIL_1] are placeholders for redacted data. Repeat them exactly where needed and do not try to guess what they stand for.';
+
+/**
+ * Issues placeholders and remembers what they stand for. The same
+ * value always gets the same placeholder, so the model can still tell
+ * repeated mentions apart from different values.
+ */
+export class RedactionVault {
+  private byValue: Map<string, string> = new Map();
+  private byPlaceholder: Map<string, string> = new Map();
+  private counts: Map<PiiKind, number> = new Map();
+
+  placeholder(kind: PiiKind, value: string): string {
+    const existing = this.byValue.get(`${kind}\0${value}`);
+    if (existing) return existing;
+
+    const count = (this.counts.get(kind) || 0) + 1;
+    this.counts.set(kind, count);
+    const placeholder = `[${kind.toUpperCase().replace(/-/g, '_')}_${count}]`;
+    this.byValue.set(`${kind}\0${value}`, placeholder);
+    this.byPlaceholder.set(placeholder, value);
+    return placeholder;
+  }
+
+  get size(): number {
+    return this.byPlaceholder.size;
+  }
+
+  /**
+   * Values redacted so far, per kind
+   */
+  summary(): Partial<Record<PiiKind, number>> {
+    return Object.fromEntries(this.counts);
+  }
+
+  restore(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => this.byPlaceholder.get(placeholder) ?? placeholder);
+  }
+
+  /**
+   * Restorer for streamed text, which holds back a possible placeholder
+   * split across deltas until it is complete
+   */
+  streamRestorer(): { push(delta: string): string; flush(): string } {
+    let pending = '';
+    return {
+      push: (delta: string) => {
+        pending += delta;
+        const open = pending.lastIndexOf('[');
+        const held = open >= 0 && !pending.includes(']', open) && pending.length - open < MAX_PLACEHOLDER_LENGTH;
+        const ready = held ? pending.slice(0, open) : pending;
+        pending = held ? pending.slice(open) : '';
+        return this.restore(ready);
+      },
+      flush: () => {
+        const rest = this.restore(pending);
+        pending = '';
+        return rest;
+      }
+    };
+  }
+}
+
+/**
+ * Filter that redacts every match of a pattern, optionally confirmed
+ * by a validator to cut false positives
+ */
+export class PatternFilter implements PromptFilter {
+  constructor(
+    readonly name: PiiKind,
+    private pattern: RegExp,
+    private validate: (match: string) => boolean = () => true
+  ) {}
+
+  redact(text: string, vault: RedactionVault): string {
+    return text.replace(this.pattern, match => (this.validate(match) ? vault.placeholder(this.name, match) : match));
+  }
+}
+
+/**
+ * Luhn checksum used by payment card numbers
+ */
+export function luhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length >= 13 && sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 mod-97 check used by IBANs
+ */
+export function ibanValid(value: string): boolean {
+  const compact = value.replace(/\s/g, '').toUpperCase();
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return compact.length >= 15 && remainder === 1;
+}
+
+function phoneValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '').length;
+  // Skip dates and times that happen to look like grouped digits
+  return digits >= 7 && digits <= 15 && !/^\d{4}[-./]\d{1,2}[-./]\d{1,2}$/.test(value.trim());
+}
+
+// Secrets go first so their digits are not claimed by the number filters
+export const builtInPromptFilters: PromptFilter[] = [
+  new PatternFilter('api-key',
+    /\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})|\bBearer\s+[A-Za-z0-9._~+/-]{20,}=*/g),
+  new PatternFilter('email', /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g),
+  new PatternFilter('iban', /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,3})?\b/g, ibanValid),
+  new PatternFilter('credit-card', /\b\d(?:[ -]?\d){12,18}\b/g, luhnValid),
+  // US social security and UK national insurance numbers
+  new PatternFilter('national-id', /\b\d{3}-\d{2}-\d{4}\b|\b[A-CEGHJ-PR-TW-Z]{2}\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]\b/g),
+  new PatternFilter('ip-address', /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g),
+  new PatternFilter('phone', /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]\d{2,4}){1,4}\b/g, phoneValid)
+];
+
+export const DEFAULT_PRIVACY_POLICY: PrivacyPolicy = {
+  redact: 'none',
+  filters: builtInPromptFilters,
+  sensitiveLocalOnly: true
+};
+
+/**
+ * Providers that keep data on this machine or network
+ */
+export function isLocalProvider(provider: Pick<LLMProvider, 'capabilities'>): boolean {
+  return provider.capabilities.includes('local') || provider.capabilities.includes('offline');
+}
+
+function redactText(text: string, filters: PromptFilter[], vault: RedactionVault): string {
+  return filters.reduce((current, filter) => filter.redact(current, vault), text);
+}
+
+/**
+ * Apply `transform` to every string inside a JSON-like value
+ */
+function mapStrings(value: unknown, transform: (text: string) => string): unknown {
+  if (typeof value === 'string') return transform(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, transform));
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, transform)]));
+  }
+  return value;
+}
+
+function mapToolCalls(calls: LLMToolCall[], transform: (text: string) => string): LLMToolCall[] {
+  return calls.map(call => ({ ...call, arguments: mapStrings(call.arguments, transform) as Record<string, unknown> }));
+}
+
+/**
+ * Redact a content part. Text documents count as text: adapters decode
+ * them and send their contents inline, so they are decoded, redacted
+ * and encoded again. Images, audio and binary documents pass through.
+ */
+function redactPart(part: LLMContentPart, redact: (text: string) => string): LLMContentPart {
+  if (part.type === 'text') return { ...part, text: redact(part.text) };
+  if (part.type !== 'document' || !part.data || !part.mimeType?.startsWith('text/')) return part;
+
+  const text = Buffer.from(part.data, 'base64').toString('utf8');
+  const redacted = redact(text);
+  return redacted === text ? part : { ...part, data: Buffer.from(redacted, 'utf8').toString('base64') };
+}
+
+/**
+ * Redact the user-supplied text of a request: system prompt, prompt,
+ * message contents, text documents and tool call arguments. When
+ * anything was redacted the model is told how to treat the placeholders.
+ */
+export function redactRequest(request: LLMRequest, filters: PromptFilter[], vault: RedactionVault): LLMRequest {
+  const redact = (text: string) => redactText(text, filters, vault);
+  const messages = request.messages?.map((message): LLMMessage => ({
+    ...message,
+    content: typeof message.content === 'string'
+      ? redact(message.content)
+      : message.content.map(part => redactPart(part, redact)),
+    ...(message.toolCalls ? { toolCalls: mapToolCalls(message.toolCalls, redact) } : {})
+  }));
+
+  const redacted: LLMRequest = {
+    ...request,
+    ...(request.systemPrompt !== undefined ? { systemPrompt: redact(request.systemPrompt) } : {}),
+    ...(request.prompt !== undefined ? { prompt: redact(request.prompt) } : {}),
+    ...(messages ? { messages } : {})
+  };
+  if (vault.size === 0) return redacted;
+
+  return {
+    ...redacted,
+    systemPrompt: redacted.systemPrompt ? `${redacted.systemPrompt}\n\n${PLACEHOLDER_INSTRUCTIONS}` : PLACEHOLDER_INSTRUCTIONS
+  };
+}
+
+/**
+ * Put redacted values back into a provider's text and tool calls
+ */
+export function restoreResult<T extends { text: string; toolCalls?: LLMToolCall[] }>(result: T, vault: RedactionVault): T {
+  if (vault.size === 0) return result;
+  const restore = (text: string) => vault.restore(text);
+  return {
+    ...result,
+    text: restore(result.text),
+    ...(result.toolCalls ? { toolCalls: mapToolCalls(result.toolCalls, restore) } : {})
+  };
+}
+
+/**
+ * Redact a list of texts, e.g. embedding inputs
+ */
+export function redactTexts(texts: string[], filters: PromptFilter[], vault: RedactionVault): string[] {
+  return texts.map(text => redactText(text, filters, vault));
+}
@@ -0,0 +1,430 @@
+/**
+ * LLM Prompt Templates
+ *
+ * Named, versioned prompt templates with typed variables. A template
+ * has a user prompt, an optional system prompt, a JSON Schema for its
+ * variables, and variants that replace either text for a particular
+ * model, provider or wire format. Requests name a template instead of
+ * carrying prompt text:
+ *
+ *   orchestrator.generate({
+ *     template: { id: 'summarize', variables: { text, maxWords: 50 } }
+ *   });
+ *
+ * The orchestrator renders the variant for the provider the request is
+ * routed to and records the template id, version and variant on the
+ * response.
+ *
+ * Template syntax:
+ *   {{name}} {{name.field}}           variable; lists and objects render as JSON
+ *   {{> partial}}                     registered partial, sharing the variables
+ *   {{#if name}}...{{else}}...{{/if}} truthy test; empty lists are false
+ *   {{#each name}}...{{/each}}        repeat per item, as {{this}} and {{@index}}
+ *
+ * A registered id and version never changes: registering it again
+ * with different content is an error, so a version recorded on a
+ * response always identifies the exact prompt that produced it.
+ */
+
+import type { LLMProvider } from './UnifiedLLMOrchestrator';
+import type { JSONSchema } from './LLMTools';
+import { validateJsonSchema } from './LLMStructuredOutput';
+
+export interface PromptVariant {
+  system?: string;
+  prompt?: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  version: string; // MAJOR.MINOR.PATCH
+  description?: string;
+  system?: string;
+  prompt: string;
+  variables?: JSONSchema; // object schema; its properties are the only variables the text may use
+  variants?: Record<string, PromptVariant>; // keyed by `Provider/model-id`, provider name or wire format
+}
+
+export interface PromptTemplateRef {
+  id: string;
+  version?: string; // defaults to the latest registered version
+  variables?: Record<string, unknown>;
+}
+
+export interface RenderedPrompt {
+  id: string;
+  version: string;
+  variant?: string; // key of the variant used, if any
+  system?: string;
+  prompt: string;
+}
+
+/**
+ * Raised for malformed templates, unknown templates or partials, and
+ * conflicting registrations
+ */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+/**
+ * Raised when the variables passed to a template do not match its schema
+ */
+export class TemplateVariableError extends Error {
+  constructor(public readonly templateId: string, public readonly issues: string[]) {
+    super(`Invalid variables for template "${templateId}": ${issues.join('; ')}`);
+    this.name = 'TemplateVariableError';
+  }
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'var'; path: string }
+  | { type: 'partial'; name: string }
+  | { type: 'if'; path: string; then: TemplateNode[]; else: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+const PATH_PATTERN = /^(@index|this|[A-Za-z_][A-Za-z0-9_]*)(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+/**
+ * Registry of templates and partials
+ */
+export class PromptLibrary {
+  private templates: Map<string, PromptTemplate[]> = new Map(); // by id, oldest version first
+  private partials: Map<string, TemplateNode[]> = new Map();
+  private compiled: Map<string, TemplateNode[]> = new Map(); // parsed text, keyed by the text itself
+
+  constructor(templates: PromptTemplate[] = [], partials: Record<string, string> = {}) {
+    for (const [name, text] of Object.entries(partials)) {
+      this.registerPartial(name, text);
+    }
+    templates.forEach(template => this.register(template));
+  }
+
+  /**
+   * Add a template version. Re-registering an identical version is a
+   * no-op; changing a registered version is refused.
+   */
+  register(template: PromptTemplate): void {
+    const issues = this.validateTemplate(template);
+    if (issues.length > 0) {
+      throw new TemplateError(`Invalid template "${template.id}@${template.version}": ${issues.join('; ')}`);
+    }
+
+    const versions = this.templates.get(template.id) ?? [];
+    const existing = versions.find(candidate => candidate.version === template.version);
+    if (existing) {
+      if (JSON.stringify(existing) !== JSON.stringify(template)) {
+        throw new TemplateError(`Template "${template.id}@${template.version}" is already registered with different content; publish a new version`);
+      }
+      return;
+    }
+
+    versions.push(structuredClone(template));
+    versions.sort((a, b) => compareVersions(a.version, b.version));
+    this.templates.set(template.id, versions);
+  }
+
+  /**
+   * Add or replace a partial. Partials are not versioned; a template
+   * version that must never change should not depend on one that may.
+   */
+  registerPartial(name: string, text: string): void {
+    this.partials.set(name, this.compile(text));
+  }
+
+  has(id: string, version?: string): boolean {
+    const versions = this.templates.get(id) || [];
+    return version === undefined ? versions.length > 0 : versions.some(template => template.version === version);
+  }
+
+  /**
+   * A template by id, at the given or the latest version
+   */
+  get(id: string, version?: string): PromptTemplate {
+    const versions = this.templates.get(id);
+    if (!versions || versions.length === 0) {
+      throw new TemplateError(`Unknown prompt template "${id}"`);
+    }
+    const template = version === undefined
+      ? versions[versions.length - 1]
+      : versions.find(candidate => candidate.version === version);
+    if (!template) {
+      throw new TemplateError(`Prompt template "${id}" has no version ${version} (available: ${versions.map(t => t.version).join(', ')})`);
+    }
+    return template;
+  }
+
+  /**
+   * Registered versions of a template, oldest first
+   */
+  versions(id: string): string[] {
+    return (this.templates.get(id) || []).map(template => template.version);
+  }
+
+  ids(): string[] {
+    return [...this.templates.keys()];
+  }
+
+  /**
+   * Render a template for a provider, or its default text without one.
+   * Variables are checked against the template's schema, with schema
+   * defaults filled in first.
+   */
+  render(ref: PromptTemplateRef, provider?: Pick<LLMProvider, 'name' | 'model' | 'format'>): RenderedPrompt {
+    const template = this.get(ref.id, ref.version);
+    const variables = this.resolveVariables(template, ref.variables || {});
+    const variant = provider ? variantFor(template, provider) : undefined;
+    const system = (variant && template.variants![variant].system) ?? template.system;
+    const prompt = (variant && template.variants![variant].prompt) ?? template.prompt;
+
+    return {
+      id: template.id,
+      version: template.version,
+      ...(variant ? { variant } : {}),
+      ...(system !== undefined ? { system: this.renderText(system, variables, template) } : {}),
+      prompt: this.renderText(prompt, variables, template)
+    };
+  }
+
+  private resolveVariables(template: PromptTemplate, given: Record<string, unknown>): Record<string, unknown> {
+    const schema = (template.variables || { type: 'object', properties: {} }) as Record<string, any>;
+    const properties: Record<string, any> = schema.properties || {};
+    const values: Record<string, unknown> = { ...given };
+    for (const [name, property] of Object.entries(properties)) {
+      if (values[name] === undefined && property?.default !== undefined) {
+        values[name] = structuredClone(property.default);
+      }
+    }
+
+    const issues = [
+      ...Object.keys(given).filter(name => !(name in properties)).map(name => `$.${name}: not a variable of this template`),
+      ...validateJsonSchema(values, { type: 'object', ...schema })
+    ];
+    if (issues.length > 0) {
+      throw new TemplateVariableError(template.id, issues);
+    }
+    return values;
+  }
+
+  private renderText(text: string, variables: Record<string, unknown>, template: PromptTemplate): string {
+    const declared = declaredVariables(template);
+    const render = (nodes: TemplateNode[], scope: Scope, partialDepth: number): string => nodes.map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.text;
+        case 'var':
+          return formatValue(lookup(node.path, scope));
+        case 'partial': {
+          const partial = this.partials.get(node.name);
+          if (!partial) throw new TemplateError(`Template "${template.id}" uses unknown partial "${node.name}"`);
+          if (partialDepth >= 8) throw new TemplateError(`Partial "${node.name}" nests too deeply`);
+          const undeclared = [...referencedVariables(partial)].filter(name => !declared.has(name));
+          if (undeclared.length > 0) {
+            throw new TemplateError(`Partial "${node.name}" uses ${undeclared.join(', ')}, not declared by template "${template.id}"`);
+          }
+          return render(partial, scope, partialDepth + 1);
+        }
+        case 'if':
+          return render(isTruthy(lookup(node.path, scope)) ? node.then : node.else, scope, partialDepth);
+        case 'each': {
+          const items = lookup(node.path, scope);
+          if (!Array.isArray(items)) return '';
+          return items.map((item, index) => render(node.body, { ...scope, item, index }, partialDepth)).join('');
+        }
+      }
+    }).join('');
+
+    return render(this.compile(text), { variables }, 0);
+  }
+
+  private validateTemplate(template: PromptTemplate): string[] {
+    const issues: string[] = [];
+    if (typeof template.id !== 'string' || template.id === '') issues.push('id must be a non-empty string');
+    if (typeof template.version !== 'string' || !VERSION_PATTERN.test(template.version)) {
+      issues.push('version must look like 1.0.0');
+    }
+    if (typeof template.prompt !== 'string') issues.push('prompt must be a string');
+    if (template.variables !== undefined) {
+      const schema = template.variables as Record<string, any>;
+      if (schema.type !== undefined && schema.type !== 'object') issues.push('variables must be an object schema');
+    }
+
+    const declared = declaredVariables(template);
+    const texts: Array<[string, string | undefined]> = [
+      ['system', template.system],
+      ['prompt', template.prompt],
+      ...Object.entries(template.variants || {}).flatMap(([key, variant]): Array<[string, string | undefined]> => [
+        [`variants.${key}.system`, variant.system],
+        [`variants.${key}.prompt`, variant.prompt]
+      ])
+    ];
+    for (const [field, text] of texts) {
+      if (text === undefined) continue;
+      try {
+        const undeclared = [...referencedVariables(this.compile(text))].filter(name => !declared.has(name));
+        if (undeclared.length > 0) issues.push(`${field} uses undeclared variables: ${undeclared.join(', ')}`);
+      } catch (error) {
+        issues.push(`${field}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return issues;
+  }
+
+  private compile(text: string): TemplateNode[] {
+    const cached = this.compiled.get(text);
+    if (cached) return cached;
+    const nodes = parseTemplate(text);
+    this.compiled.set(text, nodes);
+    return nodes;
+  }
+}
+
+interface Scope {
+  variables: Record<string, unknown>;
+  item?: unknown; // current {{#each}} item
+  index?: number;
+}
+
+/**
+ * Parse template text into nodes, checking that blocks are balanced
+ */
+function parseTemplate(text: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last; `target` is where the next node goes
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' | 'each' }>; target: TemplateNode[] }> = [];
+  let target = root;
+  let last = 0;
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    if (match.index! > last) target.push({ type: 'text', text: text.slice(last, match.index) });
+    last = match.index! + match[0].length;
+    const tag = match[1];
+
+    if (tag.startsWith('>')) {
+      target.push({ type: 'partial', name: tag.slice(1).trim() });
+    } else if (tag.startsWith('#if ') || tag.startsWith('#each ')) {
+      const [keyword, path] = tag.slice(1).split(/\s+/, 2);
+      checkPath(path);
+      const node: Extract<TemplateNode, { type: 'if' | 'each' }> = keyword === 'if'
+        ? { type: 'if', path, then: [], else: [] }
+        : { type: 'each', path, body: [] };
+      target.push(node);
+      stack.push({ node, target });
+      target = node.type === 'if' ? node.then : node.body;
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (open?.node.type !== 'if' || target !== open.node.then) throw new TemplateError('{{else}} outside {{#if}}');
+      target = open.node.else;
+    } else if (tag === '/if' || tag === '/each') {
+      const open = stack.pop();
+      if (!open || `/${open.node.type}` !== tag) throw new TemplateError(`Unexpected {{${tag}}}`);
+      target = open.target;
+    } else {
+      checkPath(tag);
+      target.push({ type: 'var', path: tag });
+    }
+  }
+
+  if (stack.length > 0) throw new TemplateError(`Unclosed {{#${stack[stack.length - 1].node.type}}}`);
+  if (last < text.length) target.push({ type: 'text', text: text.slice(last) });
+  return root;
+}
+
+function checkPath(path: string | undefined): void {
+  if (!path || !PATH_PATTERN.test(path)) throw new TemplateError(`Invalid tag {{${path ?? ''}}}`);
+}
+
+/**
+ * Root variable names a template's nodes read, ignoring loop items
+ */
+function referencedVariables(nodes: TemplateNode[]): Set<string> {
+  const names = new Set<string>();
+  const visit = (list: TemplateNode[]) => {
+    for (const node of list) {
+      if (node.type === 'var' || node.type === 'if' || node.type === 'each') {
+        const root = node.path.split('.')[0];
+        if (root !== 'this' && root !== '@index') names.add(root);
+      }
+      if (node.type === 'if') {
+        visit(node.then);
+        visit(node.else);
+      } else if (node.type === 'each') {
+        visit(node.body);
+      }
+    }
+  };
+  visit(nodes);
+  return names;
+}
+
+function declaredVariables(template: PromptTemplate): Set<string> {
+  const properties = (template.variables as Record<string, any> | undefined)?.properties || {};
+  return new Set(Object.keys(properties));
+}
+
+function lookup(path: string, scope: Scope): unknown {
+  const [root, ...rest] = path.split('.');
+  if (root === '@index') return scope.index;
+  let value: unknown = root === 'this' ? scope.item : scope.variables[root];
+  for (const key of rest) {
+    value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * The most specific variant key matching a provider: `Provider/model-id`,
+ * then the provider name, then its wire format
+ */
+function variantFor(template: PromptTemplate, provider: Pick<LLMProvider, 'name' | 'model' | 'format'>): string | undefined {
+  const variants = template.variants || {};
+  return [`${provider.name}/${provider.model}`, provider.name, provider.format].find(key => key in variants);
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+}
+
+// Templates used by this library's own components
+export const BUILTIN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'autonomous.reasoning',
+    version: '1.0.0',
+    description: 'Reasoning steps reported by AutonomousOrchestrator, one per line',
+    prompt: [
+      'Analyzed user message for tone and style',
+      'Retrieved relevant conversation context',
+      'Adapted personality to match user communication style',
+      '{{#if contextCount}}Used {{contextCount}} previous interactions for context{{/if}}'
+    ].join('\n'),
+    variables: {
+      type: 'object',
+      properties: {
+        contextCount: { type: 'integer', minimum: 0, default: 0 }
+      }
+    }
+  }
+];
+
+// Shared library, preloaded with the built-in templates
+export const promptLibrary = new PromptLibrary(BUILTIN_PROMPT_TEMPLATES);
@@ -0,0 +1,1233 @@
+/**
+ * LLM Provider Adapters
+ *
+ * Translates a provider-neutral LLMRequest into the wire format each
+ * vendor expects and parses the vendor response back into text and
+ * token usage. The orchestrator only talks to providers through here.
+ *
+ * Supported wire formats:
+ * - anthropic:   Anthropic Messages API
+ * - openai:      OpenAI-style chat completions (OpenAI, DeepSeek, Mistral,
+ *                Groq, TogetherAI, Perplexity)
+ * - ollama:      Ollama /api/generate
+ * - gemini:      Google generateContent
+ * - cohere:      Cohere chat
+ * - huggingface: HuggingFace inference API
+ * - mock:        scripted in-process provider for tests (LLMMockProvider)
+ *
+ * Anthropic, OpenAI and mock adapters also speak their vendor's
+ * discounted batch API, used by generateBatch for providers with a
+ * `batch` endpoint configured.
+ */
+
+import { randomUUID } from 'crypto';
+import type { LLMProvider, LLMRequest } from './UnifiedLLMOrchestrator';
+import { LLMMediaPart, LLMMessage, MediaKind, contentParts, mediaParts, messageText, renderTranscript, toConversation } from './LLMMessages';
+import { LLMToolCall, LLMToolChoice, LLMToolDefinition, parseToolArguments } from './LLMTools';
+import type { EmbeddingModelConfig, EmbeddingResult } from './LLMEmbeddings';
+
+export type LLMWireFormat = 'anthropic' | 'openai' | 'ollama' | 'gemini' | 'cohere' | 'huggingface' | 'mock';
+
+export interface ProviderHttpRequest {
+  url: string;
+  method: 'POST' | 'GET';
+  headers: Record<string, string>;
+  body: string; // empty for GET
+}
+
+export interface ProviderUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ProviderResult {
+  text: string;
+  usage?: ProviderUsage;
+  toolCalls?: LLMToolCall[];
+}
+
+/**
+ * Incremental piece of a streamed response. Usage fields arrive on
+ * whichever event the vendor reports them in.
+ */
+export interface ProviderStreamDelta {
+  text?: string;
+  usage?: Partial<ProviderUsage>;
+}
+
+export interface ProviderRequestOptions {
+  stream?: boolean;
+}
+
+export interface ProviderAdapter {
+  buildRequest(
+    provider: LLMProvider,
+    request: LLMRequest,
+    credential?: string,
+    options?: ProviderRequestOptions
+  ): ProviderHttpRequest;
+  parseResponse(body: any): ProviderResult;
+  /** Whether the wire format can carry tool definitions and calls */
+  supportsTools?: boolean;
+  /** Whether the wire format has a native JSON output mode */
+  supportsJsonMode?: boolean;
+  /** Media the wire format can carry in user turns; absent if text only */
+  mediaKinds?: MediaKind[];
+  /** Framing used for streamed responses; absent if the adapter cannot stream */
+  streamFraming?: 'sse' | 'ndjson';
+  parseStreamEvent?(event: any): ProviderStreamDelta | null;
+  /** Embedding support; absent if the wire format has no embeddings endpoint */
+  buildEmbeddingRequest?(config: EmbeddingModelConfig, inputs: string[], credential?: string): ProviderHttpRequest;
+  parseEmbeddingResponse?(body: any): EmbeddingResult;
+  /** Discounted asynchronous batch API; absent if the vendor has none */
+  batch?: VendorBatchAdapter;
+}
+
+/**
+ * A vendor's batch endpoint, configured per provider
+ */
+export interface BatchEndpointConfig {
+  endpoint: string; // e.g. https://api.anthropic.com/v1/messages/batches
+  discount: number; // share of list price billed for batched calls, e.g. 0.5
+  maxItems: number; // requests per vendor batch
+}
+
+export interface VendorBatchItem {
+  customId: string;
+  request: LLMRequest;
+}
+
+export interface VendorBatchStatus {
+  id: string;
+  state: 'running' | 'ended' | 'failed';
+  resultsUrl?: string;
+  errorsUrl?: string;
+  error?: string; // why a failed batch failed
+}
+
+export interface VendorBatchItemResult {
+  customId: string;
+  result?: ProviderResult;
+  error?: string;
+}
+
+/**
+ * Sends one HTTP call and returns the raw response body
+ */
+export type HttpSender = (request: ProviderHttpRequest) => Promise<string>;
+
+/**
+ * Vendor batch APIs take several calls per step (OpenAI uploads a file
+ * before creating the batch), so each step gets a sender rather than
+ * returning a single request to send
+ */
+export interface VendorBatchAdapter {
+  submit(provider: LLMProvider, items: VendorBatchItem[], credential: string | undefined, send: HttpSender): Promise<VendorBatchStatus>;
+  status(provider: LLMProvider, batchId: string, credential: string | undefined, send: HttpSender): Promise<VendorBatchStatus>;
+  results(provider: LLMProvider, status: VendorBatchStatus, credential: string | undefined, send: HttpSender): Promise<VendorBatchItemResult[]>;
+}
+
+export type FetchLike = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: string; signal?: AbortSignal }
+) => Promise<{
+  ok: boolean;
+  status: number;
+  text(): Promise<string>;
+  headers?: { get(name: string): string | null };
+  body?: AsyncIterable<Uint8Array> | null;
+}>;
+
+/**
+ * Error raised when a provider answers with a non-2xx status
+ */
+export class ProviderHttpError extends Error {
+  constructor(
+    public readonly provider: string,
+    public readonly status: number,
+    public readonly responseBody: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(`${provider} responded with HTTP ${status}`);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+const JSON_HEADERS = { 'content-type': 'application/json' };
+
+function getRequest(url: string, headers: Record<string, string>): ProviderHttpRequest {
+  return { url, method: 'GET', headers, body: '' };
+}
+
+function jsonLines(raw: string): any[] {
+  return raw.split('\n').filter(line => line.trim() !== '').map(line => JSON.parse(line));
+}
+
+function bearer(credential?: string): Record<string, string> {
+  return credential ? { authorization: `Bearer ${credential}` } : {};
+}
+
+function resolveParams(provider: LLMProvider, request: LLMRequest): { maxTokens: number; temperature: number } {
+  return {
+    maxTokens: request.maxTokens ?? provider.maxTokens,
+    temperature: request.temperature ?? provider.temperature
+  };
+}
+
+function anthropicMessages(turns: LLMMessage[]): Array<{ role: string; content: unknown }> {
+  const messages: Array<{ role: string; content: any }> = [];
+
+  for (const turn of turns) {
+    if (turn.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: turn.toolCallId, content: messageText(turn) };
+      const previous = messages[messages.length - 1];
+      // Results of parallel calls must share a single user message
+      if (previous?.role === 'user' && Array.isArray(previous.content) && previous.content[0]?.type === 'tool_result') {
+        previous.content.push(block);
+      } else {
+        messages.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+
+    if (turn.toolCalls && turn.toolCalls.length > 0) {
+      const text = messageText(turn);
+      messages.push({
+        role: turn.role,
+        content: [
+          ...(text ? [{ type: 'text', text }] : []),
+          ...turn.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+        ]
+      });
+      continue;
+    }
+
+    messages.push({
+      role: turn.role,
+      content: typeof turn.content === 'string'
+        ? turn.content
+        : contentParts(turn).map(part => (part.type === 'text' ? { type: 'text', text: part.text } : anthropicMediaBlock(part)))
+    });
+  }
+
+  return messages;
+}
+
+function anthropicMediaBlock(part: LLMMediaPart): Record<string, unknown> {
+  const mediaType = part.mimeType || 'application/octet-stream';
+  if (part.type === 'image') {
+    return { type: 'image', source: { type: 'base64', media_type: mediaType, data: part.data } };
+  }
+  // Plain-text documents are sent as text sources; Anthropic takes only PDFs as base64
+  const source = mediaType.startsWith('text/')
+    ? { type: 'text', media_type: 'text/plain', data: decodeText(part) }
+    : { type: 'base64', media_type: mediaType, data: part.data };
+  return { type: 'document', source, ...(part.type === 'document' && part.name ? { title: part.name } : {}) };
+}
+
+function decodeText(part: LLMMediaPart): string {
+  return Buffer.from(part.data || '', 'base64').toString('utf8');
+}
+
+function anthropicTools(tools: LLMToolDefinition[] | undefined, choice: LLMToolChoice | undefined): Record<string, unknown> {
+  if (!tools || tools.length === 0) return {};
+
+  const toolChoice = choice === undefined || choice === 'auto'
+    ? { type: 'auto' }
+    : choice === 'none'
+      ? { type: 'none' }
+      : choice === 'required'
+        ? { type: 'any' }
+        : { type: 'tool', name: choice.name };
+
+  return {
+    tools: tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+    tool_choice: toolChoice
+  };
+}
+
+/**
+ * Message Batches API: the batch carries each request's Messages body
+ * as `params`, and results come back as JSON lines
+ */
+const anthropicBatch: VendorBatchAdapter = {
+  async submit(provider, items, credential, send) {
+    const requests = items.map(item => ({
+      custom_id: item.customId,
+      params: JSON.parse(anthropicAdapter.buildRequest(provider, item.request, credential).body)
+    }));
+    const body = await send({
+      url: provider.batch!.endpoint,
+      method: 'POST',
+      headers: anthropicHeaders(credential),
+      body: JSON.stringify({ requests })
+    });
+    return anthropicBatchStatus(JSON.parse(body));
+  },
+  async status(provider, batchId, credential, send) {
+    const body = await send(getRequest(`${provider.batch!.endpoint}/${batchId}`, anthropicHeaders(credential)));
+    return anthropicBatchStatus(JSON.parse(body));
+  },
+  async results(provider, status, credential, send) {
+    if (!status.resultsUrl) return [];
+    return jsonLines(await send(getRequest(status.resultsUrl, anthropicHeaders(credential)))).map(line => {
+      const result = line.result ?? {};
+      return result.type === 'succeeded'
+        ? { customId: line.custom_id, result: anthropicAdapter.parseResponse(result.message) }
+        : { customId: line.custom_id, error: result.error?.error?.message ?? result.error?.message ?? `Request ${result.type ?? 'failed'}` };
+    });
+  }
+};
+
+function anthropicHeaders(credential?: string): Record<string, string> {
+  return {
+    ...JSON_HEADERS,
+    'anthropic-version': '2023-06-01',
+    ...(credential ? { 'x-api-key': credential } : {})
+  };
+}
+
+function anthropicBatchStatus(body: any): VendorBatchStatus {
+  return {
+    id: body?.id,
+    state: body?.processing_status === 'ended' ? 'ended' : 'running',
+    ...(body?.results_url ? { resultsUrl: body.results_url } : {})
+  };
+}
+
+const anthropicAdapter: ProviderAdapter = {
+  supportsTools: true,
+  mediaKinds: ['image', 'document'],
+  streamFraming: 'sse',
+  batch: anthropicBatch,
+  buildRequest(provider, request, credential, options) {
+    const { maxTokens, temperature } = resolveParams(provider, request);
+    const { system, turns } = toConversation(request);
+    const messages = anthropicMessages(turns);
+
+    return {
+      url: provider.endpoint,
+      method: 'POST',
+      headers: anthropicHeaders(credential),
+      body: JSON.stringify({
+        model: provider.model,
+        max_tokens: maxTokens,
+        temperature,
+        ...(system ? { system } : {}),
+        messages,
+        ...anthropicTools(request.tools, request.toolChoice),
+        ...(options?.stream ? { stream: true } : {})
+      })
+    };
+  },
+  parseResponse(body) {
+    const blocks: any[] = Array.isArray(body?.content) ? body.content : [];
+    const toolCalls = blocks
+      .filter(b => b.type === 'tool_use')
+      .map(b => ({ id: b.id, name: b.name, arguments: parseToolArguments(b.input) }));
+
+    return {
+      text: blocks.filter(b => b.type === 'text').map(b => b.text).join(''),
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      usage: body?.usage
+        ? { promptTokens: body.usage.input_tokens ?? 0, completionTokens: body.usage.output_tokens ?? 0 }
+        : undefined
+    };
+  },
+  parseStreamEvent(event) {
+    switch (event?.type) {
+      case 'message_start':
+        return { usage: { promptTokens: event.message?.usage?.input_tokens } };
+      case 'content_block_delta':
+        return event.delta?.type === 'text_delta' ? { text: event.delta.text } : null;
+      case 'message_delta':
+        return { usage: { completionTokens: event.usage?.output_tokens } };
+      case 'error':
+        throw new Error(event.error?.message || 'Anthropic stream error');
+      default:
+        return null;
+    }
+  }
+};
+
+function openAITools(tools: LLMToolDefinition[] | undefined, choice: LLMToolChoice | undefined): Record<string, unknown> {
+  if (!tools || tools.length === 0) return {};
+
+  return {
+    tools: tools.map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+    })),
+    tool_choice: typeof choice === 'object'
+      ? { type: 'function', function: { name: choice.name } }
+      : choice ?? 'auto'
+  };
+}
+
+function openAIMediaPart(part: LLMMediaPart): Record<string, unknown> {
+  const mediaType = part.mimeType || 'application/octet-stream';
+  if (part.type === 'image') {
+    return { type: 'image_url', image_url: { url: `data:${mediaType};base64,${part.data}` } };
+  }
+  if (part.type === 'audio') {
+    return { type: 'input_audio', input_audio: { data: part.data, format: mediaType === 'audio/mpeg' ? 'mp3' : mediaType.split('/')[1] } };
+  }
+  // File inputs take PDFs; text documents go inline
+  if (mediaType.startsWith('text/')) {
+    return { type: 'text', text: part.name ? `${part.name}:\n${decodeText(part)}` : decodeText(part) };
+  }
+  return {
+    type: 'file',
+    file: { filename: part.name || 'document.pdf', file_data: `data:${mediaType};base64,${part.data}` }
+  };
+}
+
+/**
+ * Batch API: requests are uploaded as a JSONL file, the batch is
+ * created from the file id, and results and per-request errors are
+ * downloaded as separate files once it completes
+ */
+const openAIBatch: VendorBatchAdapter = {
+  async submit(provider, items, credential, send) {
+    const path = new URL(provider.endpoint).pathname;
+    const lines = items.map(item => JSON.stringify({
+      custom_id: item.customId,
+      method: 'POST',
+      url: path,
+      body: JSON.parse(openAIAdapter.buildRequest(provider, item.request, credential).body)
+    }));
+
+    const boundary = `llm-batch-${randomUUID()}`;
+    const form = [
+      `--${boundary}\r\ncontent-disposition: form-data; name="purpose"\r\n\r\nbatch\r\n`,
+      `--${boundary}\r\ncontent-disposition: form-data; name="file"; filename="batch.jsonl"\r\n`,
+      `content-type: application/jsonl\r\n\r\n${lines.join('\n')}\r\n`,
+      `--${boundary}--\r\n`
+    ].join('');
+    const file = JSON.parse(await send({
+      url: openAIFilesUrl(provider),
+      method: 'POST',
+      headers: { 'content-type': `multipart/form-data; boundary=${boundary}`, ...bearer(credential) },
+      body: form
+    }));
+
+    const body = await send({
+      url: provider.batch!.endpoint,
+      method: 'POST',
+      headers: { ...JSON_HEADERS, ...bearer(credential) },
+      body: JSON.stringify({ input_file_id: file.id, endpoint: path, completion_window: '24h' })
+    });
+    return openAIBatchStatus(provider, JSON.parse(body));
+  },
+  async status(provider, batchId, credential, send) {
+    const body = await send(getRequest(`${provider.batch!.endpoint}/${batchId}`, bearer(credential)));
+    return openAIBatchStatus(provider, JSON.parse(body));
+  },
+  async results(provider, status, credential, send) {
+    const urls = [status.resultsUrl, status.errorsUrl].filter((url): url is string => Boolean(url));
+    const lines = (await Promise.all(urls.map(url => send(getRequest(url, bearer(credential)))))).flatMap(jsonLines);
+    return lines.map(line => line.response?.status_code === 200
+      ? { customId: line.custom_id, result: openAIAdapter.parseResponse(line.response.body) }
+      : {
+        customId: line.custom_id,
+        error: line.response?.body?.error?.message ?? line.error?.message ?? `HTTP ${line.response?.status_code ?? 'error'}`
+      });
+  }
+};
+
+// Files live next to batches: .../v1/batches -> .../v1/files
+function openAIFilesUrl(provider: LLMProvider): string {
+  return provider.batch!.endpoint.replace(/\/batches\/?$/, '/files');
+}
+
+function openAIBatchStatus(provider: LLMProvider, body: any): VendorBatchStatus {
+  const files = openAIFilesUrl(provider);
+  // Expired and cancelled batches still deliver the requests that finished
+  const state = body?.status === 'failed'
+    ? 'failed'
+    : ['completed', 'expired', 'cancelled'].includes(body?.status) ? 'ended' : 'running';
+  return {
+    id: body?.id,
+    state,
+    ...(body?.output_file_id ? { resultsUrl: `${files}/${body.output_file_id}/content` } : {}),
+    ...(body?.error_file_id ? { errorsUrl: `${files}/${body.error_file_id}/content` } : {}),
+    ...(state === 'failed' ? { error: body?.errors?.data?.[0]?.message ?? 'Batch failed' } : {})
+  };
+}
+
+const openAIAdapter: ProviderAdapter = {
+  supportsTools: true,
+  supportsJsonMode: true,
+  mediaKinds: ['image', 'document', 'audio'],
+  batch: openAIBatch,
+  streamFraming: 'sse',
+  buildRequest(provider, request, credential, options) {
+    const { maxTokens, temperature } = resolveParams(provider, request);
+    const { system, turns } = toConversation(request);
+    const messages: Array<Record<string, unknown>> = [];
+    if (system) {
+      messages.push({ role: 'system', content: system });
+    }
+    for (const turn of turns) {
+      if (turn.role === 'tool') {
+        messages.push({ role: 'tool', tool_call_id: turn.toolCallId, content: messageText(turn) });
+        continue;
+      }
+      if (turn.toolCalls && turn.toolCalls.length > 0) {
+        messages.push({
+          role: 'assistant',
+          content: messageText(turn) || null,
+          tool_calls: turn.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }))
+        });
+        continue;
+      }
+      messages.push({
+        role: turn.role,
+        content: typeof turn.content === 'string'
+          ? turn.content
+          : contentParts(turn).map(part => (part.type === 'text' ? { type: 'text', text: part.text } : openAIMediaPart(part))),
+        ...(turn.name ? { name: turn.name } : {})
+      });
+    }
+
+    return {
+      url: provider.endpoint,
+      method: 'POST',
+      headers: { ...JSON_HEADERS, ...bearer(credential) },
+      body: JSON.stringify({
+        model: provider.model,
+        messages,
+        max_tokens: maxTokens,
+        temperature,
+        ...openAITools(request.tools, request.toolChoice),
+        // json_object is the mode every OpenAI-compatible vendor accepts; the schema travels in the prompt
+        ...(request.responseFormat ? { response_format: { type: 'json_object' } } : {}),
+        ...(options?.stream ? { stream: true, stream_options: { include_usage: true } } : {})
+      })
+    };
+  },
+  parseResponse(body) {
+    const message = body?.choices?.[0]?.message;
+    const toolCalls: LLMToolCall[] = (message?.tool_calls ?? []).map((call: any) => ({
+      id: call.id,
+      name: call.function?.name,
+      arguments: parseToolArguments(call.function?.arguments)
+    }));
+
+    return {
+      text: message?.content ?? '',
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      usage: body?.usage
+        ? { promptTokens: body.usage.prompt_tokens ?? 0, completionTokens: body.usage.completion_tokens ?? 0 }
+        : undefined
+    };
+  },
+  parseStreamEvent(event) {
+    const text = event?.choices?.[0]?.delta?.content;
+    const usage = event?.usage
+      ? { promptTokens: event.usage.prompt_tokens, completionTokens: event.usage.completion_tokens }
+      : undefined;
+    return text || usage ? { text: text || undefined, usage } : null;
+  },
+  buildEmbeddingRequest(config, inputs, credential) {
+    return {
+      url: config.endpoint,
+      method: 'POST',
+      headers: { ...JSON_HEADERS, ...bearer(credential) },
+      body: JSON.stringify({ model: config.model, input: inputs })
+    };
+  },
+  parseEmbeddingResponse(body) {
+    const data: any[] = Array.isArray(body?.data) ? [...body.data] : [];
+    data.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    return {
+      vectors: data.map(item => item.embedding),
+      promptTokens: body?.usage?.prompt_tokens
+    };
+  }
+};
+
+// Images for multimodal models ride alongside the prompt as bare base64
+function ollamaImages(turns: LLMMessage[]): { images?: string[] } {
+  const images = turns.flatMap(turn => mediaParts(turn))
+    .filter(part => part.type === 'image')
+    .map(part => part.data || '');
+  return images.length > 0 ? { images } : {};
+}
+
+const ollamaAdapter: ProviderAdapter = {
+  supportsJsonMode: true,
+  mediaKinds: ['image'],
+  streamFraming: 'ndjson',
+  buildRequest(provider, request, credential, options) {
+    const { maxTokens, temperature } = resolveParams(provider, request);
+    const { system, turns } = toConversation(request);
+    return {
+      url: provider.endpoint,
+      method: 'POST',
+      headers: { ...JSON_HEADERS, ...bearer(credential) },
+      body: JSON.stringify({
+        model: provider.model,
+        // /api/generate takes one prompt, so history is flattened into a transcript
+        prompt: renderTranscript(turns),
+        ...(system ? { system } : {}),
+        ...ollamaImages(turns),
+        ...(request.responseFormat ? { format: request.responseFormat.schema ?? 'json' } : {}),
+        stream: options?.stream === true,
+        options: { temperature, num_predict: maxTokens }
+      })
+    };
+  },
+  parseResponse(body) {
+    const hasUsage = typeof body?.prompt_eval_count === 'number' || typeof body?.eval_count === 'number';
+    return {
+      text: body?.response ?? '',
+      usage: hasUsage
+        ? { promptTokens: body.prompt_eval_count ?? 0, completionTokens: body.eval_count ?? 0 }
+        : undefined
+    };
+  },
+  parseStreamEvent(event) {
+    if (event?.error) {
+      throw new Error(`Ollama stream error: ${event.error}`);
+    }
+    const usage = event?.done
+      ? { promptTokens: event.prompt_eval_count, completionTokens: event.eval_count }
+      : undefined;
+    return event?.response || usage ? { text: event.response || undefined, usage } : null;
+  },
+  buildEmbeddingRequest(config, inputs, credential) {
+    return {
+      url: config.endpoint,
+      method: 'POST',
+      headers: { ...JSON_HEADERS, ...bearer(credential) },
+      body: JSON.stringify({ model: config.model, input: inputs })
+    };
+  },
+  parseEmbeddingResponse(body) {
+    return {
+      vectors: body?.embeddings ?? [],
+      promptTokens: body?.prompt_eval_count
+    };
+  }
+};
+
+function geminiContents(turns: LLMMessage[]): Array<{ role: string; parts: any[] }> {
+  const contents: Array<{ role: string; parts: any[] }> = [];
+
+  for (const turn of turns) {
+    if (turn.role === 'tool') {
+      let response: unknown = messageText(turn);
+      try {
+        response = JSON.parse(response as string);
+      } catch {
+        // Plain-text results are wrapped as-is
+      }
+      const part = { functionResponse: { name: turn.name, response: { content: response } } };
+      const previous = contents[contents.length - 1];
+      if (previous?.role === 'user' && previous.parts[0]?.functionResponse) {
+        previous.parts.push(part);
+      } else {
+        contents.push({ role: 'user', parts: [part] });
+      }
+      continue;
+    }
+
+    const parts: any[] = contentParts(turn)
+      .filter(part => part.type !== 'text' || part.text)
+      .map(part => (part.type === 'text'
+        ? { text: part.text }
+        : { inlineData: { mimeType: part.mimeType || 'application/octet-stream', data: part.data } }));
+    for (const call of turn.toolCalls || []) {
+      parts.push({ functionCall: { name: call.name, args: call.arguments } });
+    }
+    contents.push({ role: turn.role === 'assistant' ? 'model' : 'user', parts });
+  }
+
+  return contents;
+}
+
+function geminiTools(tools: LLMToolDefinition[] | undefined, choice: LLMToolChoice | undefined): Record<string, unknown> {
+  if (!tools || tools.length === 0) return {};
+
+  const mode = choice === 'none' ? 'NONE' : choice === undefined || choice === 'auto' ? 'AUTO' : 'ANY';
+  return {
+    tools: [{
+      functionDeclarations: tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters
+      }))
+    }],
+    toolConfig: {
+      functionCallingConfig: {
+        mode,
+        ...(typeof choice === 'object' ? { allowedFunctionNames: [choice.name] } : {})
+      }
+    }
+  };
+}
+
+const geminiAdapter: ProviderAdapter = {
+  supportsTools: true,
+  supportsJsonMode: true,
+  mediaKinds: ['image', 'document', 'audio'],
+  buildRequest(provider, request, credential) {
+    const { maxTokens, temperature } = resolveParams(provider, request);
+    const { system, turns } = toConversation(request);
+    const contents = geminiContents(turns);
+
+    return {
+      url: `${provider.endpoint}/${provider.model}:generateContent`,
+      method: 'POST',
+      headers: { ...JSON_HEADERS, ...(credential ? { 'x-goog-api-key': credential } : {}) },
+      body: JSON.stringify({
+        contents,
+        ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+        ...geminiTools(request.tools, request.toolChoice),
+        generationConfig: {
+          temperature,
+          maxOutputTokens: maxTokens,
+          ...(request.responseFormat ? { responseMimeType: 'application/json' } : {})
+        }
+      })
+    };
+  },
+  parseResponse(body) {
+    const parts: any[] = body?.candidates?.[0]?.content?.parts ?? [];
+    const meta = body?.usageMetadata;
+    // Gemini does not assign call ids, so they are derived from position
+    const toolCalls = parts
+      .filter(p => p.functionCall)
+      .map((p, index) => ({ id: `call_${index}`, name: p.functionCall.name, arguments: parseToolArguments(p.functionCall.args) }));
+
+    return {
+      text: parts.map(p => p.text ?? '').join(''),
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      usage: meta
+        ? { promptTokens: meta.promptTokenCount ?? 0, completionTokens: meta.candidatesTokenCount ?? 0 }
+        : undefined
+    };
+  }
+};
+
+function cohereTools(tools: LLMToolDefinition[] | undefined): Record<string, unknown> {
+  if (!tools || tools.length === 0) return {};
+
+  // Cohere describes parameters as a flat map rather than a JSON Schema object
+  return {
+    tools: tools.map(tool => {
+      const properties = (tool.parameters.properties ?? {}) as Record<string, { type?: string; description?: string }>;
+      const required = (tool.parameters.required ?? []) as string[];
+      return {
+        name: tool.name,
+        description: tool.description ?? '',
+        parameter_definitions: Object.fromEntries(
+          Object.entries(properties).map(([name, schema]) => [
+            name,
+            { type: schema.type ?? 'string', description: schema.description, required: required.includes(name) }
+          ])
+        )
+      };
+    })
+  };
+}
+
+const cohereAdapter: ProviderAdapter = {
+  supportsTools: true,
+  supportsJsonMode: true,
+  buildRequest(provider, request, credential) {
+    const { maxTokens, temperature } = resolveParams(provider, request);
+    const { system, turns } = toConversation(request);
+
+    // Trailing tool turns answer the previous assistant turn's calls
+    let end = turns.length;
+    while (end > 0 && turns[end - 1].role === 'tool') end--;
+    const toolTurns = turns.slice(end);
+    const callTurn = toolTurns.length > 0 ? turns[end - 1] : undefined;
+    const toolResults = toolTurns.map(turn => {
+      const call = callTurn?.toolCalls?.find(c => c.id === turn.toolCallId);
+      let output: unknown = messageText(turn);
+      try {
+        output = JSON.parse(output as string);
+      } catch {
+        // Plain-text results are wrapped as-is
+      }
+      return {
+        call: { name: call?.name ?? turn.name, parameters: call?.arguments ?? {} },
+        outputs: [typeof output === 'object' && output !== null ? output : { result: output }]
+      };
+    });
+
+    // Cohere takes the newest user turn as `message` and everything before as history
+    const conversational = turns.slice(0, callTurn ? end - 1 : end).filter(turn => turn.role !== 'tool');
+    const history = conversational.slice(0, -1).map(turn => ({
+      role: turn.role === 'assistant' ? 'CHATBOT' : 'USER',
+      message: messageText(turn)
+    }));
+    const last = conversational[conversational.length - 1];
+
+    return {
+      url: provider.endpoint,
+      method: 'POST',
+      headers: { ...JSON_HEADERS, ...bearer(credential) },
+      body: JSON.stringify({
+        model: provider.model,
+        message: last ? messageText(last) : '',
+        ...(history.length > 0 ? { chat_history: history } : {}),
+        ...(system ? { preamble: system } : {}),
+        ...(request.toolChoice !== 'none' ? cohereTools(request.tools) : {}),
+        ...(toolResults.length > 0 ? { tool_results: toolResults, force_single_step: true } : {}),
+        ...(request.responseFormat
+          ? { response_format: { type: 'json_object', ...(request.responseFormat.schema ? { schema: request.responseFormat.schema } : {}) } }
+          : {}),
+        temperature,
+        max_tokens: maxTokens
+      })
+    };
+  },
+  parseResponse(body) {
+    const units = body?.meta?.billed_units ?? body?.meta?.tokens;
+    const toolCalls: LLMToolCall[] = (body?.tool_calls ?? []).map((call: any, index: number) => ({
+      id: `call_${index}`,
+      name: call.name,
+      arguments: parseToolArguments(call.parameters)
+    }));
+
+    return {
+      text: body?.text ?? '',
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      usage: units
+        ? { promptTokens: units.input_tokens ?? 0, completionTokens: units.output_tokens ?? 0 }
+        : undefined
+    };
+  },
+  buildEmbeddingRequest(config, inputs, credential) {
+    return {
+      url: config.endpoint,
+      method: 'POST',
+      headers: { ...JSON_HEADERS, ...bearer(credential) },
+      body: JSON.stringify({
+        model: config.model,
+        texts: inputs,
+        // v3 embedding models require an input type
+        input_type: 'search_document'
+      })
+    };
+  },
+  parseEmbeddingResponse(body) {
+    return {
+      vectors: body?.embeddings ?? [],
+      promptTokens: body?.meta?.billed_units?.input_tokens
+    };
+  }
+};
+
+const huggingFaceAdapter: ProviderAdapter = {
+  buildRequest(provider, request, credential) {
+    const { maxTokens, temperature } = resolveParams(provider, request);
+    const { system, turns } = toConversation(request);
+    const transcript = renderTranscript(turns);
+    const inputs = system ? `${system}\n\n${transcript}` : transcript;
+
+    return {
+      url: `${provider.endpoint}/${provider.model}`,
+      method: 'POST',
+      headers: { ...JSON_HEADERS, ...bearer(credential) },
+      body: JSON.stringify({
+        inputs,
+        parameters: { max_new_tokens: maxTokens, temperature, return_full_text: false }
+      })
+    };
+  },
+  parseResponse(body) {
+    // Inference API returns either an array of generations or a single object
+    const first = Array.isArray(body) ? body[0] : body;
+    return { text: first?.generated_text ?? '' };
+  }
+};
+
+/**
+ * Batches for mock providers, answered by MockProviderHost with the
+ * same request bodies the mock adapter sends one at a time
+ */
+const mockBatch: VendorBatchAdapter = {
+  async submit(provider, items, credential, send) {
+    const requests = items.map(item => ({
+      custom_id: item.customId,
+      body: JSON.parse(mockAdapter.buildRequest(provider, item.request, credential).body)
+    }));
+    const body = await send({
+      url: provider.batch!.endpoint,
+      method: 'POST',
+      headers: { ...JSON_HEADERS, ...bearer(credential) },
+      body: JSON.stringify({ requests })
+    });
+    return JSON.parse(body);
+  },
+  async status(provider, batchId, credential, send) {
+    return JSON.parse(await send(getRequest(`${provider.batch!.endpoint}/${batchId}`, bearer(credential))));
+  },
+  async results(provider, status, credential, send) {
+    if (!status.resultsUrl) return [];
+    return jsonLines(await send(getRequest(status.resultsUrl, bearer(credential)))).map(line => (line.error
+      ? { customId: line.custom_id, error: line.error.message }
+      : { customId: line.custom_id, result: mockAdapter.parseResponse(line.body) }));
+  }
+};
+
+// Neutral JSON understood by MockProviderHost; mirrors LLMRequest so
+// tests can assert on exactly what a provider was sent
+const mockAdapter: ProviderAdapter = {
+  supportsTools: true,
+  supportsJsonMode: true,
+  mediaKinds: ['image', 'document', 'audio'],
+  batch: mockBatch,
+  streamFraming: 'ndjson',
+  buildRequest(provider, request, credential, options) {
+    const { maxTokens, temperature } = resolveParams(provider, request);
+    const { system, turns } = toConversation(request);
+    return {
+      url: provider.endpoint,
+      method: 'POST',
+      headers: { ...JSON_HEADERS, ...bearer(credential) },
+      body: JSON.stringify({
+        model: provider.model,
+        ...(system ? { system } : {}),
+        messages: turns,
+        ...(request.tools && request.tools.length > 0 ? { tools: request.tools, toolChoice: request.toolChoice } : {}),
+        ...(request.responseFormat ? { responseFormat: request.responseFormat } : {}),
+        maxTokens,
+        temperature,
+        stream: options?.stream === true
+      })
+    };
+  },
+  parseResponse(body) {
+    return {
+      text: body?.text ?? '',
+      usage: body?.usage,
+      ...(Array.isArray(body?.toolCalls) && body.toolCalls.length > 0 ? { toolCalls: body.toolCalls } : {})
+    };
+  },
+  parseStreamEvent(event) {
+    return event?.text || event?.usage ? { text: event.text || undefined, usage: event.usage } : null;
+  },
+  buildEmbeddingRequest(config, inputs, credential) {
+    return {
+      url: config.endpoint,
+      method: 'POST',
+      headers: { ...JSON_HEADERS, ...bearer(credential) },
+      body: JSON.stringify({ model: config.model, input: inputs })
+    };
+  },
+  parseEmbeddingResponse(body) {
+    return { vectors: body?.vectors ?? [], promptTokens: body?.promptTokens };
+  }
+};
+
+export const providerAdapters: Record<LLMWireFormat, ProviderAdapter> = {
+  anthropic: anthropicAdapter,
+  openai: openAIAdapter,
+  ollama: ollamaAdapter,
+  gemini: geminiAdapter,
+  cohere: cohereAdapter,
+  huggingface: huggingFaceAdapter,
+  mock: mockAdapter
+};
+
+/**
+ * Send a request to a provider and parse its response
+ */
+export async function sendProviderRequest(
+  provider: LLMProvider,
+  request: LLMRequest,
+  credential?: string,
+  fetchImpl: FetchLike = fetch as unknown as FetchLike
+): Promise<ProviderResult> {
+  const adapter = providerAdapters[provider.format];
+  if (!adapter) {
+    throw new Error(`No adapter for wire format: ${provider.format}`);
+  }
+
+  const httpRequest = adapter.buildRequest(provider, request, credential);
+  return adapter.parseResponse(await postJson(provider, httpRequest, fetchImpl, request.signal));
+}
+
+/**
+ * Whether a provider has an embedding model its adapter can call
+ */
+export function supportsEmbeddings(provider: LLMProvider): boolean {
+  const adapter = providerAdapters[provider.format];
+  return Boolean(provider.embeddings && adapter?.buildEmbeddingRequest && adapter.parseEmbeddingResponse);
+}
+
+/**
+ * Embed one batch of inputs with a provider's embedding model
+ */
+export async function sendEmbeddingRequest(
+  provider: LLMProvider,
+  inputs: string[],
+  credential?: string,
+  fetchImpl: FetchLike = fetch as unknown as FetchLike,
+  signal?: AbortSignal
+): Promise<EmbeddingResult> {
+  const adapter = providerAdapters[provider.format];
+  if (!provider.embeddings || !adapter?.buildEmbeddingRequest || !adapter.parseEmbeddingResponse) {
+    throw new Error(`${provider.name} does not support embeddings`);
+  }
+
+  const httpRequest = adapter.buildEmbeddingRequest(provider.embeddings, inputs, credential);
+  const result = adapter.parseEmbeddingResponse(await postJson(provider, httpRequest, fetchImpl, signal));
+  if (result.vectors.length !== inputs.length) {
+    throw new Error(`${provider.name} returned ${result.vectors.length} embeddings for ${inputs.length} inputs`);
+  }
+  return result;
+}
+
+/**
+ * Whether a provider has a batch endpoint its adapter can use
+ */
+export function supportsVendorBatch(provider: LLMProvider): boolean {
+  return Boolean(provider.batch && providerAdapters[provider.format]?.batch);
+}
+
+/**
+ * Create a vendor batch from the given requests
+ */
+export function submitVendorBatch(
+  provider: LLMProvider,
+  items: VendorBatchItem[],
+  credential?: string,
+  fetchImpl: FetchLike = fetch as unknown as FetchLike,
+  signal?: AbortSignal
+): Promise<VendorBatchStatus> {
+  return batchAdapter(provider).submit(provider, items, credential, sender(provider, fetchImpl, signal));
+}
+
+/**
+ * Current state of a vendor batch
+ */
+export function getVendorBatchStatus(
+  provider: LLMProvider,
+  batchId: string,
+  credential?: string,
+  fetchImpl: FetchLike = fetch as unknown as FetchLike,
+  signal?: AbortSignal
+): Promise<VendorBatchStatus> {
+  return batchAdapter(provider).status(provider, batchId, credential, sender(provider, fetchImpl, signal));
+}
+
+/**
+ * Per-request results of an ended vendor batch
+ */
+export function getVendorBatchResults(
+  provider: LLMProvider,
+  status: VendorBatchStatus,
+  credential?: string,
+  fetchImpl: FetchLike = fetch as unknown as FetchLike,
+  signal?: AbortSignal
+): Promise<VendorBatchItemResult[]> {
+  return batchAdapter(provider).results(provider, status, credential, sender(provider, fetchImpl, signal));
+}
+
+function batchAdapter(provider: LLMProvider): VendorBatchAdapter {
+  const adapter = providerAdapters[provider.format];
+  if (!provider.batch || !adapter?.batch) {
+    throw new Error(`${provider.name} does not support batch requests`);
+  }
+  return adapter.batch;
+}
+
+function sender(provider: LLMProvider, fetchImpl: FetchLike, signal?: AbortSignal): HttpSender {
+  return httpRequest => sendHttpRequest(provider, httpRequest, fetchImpl, signal);
+}
+
+/**
+ * Send a request and return the parsed JSON body, raising
+ * ProviderHttpError for non-2xx statuses
+ */
+async function postJson(
+  provider: LLMProvider,
+  httpRequest: ProviderHttpRequest,
+  fetchImpl: FetchLike,
+  signal?: AbortSignal
+): Promise<any> {
+  const raw = await sendHttpRequest(provider, httpRequest, fetchImpl, signal);
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error(`${provider.name} returned a non-JSON response`);
+  }
+}
+
+/**
+ * Send a request and return the raw body, raising ProviderHttpError
+ * for non-2xx statuses
+ */
+async function sendHttpRequest(
+  provider: LLMProvider,
+  httpRequest: ProviderHttpRequest,
+  fetchImpl: FetchLike,
+  signal?: AbortSignal
+): Promise<string> {
+  const response = await fetchImpl(httpRequest.url, {
+    method: httpRequest.method,
+    headers: httpRequest.headers,
+    ...(httpRequest.method === 'GET' ? {} : { body: httpRequest.body }),
+    signal
+  });
+  const raw = await response.text();
+
+  if (!response.ok) {
+    throw new ProviderHttpError(
+      provider.name,
+      response.status,
+      raw,
+      parseRetryAfter(response.headers?.get('retry-after'))
+    );
+  }
+  return raw;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Whether a provider's adapter can produce an incremental stream
+ */
+export function supportsStreaming(provider: LLMProvider): boolean {
+  const adapter = providerAdapters[provider.format];
+  return Boolean(adapter?.streamFraming && adapter.parseStreamEvent);
+}
+
+/**
+ * Send a streaming request to a provider and yield deltas as they arrive.
+ * Adapters without stream support yield the full response as one delta.
+ */
+export async function* streamProviderRequest(
+  provider: LLMProvider,
+  request: LLMRequest,
+  credential?: string,
+  fetchImpl: FetchLike = fetch as unknown as FetchLike
+): AsyncGenerator<ProviderStreamDelta> {
+  const adapter = providerAdapters[provider.format];
+  if (!adapter) {
+    throw new Error(`No adapter for wire format: ${provider.format}`);
+  }
+
+  // Tool calls are only parsed from complete responses
+  if (!adapter.streamFraming || !adapter.parseStreamEvent || (request.tools && request.tools.length > 0)) {
+    const result = await sendProviderRequest(provider, request, credential, fetchImpl);
+    yield { text: result.text, usage: result.usage };
+    return;
+  }
+
+  const httpRequest = adapter.buildRequest(provider, request, credential, { stream: true });
+  const response = await fetchImpl(httpRequest.url, {
+    method: httpRequest.method,
+    headers: httpRequest.headers,
+    body: httpRequest.body,
+    signal: request.signal
+  });
+
+  if (!response.ok) {
+    throw new ProviderHttpError(
+      provider.name,
+      response.status,
+      await response.text(),
+      parseRetryAfter(response.headers?.get('retry-after'))
+    );
+  }
+  if (!response.body) {
+    throw new Error(`${provider.name} returned an empty stream`);
+  }
+
+  const payloads = adapter.streamFraming === 'sse'
+    ? readServerSentEvents(response.body)
+    : readLines(response.body);
+
+  for await (const payload of payloads) {
+    if (payload === '[DONE]') break;
+
+    let event: any;
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      continue; // Ignore keep-alives and malformed fragments
+    }
+
+    const delta = adapter.parseStreamEvent(event);
+    if (delta) yield delta;
+  }
+}
+
+/**
+ * Split a byte stream into non-empty lines
+ */
+async function* readLines(body: AsyncIterable<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      if (line.trim()) yield line;
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) yield buffer;
+}
+
+/**
+ * Extract the data payload of each server-sent event
+ */
+async function* readServerSentEvents(body: AsyncIterable<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  const flushLine = function* (line: string): Generator<string> {
+    if (line === '') {
+      if (data.length > 0) yield data.join('\n');
+      data = [];
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+    // Comments, event names and ids carry nothing the adapters need
+  };
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      yield* flushLine(line);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer) yield* flushLine(buffer.replace(/\r$/, ''));
+  yield* flushLine('');
+}
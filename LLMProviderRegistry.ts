@@ -0,0 +1,824 @@
+/**
+ * LLM Provider Registry
+ *
+ * Declarative provider configuration: the built-in provider set,
+ * validation with defaults for optional fields, and loading provider
+ * definitions from JSON or YAML files with ${VAR} environment
+ * substitution.
+ *
+ * Config file shape (YAML shown; JSON takes the same structure):
+ *
+ *   providers:
+ *     - name: LocalMixtral
+ *       endpoint: ${VLLM_URL:-http://localhost:8000/v1/chat/completions}
+ *       format: openai
+ *       model: mixtral-8x7b
+ *       apiKey: ${VLLM_KEY}
+ *       capabilities: [reasoning, coding]
+ *       contextWindow: 32768
+ *       models:
+ *         - id: mistral-7b-instruct
+ *           contextWindow: 8192
+ *           aliases: [fast]
+ *     - name: Flaky                # scripted provider for tests
+ *       endpoint: mock://Flaky
+ *       format: mock
+ *       model: mock-model
+ *       mock:
+ *         replies:
+ *           - error: { status: 503 }
+ *           - text: recovered
+ */
+
+import { readFileSync } from 'fs';
+import type { LLMProvider } from './UnifiedLLMOrchestrator';
+import { providerAdapters } from './LLMProviderAdapters';
+
+/**
+ * Raised when provider configuration fails validation
+ */
+export class ProviderConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid provider configuration: ${issues.slice(0, 5).join('; ')}${issues.length > 5 ? ` (+${issues.length - 5} more)` : ''}`);
+    this.name = 'ProviderConfigError';
+  }
+}
+
+export interface ProviderConfigLoadOptions {
+  env?: Record<string, string | undefined>; // defaults to process.env
+  format?: 'json' | 'yaml'; // defaults to the file extension
+}
+
+// Built-in provider set used when an orchestrator is created without one
+export const DEFAULT_PROVIDER_CONFIGS: LLMProvider[] = [
+  {
+    name: 'Claude',
+    endpoint: 'https://api.anthropic.com/v1/messages',
+    format: 'anthropic',
+    model: 'claude-3-opus-20240229',
+    maxTokens: 4096,
+    temperature: 0.7,
+    priority: 1,
+    capabilities: ['reasoning', 'coding', 'analysis', 'creative', 'long-context', 'function-calling', 'vision', 'documents'],
+    rateLimit: 60,
+    latency: 'medium',
+    cost: 'high',
+    pricing: { inputPerMillion: 15, outputPerMillion: 75 },
+    region: 'us',
+    contextWindow: 200000,
+    batch: { endpoint: 'https://api.anthropic.com/v1/messages/batches', discount: 0.5, maxItems: 10000 },
+    models: [
+      { id: 'claude-3-opus-20240229', aliases: ['smart'] },
+      {
+        id: 'claude-3-sonnet-20240229',
+        latency: 'medium',
+        cost: 'medium',
+        pricing: { inputPerMillion: 3, outputPerMillion: 15 }
+      },
+      {
+        id: 'claude-3-haiku-20240307',
+        latency: 'low',
+        cost: 'low',
+        pricing: { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+        aliases: ['fast']
+      }
+    ]
+  },
+  {
+    name: 'OpenAI',
+    endpoint: 'https://api.openai.com/v1/chat/completions',
+    format: 'openai',
+    model: 'gpt-4-turbo-preview',
+    maxTokens: 4096,
+    temperature: 0.7,
+    priority: 2,
+    capabilities: ['reasoning', 'coding', 'analysis', 'creative', 'function-calling', 'json-mode', 'embeddings'],
+    rateLimit: 60,
+    latency: 'medium',
+    cost: 'high',
+    pricing: { inputPerMillion: 10, outputPerMillion: 30 },
+    region: 'us',
+    contextWindow: 128000,
+    models: [
+      { id: 'gpt-4-turbo-preview', aliases: ['smart'] },
+      {
+        id: 'gpt-4o',
+        capabilities: ['reasoning', 'coding', 'analysis', 'creative', 'function-calling', 'json-mode', 'vision', 'documents'],
+        pricing: { inputPerMillion: 5, outputPerMillion: 15 }
+      },
+      {
+        id: 'gpt-3.5-turbo',
+        contextWindow: 16385,
+        latency: 'low',
+        cost: 'low',
+        pricing: { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+        aliases: ['fast']
+      }
+    ],
+    batch: { endpoint: 'https://api.openai.com/v1/batches', discount: 0.5, maxItems: 50000 },
+    embeddings: {
+      endpoint: 'https://api.openai.com/v1/embeddings',
+      model: 'text-embedding-3-small',
+      maxBatchSize: 2048,
+      inputPerMillion: 0.02
+    }
+  },
+  {
+    name: 'DeepSeek',
+    endpoint: 'https://api.deepseek.com/v1/chat/completions',
+    format: 'openai',
+    model: 'deepseek-chat',
+    maxTokens: 4096,
+    temperature: 0.7,
+    priority: 3,
+    capabilities: ['reasoning', 'coding', 'math', 'analysis', 'function-calling', 'json-mode'],
+    rateLimit: 100,
+    latency: 'medium',
+    cost: 'low',
+    pricing: { inputPerMillion: 0.14, outputPerMillion: 0.28 },
+    region: 'cn',
+    contextWindow: 32768
+  },
+  {
+    name: 'Ollama',
+    endpoint: 'http://localhost:11434/api/generate',
+    format: 'ollama',
+    model: 'llama2',
+    maxTokens: 4096,
+    temperature: 0.7,
+    priority: 4,
+    capabilities: ['reasoning', 'coding', 'local', 'offline', 'json-mode', 'embeddings'],
+    rateLimit: 1000,
+    latency: 'low',
+    cost: 'free',
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 },
+    contextWindow: 4096,
+    models: [
+      { id: 'llama2', aliases: ['local'] }
+    ],
+    requiresCredential: false,
+    timeoutMs: 120000, // local models can be slow to load
+    maxConcurrency: 2, // one local GPU serves every request
+    embeddings: {
+      endpoint: 'http://localhost:11434/api/embed',
+      model: 'nomic-embed-text',
+      maxBatchSize: 64,
+      inputPerMillion: 0
+    }
+  },
+  {
+    name: 'Gemini',
+    endpoint: 'https://generativelanguage.googleapis.com/v1beta/models',
+    format: 'gemini',
+    model: 'gemini-pro',
+    maxTokens: 4096,
+    temperature: 0.7,
+    priority: 5,
+    capabilities: ['reasoning', 'multimodal', 'analysis', 'vision', 'documents', 'audio', 'function-calling', 'json-mode'],
+    rateLimit: 60,
+    latency: 'medium',
+    cost: 'medium',
+    pricing: { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+    region: 'us',
+    contextWindow: 32760
+  },
+  {
+    name: 'Cohere',
+    endpoint: 'https://api.cohere.ai/v1/chat',
+    format: 'cohere',
+    model: 'command',
+    maxTokens: 4096,
+    temperature: 0.7,
+    priority: 6,
+    capabilities: ['reasoning', 'enterprise', 'rag', 'embeddings', 'json-mode'],
+    rateLimit: 100,
+    latency: 'medium',
+    cost: 'medium',
+    pricing: { inputPerMillion: 1, outputPerMillion: 2 },
+    region: 'us',
+    contextWindow: 4096,
+    embeddings: {
+      endpoint: 'https://api.cohere.ai/v1/embed',
+      model: 'embed-english-v3.0',
+      maxBatchSize: 96,
+      inputPerMillion: 0.1
+    }
+  },
+  {
+    name: 'HuggingFace',
+    endpoint: 'https://api-inference.huggingface.co/models',
+    format: 'huggingface',
+    model: 'mistralai/Mixtral-8x7B-Instruct-v0.1',
+    maxTokens: 4096,
+    temperature: 0.7,
+    priority: 7,
+    capabilities: ['reasoning', 'open-source', 'custom-models'],
+    rateLimit: 30,
+    latency: 'high',
+    cost: 'low',
+    pricing: { inputPerMillion: 0.5, outputPerMillion: 0.5 },
+    region: 'us',
+    contextWindow: 32768,
+    timeoutMs: 120000, // cold models are loaded on first request
+    maxConcurrency: 4
+  },
+  {
+    name: 'Mistral',
+    endpoint: 'https://api.mistral.ai/v1/chat/completions',
+    format: 'openai',
+    model: 'mistral-large-latest',
+    maxTokens: 4096,
+    temperature: 0.7,
+    priority: 8,
+    capabilities: ['reasoning', 'coding', 'multilingual', 'european', 'function-calling', 'json-mode'],
+    rateLimit: 60,
+    latency: 'medium',
+    cost: 'medium',
+    pricing: { inputPerMillion: 4, outputPerMillion: 12 },
+    region: 'eu',
+    contextWindow: 32000,
+    models: [
+      {
+        id: 'mistral-small-latest',
+        latency: 'low',
+        cost: 'low',
+        pricing: { inputPerMillion: 2, outputPerMillion: 6 }
+      }
+    ]
+  },
+  {
+    name: 'Perplexity',
+    endpoint: 'https://api.perplexity.ai/chat/completions',
+    format: 'openai',
+    model: 'pplx-7b-online',
+    maxTokens: 4096,
+    temperature: 0.7,
+    priority: 9,
+    capabilities: ['search', 'real-time', 'citations', 'web-access'],
+    rateLimit: 20,
+    latency: 'medium',
+    cost: 'medium',
+    pricing: { inputPerMillion: 0.2, outputPerMillion: 0.2 },
+    region: 'us',
+    contextWindow: 4096
+  },
+  {
+    name: 'Groq',
+    endpoint: 'https://api.groq.com/openai/v1/chat/completions',
+    format: 'openai',
+    model: 'mixtral-8x7b-32768',
+    maxTokens: 4096,
+    temperature: 0.7,
+    priority: 10,
+    capabilities: ['fast-inference', 'reasoning', 'speed-optimized', 'json-mode'],
+    rateLimit: 100,
+    latency: 'low',
+    cost: 'low',
+    pricing: { inputPerMillion: 0.27, outputPerMillion: 0.27 },
+    region: 'us',
+    contextWindow: 32768,
+    models: [
+      { id: 'mixtral-8x7b-32768', aliases: ['fast'] }
+    ]
+  },
+  {
+    name: 'TogetherAI',
+    endpoint: 'https://api.together.xyz/v1/chat/completions',
+    format: 'openai',
+    model: 'togethercomputer/llama-2-70b-chat',
+    maxTokens: 4096,
+    temperature: 0.7,
+    priority: 11,
+    capabilities: ['fine-tuning', 'custom-models', 'reasoning'],
+    rateLimit: 60,
+    latency: 'medium',
+    cost: 'low',
+    pricing: { inputPerMillion: 0.9, outputPerMillion: 0.9 },
+    region: 'us',
+    contextWindow: 4096
+  }
+];
+
+const LATENCY_CLASSES = ['low', 'medium', 'high'];
+const COST_CLASSES = ['free', 'low', 'medium', 'high'];
+
+// Applied to optional fields omitted from a provider definition
+const PROVIDER_DEFAULTS = {
+  maxTokens: 4096,
+  temperature: 0.7,
+  capabilities: [] as string[],
+  rateLimit: 60,
+  latency: 'medium' as const,
+  cost: 'medium' as const,
+  pricing: { inputPerMillion: 0, outputPerMillion: 0 }
+};
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositive(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isNonNegative(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a provider definition, returning readable issues. Only name,
+ * endpoint, format and model are required; other fields are checked
+ * when present.
+ */
+export function validateProviderConfig(config: unknown, path = 'provider'): string[] {
+  if (!isRecord(config)) return [`${path}: must be an object`];
+
+  const issues: string[] = [];
+  const check = (ok: boolean, field: string, message: string) => {
+    if (!ok) issues.push(`${path}.${field}: ${message}`);
+  };
+  const optional = (field: string, ok: (value: any) => boolean, message: string) => {
+    if (config[field] !== undefined) check(ok(config[field]), field, message);
+  };
+
+  check(typeof config.name === 'string' && config.name.trim() !== '', 'name', 'is required');
+  check(isUrl(config.endpoint), 'endpoint', 'must be a valid URL');
+  check(typeof config.format === 'string' && config.format in providerAdapters, 'format',
+    `must be one of ${Object.keys(providerAdapters).join(', ')}`);
+  check(typeof config.model === 'string' && config.model !== '', 'model', 'is required');
+
+  optional('maxTokens', value => Number.isInteger(value) && value > 0, 'must be a positive integer');
+  optional('temperature', value => typeof value === 'number' && value >= 0 && value <= 2, 'must be between 0 and 2');
+  optional('priority', value => typeof value === 'number' && Number.isFinite(value), 'must be a number');
+  optional('capabilities', value => Array.isArray(value) && value.every(cap => typeof cap === 'string'), 'must be a list of strings');
+  optional('rateLimit', value => isPositive(value) || (isRecord(value) && isPositive(value.requestsPerMinute)
+    && (value.tokensPerMinute === undefined || isPositive(value.tokensPerMinute))),
+    'must be a positive number or { requestsPerMinute, tokensPerMinute? }');
+  optional('latency', value => LATENCY_CLASSES.includes(value), `must be one of ${LATENCY_CLASSES.join(', ')}`);
+  optional('cost', value => COST_CLASSES.includes(value), `must be one of ${COST_CLASSES.join(', ')}`);
+  optional('pricing', value => isRecord(value) && isNonNegative(value.inputPerMillion) && isNonNegative(value.outputPerMillion),
+    'must be { inputPerMillion, outputPerMillion } with non-negative numbers');
+  optional('contextWindow', value => Number.isInteger(value) && value > 0, 'must be a positive integer');
+  if (config.models !== undefined) {
+    if (Array.isArray(config.models)) {
+      config.models.forEach((model: unknown, index: number) => issues.push(...validateModelConfig(model, `${path}.models[${index}]`)));
+      const ids = config.models.map((model: unknown) => (isRecord(model) ? model.id : undefined));
+      ids.forEach((id: unknown, index: number) => {
+        if (id !== undefined && ids.indexOf(id) !== index) {
+          issues.push(`${path}.models[${index}].id: duplicate model "${id}"`);
+        }
+      });
+    } else {
+      issues.push(`${path}.models: must be a list`);
+    }
+  }
+  optional('embeddings', value => isRecord(value) && isUrl(value.endpoint) && typeof value.model === 'string'
+    && Number.isInteger(value.maxBatchSize) && value.maxBatchSize > 0 && isNonNegative(value.inputPerMillion),
+    'must be { endpoint, model, maxBatchSize, inputPerMillion }');
+  optional('batch', value => isRecord(value) && isUrl(value.endpoint) && typeof value.discount === 'number'
+    && value.discount > 0 && value.discount <= 1 && Number.isInteger(value.maxItems) && value.maxItems > 0,
+    'must be { endpoint, discount (0-1], maxItems }');
+  optional('timeoutMs', isPositive, 'must be a positive number');
+  optional('maxConcurrency', value => Number.isInteger(value) && value > 0, 'must be a positive integer');
+  optional('region', value => typeof value === 'string' && value !== '', 'must be a non-empty string');
+  optional('requiresCredential', value => typeof value === 'boolean', 'must be true or false');
+  optional('apiKey', value => typeof value === 'string', 'must be a string');
+  if (config.mock !== undefined) {
+    issues.push(...validateMockScript(config.mock, `${path}.mock`));
+  }
+
+  return issues;
+}
+
+/**
+ * Check a mock provider's script; replies may only use the fields a
+ * config file can express
+ */
+export function validateMockScript(script: unknown, path = 'mock'): string[] {
+  if (!isRecord(script)) return [`${path}: must be an object`];
+
+  const issues: string[] = [];
+  const latency = script.latencyMs;
+  if (latency !== undefined && !isNonNegative(latency)
+    && !(isRecord(latency) && isNonNegative(latency.min) && isNonNegative(latency.max) && latency.max >= latency.min)) {
+    issues.push(`${path}.latencyMs: must be a non-negative number or { min, max }`);
+  }
+  if (script.loop !== undefined && typeof script.loop !== 'boolean') {
+    issues.push(`${path}.loop: must be true or false`);
+  }
+  if (script.respond !== undefined && typeof script.respond !== 'function') {
+    issues.push(`${path}.respond: must be a function`);
+  }
+  if (script.replies === undefined) return issues;
+  if (!Array.isArray(script.replies)) return [...issues, `${path}.replies: must be a list`];
+
+  script.replies.forEach((reply: unknown, index: number) => {
+    const at = `${path}.replies[${index}]`;
+    if (!isRecord(reply)) {
+      issues.push(`${at}: must be an object`);
+      return;
+    }
+    if (reply.text !== undefined && typeof reply.text !== 'string') issues.push(`${at}.text: must be a string`);
+    if (reply.chunks !== undefined && !(Array.isArray(reply.chunks) && reply.chunks.every((chunk: unknown) => typeof chunk === 'string'))) {
+      issues.push(`${at}.chunks: must be a list of strings`);
+    }
+    if (reply.latencyMs !== undefined && !isNonNegative(reply.latencyMs)) issues.push(`${at}.latencyMs: must be a non-negative number`);
+    if (reply.error !== undefined && !(isRecord(reply.error)
+      && (reply.error.status === undefined || (Number.isInteger(reply.error.status) && reply.error.status >= 400 && reply.error.status < 600)))) {
+      issues.push(`${at}.error: must be { status?, message?, retryAfterSeconds?, network?, hang? } with a 4xx or 5xx status`);
+    }
+  });
+  return issues;
+}
+
+/**
+ * Check one entry of a provider's models list; only id is required
+ */
+export function validateModelConfig(config: unknown, path = 'model'): string[] {
+  if (!isRecord(config)) return [`${path}: must be an object`];
+
+  const issues: string[] = [];
+  const optional = (field: string, ok: (value: any) => boolean, message: string) => {
+    if (config[field] !== undefined && !ok(config[field])) issues.push(`${path}.${field}: ${message}`);
+  };
+  const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+  if (typeof config.id !== 'string' || config.id === '') issues.push(`${path}.id: is required`);
+  optional('contextWindow', value => Number.isInteger(value) && value > 0, 'must be a positive integer');
+  optional('maxOutputTokens', value => Number.isInteger(value) && value > 0, 'must be a positive integer');
+  optional('capabilities', isStringList, 'must be a list of strings');
+  optional('pricing', value => isRecord(value) && isNonNegative(value.inputPerMillion) && isNonNegative(value.outputPerMillion),
+    'must be { inputPerMillion, outputPerMillion } with non-negative numbers');
+  optional('latency', value => LATENCY_CLASSES.includes(value), `must be one of ${LATENCY_CLASSES.join(', ')}`);
+  optional('cost', value => COST_CLASSES.includes(value), `must be one of ${COST_CLASSES.join(', ')}`);
+  optional('aliases', isStringList, 'must be a list of strings');
+
+  return issues;
+}
+
+/**
+ * Validate a provider definition and fill in defaults for omitted
+ * optional fields. Providers without a priority go after `fallbackPriority`.
+ */
+export function normalizeProviderConfig(config: unknown, fallbackPriority = 100, path?: string): LLMProvider {
+  const issues = validateProviderConfig(config, path);
+  if (issues.length > 0) {
+    throw new ProviderConfigError(issues);
+  }
+
+  const raw = config as Partial<LLMProvider>;
+  return {
+    ...PROVIDER_DEFAULTS,
+    priority: fallbackPriority,
+    ...raw,
+    // Mock providers are answered in-process and need no API key
+    ...(raw.format === 'mock' && raw.requiresCredential === undefined ? { requiresCredential: false } : {}),
+    capabilities: [...(raw.capabilities ?? PROVIDER_DEFAULTS.capabilities)],
+    ...(raw.models ? { models: raw.models.map(model => ({ ...model })) } : {})
+  } as LLMProvider;
+}
+
+// Config fields that hold numbers or booleans, by key; see substituteEnv
+const NUMBER_CONFIG_FIELDS = new Set([
+  'maxTokens', 'temperature', 'priority', 'rateLimit', 'requestsPerMinute', 'tokensPerMinute', 'contextWindow',
+  'inputPerMillion', 'outputPerMillion', 'maxBatchSize', 'discount', 'maxItems', 'timeoutMs', 'maxConcurrency',
+  'latencyMs', 'min', 'max', 'status', 'retryAfterSeconds', 'batchPolls', 'promptTokens', 'completionTokens'
+]);
+const BOOLEAN_CONFIG_FIELDS = new Set(['requiresCredential', 'loop', 'network', 'hang']);
+
+/**
+ * Replace ${VAR} and ${VAR:-default} in every string of a parsed
+ * config. Substituted text stays a string, except that a value which
+ * is exactly one placeholder in a numeric or boolean field is
+ * converted, so `rateLimit: ${RPM}` yields a number; text that does
+ * not convert is reported in `issues`.
+ */
+export function substituteEnv(
+  value: unknown,
+  env: Record<string, string | undefined> = process.env,
+  path = '',
+  issues: string[] = []
+): unknown {
+  if (typeof value === 'string') {
+    const whole = /^\$\{[A-Za-z_][A-Za-z0-9_]*(:-[^}]*)?\}$/.test(value);
+    let missing = false;
+    const replaced = value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_, name: string, fallback?: string) => {
+      const resolved = env[name] ?? fallback;
+      if (resolved === undefined) {
+        issues.push(`${path || 'value'}: environment variable ${name} is not set`);
+        missing = true;
+        return '';
+      }
+      return resolved;
+    });
+    return whole && !missing ? coerceEnvValue(replaced, path, issues) : replaced;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => substituteEnv(item, env, `${path}[${index}]`, issues));
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteEnv(item, env, path ? `${path}.${key}` : key, issues)])
+    );
+  }
+  return value;
+}
+
+/**
+ * A whole-placeholder value converted to the type of the field at `path`
+ */
+function coerceEnvValue(text: string, path: string, issues: string[]): unknown {
+  const field = path.match(/(?:^|\.)([A-Za-z_][A-Za-z0-9_]*)$/)?.[1] ?? '';
+  if (NUMBER_CONFIG_FIELDS.has(field)) {
+    if (/^\s*-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/.test(text)) return Number(text);
+    issues.push(`${path}: environment value is not a number`);
+  } else if (BOOLEAN_CONFIG_FIELDS.has(field)) {
+    if (text === 'true' || text === 'false') return text === 'true';
+    issues.push(`${path}: environment value must be true or false`);
+  }
+  return text;
+}
+
+/**
+ * Parse provider definitions from config file text. Accepts a
+ * `providers` list or a bare list, substitutes environment variables
+ * and validates every entry, reporting all issues at once.
+ */
+export function parseProviderConfig(
+  text: string,
+  format: 'json' | 'yaml',
+  env: Record<string, string | undefined> = process.env
+): LLMProvider[] {
+  let parsed: unknown;
+  try {
+    parsed = format === 'json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new ProviderConfigError([`could not parse ${format}: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  const list = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.providers : undefined;
+  if (!Array.isArray(list)) {
+    throw new ProviderConfigError(['expected a "providers" list']);
+  }
+
+  const issues: string[] = [];
+  const resolved = substituteEnv(list, env, 'providers', issues) as unknown[];
+  resolved.forEach((entry, index) => issues.push(...validateProviderConfig(entry, `providers[${index}]`)));
+
+  const names = resolved.map(entry => (isRecord(entry) ? entry.name : undefined));
+  names.forEach((name, index) => {
+    if (name !== undefined && names.indexOf(name) !== index) {
+      issues.push(`providers[${index}].name: duplicate provider "${name}"`);
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new ProviderConfigError(issues);
+  }
+  return resolved.map((entry, index) => normalizeProviderConfig(entry, 100 + index));
+}
+
+/**
+ * Read and parse a provider config file; .yaml and .yml files are
+ * parsed as YAML, everything else as JSON
+ */
+export function loadProviderConfigFile(filePath: string, options: ProviderConfigLoadOptions = {}): LLMProvider[] {
+  const format = options.format ?? (/\.ya?ml$/i.test(filePath) ? 'yaml' : 'json');
+  return parseProviderConfig(readFileSync(filePath, 'utf8'), format, options.env ?? process.env);
+}
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  lineNumber: number;
+}
+
+/**
+ * Parse the YAML subset used by config files:
+ *
+ *   - block mappings and sequences, indented with spaces
+ *   - flow lists and maps on one line: [a, b], { status: 503 }
+ *   - double-quoted strings with JSON escapes, single-quoted strings
+ *     with '' for a quote
+ *   - plain scalars: null (~, null or nothing), true, false, decimal
+ *     numbers, and otherwise strings
+ *   - comments, from a # at the start of a line or after a space, so
+ *     `a#b` is a value and `a # b` is `a` followed by a comment
+ *
+ * Anything else is rejected with its line number instead of being
+ * read differently from a full YAML parser: anchors, aliases and tags,
+ * more than one document, block scalars (| and >), values continued
+ * on the next line, duplicate keys, plain values containing ": ", and
+ * plain values YAML 1.1 reads as something else, such as yes/no/on/off
+ * or numbers with leading zeros (0123, 0x1f). Quote those.
+ */
+export function parseYaml(text: string): unknown {
+  const lines: YamlLine[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    if (/^\s*\t/.test(raw)) {
+      throw new Error(`line ${index + 1}: tabs are not allowed for indentation`);
+    }
+    const content = stripComment(raw);
+    if (content.trim() === '') return;
+    if (content.trim() === '---' || content.trim() === '...') {
+      // A leading document marker is harmless; anything after it starts another document
+      if (content.trim() === '---' && lines.length === 0) return;
+      throw new Error(`line ${index + 1}: only one document per file is supported`);
+    }
+    lines.push({ indent: content.length - content.trimStart().length, text: content.trim(), lineNumber: index + 1 });
+  });
+
+  if (lines.length === 0) return null;
+
+  let position = 0;
+  const isSequenceItem = (line: YamlLine) => line.text === '-' || line.text.startsWith('- ');
+
+  // A deeper line after an inline value would continue it in YAML
+  const rejectContinuation = (indent: number) => {
+    const next = lines[position];
+    if (next && next.indent > indent) {
+      throw new Error(`line ${next.lineNumber}: values continued on the next line are not supported; keep the value on one line`);
+    }
+  };
+
+  const parseNode = (indent: number): unknown =>
+    isSequenceItem(lines[position]) ? parseSequence(indent) : parseMapping(indent);
+
+  const parseChild = (indent: number, allowSequenceAtSameIndent: boolean): unknown => {
+    const next = lines[position];
+    if (next && (next.indent > indent || (allowSequenceAtSameIndent && next.indent === indent && isSequenceItem(next)))) {
+      return parseNode(next.indent);
+    }
+    return null;
+  };
+
+  const parseSequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    while (position < lines.length && lines[position].indent === indent && isSequenceItem(lines[position])) {
+      const line = lines[position];
+      const rest = line.text.slice(1).trimStart();
+
+      if (rest === '') {
+        position++;
+        items.push(parseChild(indent, false));
+      } else if (splitKey(rest)) {
+        // "- key: value" opens a mapping whose other keys align with "key"
+        const childIndent = indent + line.text.length - rest.length;
+        lines[position] = { ...line, indent: childIndent, text: rest };
+        items.push(parseMapping(childIndent));
+      } else {
+        position++;
+        items.push(parseYamlScalar(rest, line.lineNumber));
+        rejectContinuation(indent);
+      }
+    }
+    return items;
+  };
+
+  const parseMapping = (indent: number): Record<string, unknown> => {
+    const mapping: Record<string, unknown> = {};
+    while (position < lines.length && lines[position].indent === indent && !isSequenceItem(lines[position])) {
+      const line = lines[position];
+      const entry = splitKey(line.text);
+      if (!entry) {
+        throw new Error(`line ${line.lineNumber}: expected "key: value"`);
+      }
+      if (Object.prototype.hasOwnProperty.call(mapping, entry.key)) {
+        throw new Error(`line ${line.lineNumber}: duplicate key "${entry.key}"`);
+      }
+      position++;
+      if (entry.rest === '') {
+        mapping[entry.key] = parseChild(indent, true);
+      } else {
+        mapping[entry.key] = parseYamlScalar(entry.rest, line.lineNumber);
+        rejectContinuation(indent);
+      }
+    }
+
+    const next = lines[position];
+    if (next && next.indent > indent) {
+      throw new Error(`line ${next.lineNumber}: unexpected indentation`);
+    }
+    return mapping;
+  };
+
+  const result = parseNode(lines[0].indent);
+  if (position < lines.length) {
+    throw new Error(`line ${lines[position].lineNumber}: unexpected indentation`);
+  }
+  return result;
+}
+
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i).trimEnd();
+    }
+  }
+  return line;
+}
+
+function splitKey(text: string): { key: string; rest: string } | null {
+  const match = text.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#\[\]{},:-][^:]*?|-[^\s:][^:]*?)\s*:(?:\s+(.*)|$)/);
+  if (!match) return null;
+  const key = match[1];
+  return {
+    key: key.startsWith('"') || key.startsWith("'") ? String(parseYamlScalar(key)) : key,
+    rest: (match[2] ?? '').trim()
+  };
+}
+
+/**
+ * Split a flow collection body on top-level commas
+ */
+function splitFlow(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(body.slice(start));
+  return parts.map(part => part.trim()).filter(part => part !== '');
+}
+
+function parseYamlScalar(text: string, lineNumber?: number): unknown {
+  const value = text.trim();
+  const where = lineNumber !== undefined ? `line ${lineNumber}: ` : '';
+
+  if (value.startsWith('"')) {
+    if (!value.endsWith('"') || value.length < 2) throw new Error(`${where}unterminated string`);
+    return JSON.parse(value);
+  }
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) throw new Error(`${where}unterminated string`);
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.startsWith('[')) {
+    if (!value.endsWith(']')) throw new Error(`${where}unterminated list`);
+    return splitFlow(value.slice(1, -1)).map(item => parseYamlScalar(item, lineNumber));
+  }
+  if (value.startsWith('{')) {
+    if (!value.endsWith('}')) throw new Error(`${where}unterminated map`);
+    const map: Record<string, unknown> = {};
+    for (const item of splitFlow(value.slice(1, -1))) {
+      const entry = splitKey(item);
+      if (!entry) throw new Error(`${where}expected "key: value" in map`);
+      if (Object.prototype.hasOwnProperty.call(map, entry.key)) throw new Error(`${where}duplicate key "${entry.key}"`);
+      map[entry.key] = entry.rest === '' ? null : parseYamlScalar(entry.rest, lineNumber);
+    }
+    return map;
+  }
+  if (/^[|>][+-]?\d?$/.test(value)) {
+    throw new Error(`${where}block scalars are not supported`);
+  }
+  if (/^[&*]/.test(value)) throw new Error(`${where}anchors and aliases are not supported`);
+  if (value.startsWith('!')) throw new Error(`${where}tags are not supported`);
+  if (/^[@`%]/.test(value) || /:(\s|$)/.test(value)) {
+    throw new Error(`${where}quote the value ${value}`);
+  }
+
+  if (value === '' || value === '~' || /^(null|Null|NULL)$/.test(value)) return null;
+  if (/^(true|True|TRUE)$/.test(value)) return true;
+  if (/^(false|False|FALSE)$/.test(value)) return false;
+  if (/^(y|Y|yes|Yes|YES|n|N|no|No|NO|on|On|ON|off|Off|OFF)$/.test(value)) {
+    throw new Error(`${where}quote ${value}, or use true or false`);
+  }
+  if (/^[-+]?0[\dxob_]/.test(value) || /^[-+]?\.(inf|Inf|INF|nan|NaN|NAN)$/.test(value)) {
+    throw new Error(`${where}quote ${value}; YAML parsers disagree on what it means`);
+  }
+  if (/^[-+]?(\d[\d_]*)?\.?\d+([eE][-+]?\d+)?$/.test(value)) return Number(value.replace(/_/g, ''));
+  return value;
+}
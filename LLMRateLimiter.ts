@@ -0,0 +1,207 @@
+/**
+ * LLM Rate Limiter
+ *
+ * Per-provider token buckets for requests per minute and tokens per
+ * minute. Buckets refill continuously, so there is no window edge where
+ * a provider can receive twice its limit. The clock is injectable so
+ * the limiter can be driven deterministically in tests.
+ */
+
+import { raceAbort } from './LLMCancellation';
+
+export interface ProviderRateLimit {
+  requestsPerMinute: number;
+  tokensPerMinute?: number;
+}
+
+export interface RateLimiterClock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+export const systemClock: RateLimiterClock = {
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+export interface RateLimitSnapshot {
+  requestsPerMinute: number;
+  tokensPerMinute: number | null;
+  requestsAvailable: number;
+  tokensAvailable: number | null;
+}
+
+/**
+ * Raised when a caller waited for capacity longer than it allowed
+ */
+export class RateLimitTimeoutError extends Error {
+  constructor(public readonly provider: string, public readonly waitedMs: number) {
+    super(`Timed out after ${waitedMs}ms waiting for ${provider} rate limit capacity`);
+    this.name = 'RateLimitTimeoutError';
+  }
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private readonly refillPerMs: number;
+
+  constructor(
+    public readonly capacity: number,
+    refillPerMinute: number,
+    private clock: RateLimiterClock = systemClock
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = clock.now();
+    this.refillPerMs = refillPerMinute / 60000;
+  }
+
+  available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  /**
+   * Take tokens if available. Requests larger than the bucket are
+   * admitted once it is full rather than blocking forever.
+   */
+  tryTake(amount: number): boolean {
+    const needed = Math.min(amount, this.capacity);
+    if (this.available() < needed) return false;
+    this.tokens -= amount;
+    return true;
+  }
+
+  /**
+   * Take tokens unconditionally, letting the bucket go into debt
+   */
+  forceTake(amount: number): void {
+    this.refill();
+    this.tokens -= amount;
+  }
+
+  /**
+   * Return tokens, e.g. when a reservation turned out too large
+   */
+  give(amount: number): void {
+    this.refill();
+    this.tokens = Math.min(this.capacity, this.tokens + amount);
+  }
+
+  /**
+   * Milliseconds until the given amount could be taken
+   */
+  msUntilAvailable(amount: number): number {
+    const deficit = Math.min(amount, this.capacity) - this.available();
+    return deficit <= 0 ? 0 : Math.ceil(deficit / this.refillPerMs);
+  }
+
+  private refill(): void {
+    const now = this.clock.now();
+    const elapsed = now - this.lastRefill;
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+      this.lastRefill = now;
+    }
+  }
+}
+
+interface ProviderBuckets {
+  limit: ProviderRateLimit;
+  requests: TokenBucket;
+  tokens: TokenBucket | null;
+}
+
+export class ProviderRateLimiter {
+  private buckets: Map<string, ProviderBuckets> = new Map();
+
+  constructor(private clock: RateLimiterClock = systemClock) {}
+
+  configure(provider: string, limit: number | ProviderRateLimit): void {
+    const normalized: ProviderRateLimit = typeof limit === 'number' ? { requestsPerMinute: limit } : limit;
+    this.buckets.set(provider, {
+      limit: normalized,
+      requests: new TokenBucket(normalized.requestsPerMinute, normalized.requestsPerMinute, this.clock),
+      tokens: normalized.tokensPerMinute
+        ? new TokenBucket(normalized.tokensPerMinute, normalized.tokensPerMinute, this.clock)
+        : null
+    });
+  }
+
+  remove(provider: string): void {
+    this.buckets.delete(provider);
+  }
+
+  /**
+   * Whether one request of the given token size fits right now
+   */
+  canAcquire(provider: string, tokens = 0): boolean {
+    return this.msUntilAvailable(provider, tokens) === 0;
+  }
+
+  /**
+   * Consume capacity for one request if it is available right now
+   */
+  tryAcquire(provider: string, tokens = 0): boolean {
+    const buckets = this.buckets.get(provider);
+    if (!buckets) return true;
+    if (!this.canAcquire(provider, tokens)) return false;
+
+    buckets.requests.tryTake(1);
+    buckets.tokens?.tryTake(tokens);
+    return true;
+  }
+
+  /**
+   * Wait until capacity is available, up to timeoutMs or until the signal aborts
+   */
+  async acquire(provider: string, tokens: number, timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    const start = this.clock.now();
+
+    while (!this.tryAcquire(provider, tokens)) {
+      const waited = this.clock.now() - start;
+      const remaining = timeoutMs - waited;
+      const needed = this.msUntilAvailable(provider, tokens);
+      if (needed > remaining) {
+        throw new RateLimitTimeoutError(provider, waited);
+      }
+      await raceAbort(this.clock.sleep(Math.max(1, needed)), signal);
+    }
+  }
+
+  /**
+   * Reconcile a token reservation with what the call actually used
+   */
+  settle(provider: string, reservedTokens: number, actualTokens: number): void {
+    const bucket = this.buckets.get(provider)?.tokens;
+    if (!bucket) return;
+
+    if (actualTokens < reservedTokens) {
+      bucket.give(reservedTokens - actualTokens);
+    } else if (actualTokens > reservedTokens) {
+      bucket.forceTake(actualTokens - reservedTokens);
+    }
+  }
+
+  snapshot(provider: string): RateLimitSnapshot | null {
+    const buckets = this.buckets.get(provider);
+    if (!buckets) return null;
+
+    return {
+      requestsPerMinute: buckets.limit.requestsPerMinute,
+      tokensPerMinute: buckets.limit.tokensPerMinute ?? null,
+      requestsAvailable: Math.floor(buckets.requests.available()),
+      tokensAvailable: buckets.tokens ? Math.floor(buckets.tokens.available()) : null
+    };
+  }
+
+  private msUntilAvailable(provider: string, tokens: number): number {
+    const buckets = this.buckets.get(provider);
+    if (!buckets) return 0;
+
+    return Math.max(
+      buckets.requests.msUntilAvailable(1),
+      buckets.tokens ? buckets.tokens.msUntilAvailable(tokens) : 0
+    );
+  }
+}
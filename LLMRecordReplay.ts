@@ -0,0 +1,164 @@
+/**
+ * LLM Record/Replay
+ *
+ * Captures real provider request/response pairs to a fixture file and
+ * serves them back offline. FixtureTransport wraps fetch and is
+ * installed with orchestrator.setTransport(), or for the shared
+ * instance with the LLM_FIXTURE_FILE and LLM_FIXTURE_MODE variables.
+ *
+ * Requests are matched on URL and body. Headers are neither matched
+ * nor stored, so API keys never end up in fixtures. Repeated identical
+ * requests replay their recorded responses in order, which keeps retry
+ * sequences (a 503, then a success) reproducible.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import type { FetchLike } from './LLMProviderAdapters';
+
+// record: call providers and overwrite the file; replay: never touch the
+// network; auto: replay what was recorded and record the rest
+export type FixtureMode = 'record' | 'replay' | 'auto';
+
+export const FIXTURE_MODES: FixtureMode[] = ['record', 'replay', 'auto'];
+
+export interface FixtureEntry {
+  key: string;
+  request: { url: string; body: unknown };
+  response: {
+    status: number;
+    retryAfter?: string;
+    body: string; // raw text; streamed responses are stored whole
+    stream?: boolean;
+  };
+}
+
+export interface FixtureTransportOptions {
+  file: string;
+  mode?: FixtureMode; // default 'replay'
+  fetch?: FetchLike; // transport used when recording; defaults to global fetch
+}
+
+/**
+ * Raised in replay mode for a request with no recorded response
+ */
+export class FixtureMissError extends Error {
+  constructor(public readonly url: string, public readonly file: string) {
+    super(`No recorded response for ${url} in ${file}`);
+    this.name = 'FixtureMissError';
+  }
+}
+
+type FetchResponse = Awaited<ReturnType<FetchLike>>;
+
+export class FixtureTransport {
+  readonly mode: FixtureMode;
+  private file: string;
+  private inner: FetchLike | undefined;
+  private entries: FixtureEntry[] = [];
+  private served: Map<string, number> = new Map();
+
+  constructor(options: FixtureTransportOptions) {
+    this.file = options.file;
+    this.mode = options.mode ?? 'replay';
+    this.inner = options.fetch;
+    if (this.mode !== 'record') this.load();
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Start every recorded sequence from its first response again
+   */
+  rewind(): void {
+    this.served.clear();
+  }
+
+  readonly fetch: FetchLike = async (url, init) => {
+    const requestBody = init.body ?? '';
+    const key = fixtureKey(url, requestBody);
+    const recorded = this.entries.filter(entry => entry.key === key);
+    const position = this.served.get(key) ?? 0;
+
+    if (this.mode !== 'record' && recorded.length > 0 && (this.mode === 'replay' || position < recorded.length)) {
+      this.served.set(key, position + 1);
+      return replayResponse(recorded[Math.min(position, recorded.length - 1)]);
+    }
+    if (this.mode === 'replay') {
+      throw new FixtureMissError(url, this.file);
+    }
+
+    const fetchImpl = this.inner ?? (fetch as unknown as FetchLike);
+    const response = await fetchImpl(url, init);
+    const stream = Boolean(response.ok && response.body && isStreamRequest(requestBody));
+    const body = stream ? await readBody(response.body!) : await response.text();
+    const retryAfter = response.headers?.get('retry-after') ?? undefined;
+
+    this.entries.push({
+      key,
+      request: { url, body: parseBody(requestBody) },
+      response: { status: response.status, ...(retryAfter ? { retryAfter } : {}), body, ...(stream ? { stream } : {}) }
+    });
+    this.served.set(key, position + 1);
+    this.persist();
+    return replayResponse(this.entries[this.entries.length - 1]);
+  };
+
+  private load(): void {
+    if (!existsSync(this.file)) return;
+
+    try {
+      this.entries = JSON.parse(readFileSync(this.file, 'utf8')) as FixtureEntry[];
+    } catch (error) {
+      throw new Error(`Unreadable fixture file ${this.file}: ${String(error)}`);
+    }
+  }
+
+  private persist(): void {
+    writeFileSync(this.file, JSON.stringify(this.entries, null, 2));
+  }
+}
+
+function fixtureKey(url: string, body: string): string {
+  return createHash('sha256').update(url).update('\n').update(body).digest('hex').slice(0, 32);
+}
+
+function parseBody(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function isStreamRequest(body: string): boolean {
+  const parsed = parseBody(body) as { stream?: unknown } | string;
+  return typeof parsed === 'object' && parsed !== null && parsed.stream === true;
+}
+
+async function readBody(body: AsyncIterable<Uint8Array>): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = '';
+  for await (const chunk of body) {
+    text += decoder.decode(chunk, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+function replayResponse(entry: FixtureEntry): FetchResponse {
+  const { status, retryAfter, body, stream } = entry.response;
+  const bytes = new TextEncoder().encode(body);
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    text: async () => body,
+    headers: { get: (name: string) => (name.toLowerCase() === 'retry-after' ? retryAfter ?? null : null) },
+    body: stream
+      ? (async function* () {
+        yield bytes;
+      })()
+      : null
+  };
+}
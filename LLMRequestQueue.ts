@@ -0,0 +1,202 @@
+/**
+ * LLM Request Queue
+ *
+ * Per-provider concurrency limits with a priority queue in front of
+ * each provider. Waiting requests are served strictly by priority
+ * class; within a class, tenants take turns so one busy session cannot
+ * starve the others.
+ */
+
+import { abortReason } from './LLMCancellation';
+
+export type RequestPriority = 'interactive' | 'normal' | 'batch';
+
+export const REQUEST_PRIORITIES: RequestPriority[] = ['interactive', 'normal', 'batch'];
+
+// Concurrent calls per provider unless the provider config sets maxConcurrency
+export const DEFAULT_PROVIDER_CONCURRENCY = 16;
+
+export interface QueueTicket {
+  priority?: RequestPriority;
+  tenant?: string; // fairness key, e.g. session or tenant id
+  signal?: AbortSignal; // abandons the wait when aborted
+}
+
+export interface QueueSnapshot {
+  limit: number;
+  active: number;
+  queued: number;
+  queuedByPriority: Record<RequestPriority, number>;
+  avgWaitMs: number | null; // over recent grants
+  maxWaitMs: number | null;
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  grant: () => void;
+  cancel: (error: Error) => void;
+}
+
+interface ProviderQueue {
+  limit: number;
+  active: number;
+  // Per priority, waiters grouped by tenant; Map order is the round-robin order
+  waiting: Record<RequestPriority, Map<string, Waiter[]>>;
+  waits: number[];
+}
+
+/**
+ * Hands out per-provider concurrency slots in priority and fairness order
+ */
+export class RequestScheduler {
+  private queues: Map<string, ProviderQueue> = new Map();
+
+  constructor(private waitWindow = 200, private now: () => number = Date.now) {}
+
+  configure(provider: string, limit: number): void {
+    const existing = this.queues.get(provider);
+    if (existing) {
+      existing.limit = limit;
+      this.dispatch(existing);
+      return;
+    }
+
+    this.queues.set(provider, {
+      limit,
+      active: 0,
+      waiting: { interactive: new Map(), normal: new Map(), batch: new Map() },
+      waits: []
+    });
+  }
+
+  /**
+   * Forget a provider, rejecting requests still waiting for it
+   */
+  remove(provider: string): void {
+    const queue = this.queues.get(provider);
+    if (!queue) return;
+
+    this.queues.delete(provider);
+    for (const priority of REQUEST_PRIORITIES) {
+      queue.waiting[priority].forEach(waiters =>
+        waiters.forEach(waiter => waiter.cancel(new Error(`Provider ${provider} was removed`)))
+      );
+      queue.waiting[priority].clear();
+    }
+  }
+
+  /**
+   * Wait for a slot on a provider. Resolves with a release function
+   * that must be called once the call has finished; calling it more
+   * than once is harmless.
+   */
+  acquire(provider: string, ticket: QueueTicket = {}): Promise<() => void> {
+    const queue = this.queues.get(provider);
+    if (!queue) return Promise.resolve(() => undefined);
+    if (ticket.signal?.aborted) return Promise.reject(abortReason(ticket.signal));
+
+    const priority = ticket.priority ?? 'normal';
+    const tenant = ticket.tenant ?? '';
+
+    // Skip the queue only when nobody of equal or higher priority is waiting
+    if (queue.active < queue.limit && !this.hasWaitingAtOrAbove(queue, priority)) {
+      queue.active++;
+      this.recordWait(queue, 0);
+      return Promise.resolve(this.releaser(queue));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        enqueuedAt: this.now(),
+        grant: () => {
+          ticket.signal?.removeEventListener('abort', onAbort);
+          this.recordWait(queue, this.now() - waiter.enqueuedAt);
+          resolve(this.releaser(queue));
+        },
+        cancel: error => {
+          ticket.signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+
+      const onAbort = () => {
+        const waiters = queue.waiting[priority].get(tenant);
+        const index = waiters ? waiters.indexOf(waiter) : -1;
+        if (index >= 0) {
+          waiters!.splice(index, 1);
+          if (waiters!.length === 0) queue.waiting[priority].delete(tenant);
+        }
+        reject(abortReason(ticket.signal!));
+      };
+      ticket.signal?.addEventListener('abort', onAbort, { once: true });
+
+      const tenants = queue.waiting[priority];
+      tenants.set(tenant, [...(tenants.get(tenant) || []), waiter]);
+    });
+  }
+
+  snapshot(provider: string): QueueSnapshot | null {
+    const queue = this.queues.get(provider);
+    if (!queue) return null;
+
+    const queuedByPriority = {} as Record<RequestPriority, number>;
+    for (const priority of REQUEST_PRIORITIES) {
+      let count = 0;
+      queue.waiting[priority].forEach(waiters => {
+        count += waiters.length;
+      });
+      queuedByPriority[priority] = count;
+    }
+
+    return {
+      limit: queue.limit,
+      active: queue.active,
+      queued: REQUEST_PRIORITIES.reduce((sum, priority) => sum + queuedByPriority[priority], 0),
+      queuedByPriority,
+      avgWaitMs: queue.waits.length > 0 ? queue.waits.reduce((sum, wait) => sum + wait, 0) / queue.waits.length : null,
+      maxWaitMs: queue.waits.length > 0 ? Math.max(...queue.waits) : null
+    };
+  }
+
+  private releaser(queue: ProviderQueue): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      queue.active--;
+      this.dispatch(queue);
+    };
+  }
+
+  /**
+   * Grant free slots: highest priority first, rotating through tenants
+   */
+  private dispatch(queue: ProviderQueue): void {
+    while (queue.active < queue.limit) {
+      const priority = REQUEST_PRIORITIES.find(p => queue.waiting[p].size > 0);
+      if (!priority) return;
+
+      const tenants = queue.waiting[priority];
+      const [tenant, waiters] = tenants.entries().next().value as [string, Waiter[]];
+      const waiter = waiters.shift()!;
+
+      // Move this tenant to the back of the rotation
+      tenants.delete(tenant);
+      if (waiters.length > 0) tenants.set(tenant, waiters);
+
+      queue.active++;
+      waiter.grant();
+    }
+  }
+
+  private hasWaitingAtOrAbove(queue: ProviderQueue, priority: RequestPriority): boolean {
+    return REQUEST_PRIORITIES
+      .slice(0, REQUEST_PRIORITIES.indexOf(priority) + 1)
+      .some(p => queue.waiting[p].size > 0);
+  }
+
+  private recordWait(queue: ProviderQueue, waitMs: number): void {
+    queue.waits.push(waitMs);
+    if (queue.waits.length > this.waitWindow) queue.waits.shift();
+  }
+}
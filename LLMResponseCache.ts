@@ -0,0 +1,273 @@
+/**
+ * LLM Response Cache
+ *
+ * Caches completed LLMResponses keyed on everything that shapes the
+ * output: prompt, system prompt, provider, model, temperature and max tokens.
+ * Storage is pluggable; an in-memory LRU is the default and a
+ * file-backed store is available for persistence across restarts.
+ * An optional semantic mode serves near-duplicate prompts.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import type { LLMResponse } from './UnifiedLLMOrchestrator';
+
+export interface CacheKeyParts {
+  prompt: string;
+  systemPrompt: string;
+  provider: string; // providers serving the same model id answer separately
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  options: string; // serialized request options that change the output, e.g. tools
+}
+
+export interface CacheEntry {
+  key: string;
+  parts: CacheKeyParts;
+  response: LLMResponse;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface ResponseCacheStore {
+  readonly size: number;
+  get(key: string): CacheEntry | undefined;
+  set(entry: CacheEntry): void;
+  delete(key: string): void;
+  clear(): void;
+  values(): Iterable<CacheEntry>;
+}
+
+export interface ResponseCacheOptions {
+  store?: ResponseCacheStore;
+  ttlMs?: number;
+  semantic?: {
+    enabled: boolean;
+    threshold: number; // 0-1 cosine similarity required for a hit
+  };
+}
+
+export interface ResponseCacheStats {
+  enabled: boolean;
+  size: number;
+  hits: number;
+  semanticHits: number;
+  misses: number;
+  expired: number;
+}
+
+/**
+ * In-memory least-recently-used store
+ */
+export class LRUCacheStore implements ResponseCacheStore {
+  protected entries: Map<string, CacheEntry> = new Map();
+
+  constructor(private maxEntries = 500) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(entry: CacheEntry): void {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  values(): Iterable<CacheEntry> {
+    return this.entries.values();
+  }
+}
+
+/**
+ * LRU store persisted to a JSON file after every write
+ */
+export class FileCacheStore extends LRUCacheStore {
+  constructor(private filePath: string, maxEntries = 500) {
+    super(maxEntries);
+    this.load();
+  }
+
+  set(entry: CacheEntry): void {
+    super.set(entry);
+    this.persist();
+  }
+
+  delete(key: string): void {
+    super.delete(key);
+    this.persist();
+  }
+
+  clear(): void {
+    super.clear();
+    this.persist();
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) return;
+
+    try {
+      const saved = JSON.parse(readFileSync(this.filePath, 'utf8')) as CacheEntry[];
+      for (const entry of saved) {
+        super.set(entry);
+      }
+    } catch (error) {
+      console.log(`[LLM Cache] Ignoring unreadable cache file ${this.filePath}: ${String(error)}`);
+    }
+  }
+
+  private persist(): void {
+    writeFileSync(this.filePath, JSON.stringify(Array.from(this.entries.values())));
+  }
+}
+
+export class ResponseCache {
+  private store: ResponseCacheStore;
+  private ttlMs: number;
+  private semantic: { enabled: boolean; threshold: number };
+  private stats = { hits: 0, semanticHits: 0, misses: 0, expired: 0 };
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.store = options.store ?? new LRUCacheStore();
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+    this.semantic = options.semantic ?? { enabled: false, threshold: 0.9 };
+  }
+
+  /**
+   * Look up a cached response, falling back to the closest
+   * near-duplicate prompt when semantic mode is enabled. Each hit is
+   * a fresh copy the caller may modify.
+   */
+  get(parts: CacheKeyParts): LLMResponse | null {
+    const now = Date.now();
+    const key = this.buildKey(parts);
+    const exact = this.store.get(key);
+
+    if (exact) {
+      if (exact.expiresAt > now) {
+        this.stats.hits++;
+        return structuredClone(exact.response);
+      }
+      this.store.delete(key);
+      this.stats.expired++;
+    }
+
+    if (this.semantic.enabled) {
+      const match = this.findSimilar(parts, now);
+      if (match) {
+        this.stats.hits++;
+        this.stats.semanticHits++;
+        return structuredClone(match.response);
+      }
+    }
+
+    this.stats.misses++;
+    return null;
+  }
+
+  /**
+   * Store a copy of the response, so metadata the caller attaches to
+   * its own response afterwards never reaches later hits
+   */
+  set(parts: CacheKeyParts, response: LLMResponse, ttlMs = this.ttlMs): void {
+    const now = Date.now();
+    this.store.set({
+      key: this.buildKey(parts),
+      parts,
+      response: structuredClone(response),
+      createdAt: now,
+      expiresAt: now + ttlMs
+    });
+  }
+
+  clear(): void {
+    this.store.clear();
+  }
+
+  getStats(): Omit<ResponseCacheStats, 'enabled'> {
+    return { size: this.store.size, ...this.stats };
+  }
+
+  private buildKey(parts: CacheKeyParts): string {
+    return createHash('sha256')
+      .update(JSON.stringify([parts.prompt, parts.systemPrompt, parts.provider, parts.model, parts.temperature, parts.maxTokens, parts.options]))
+      .digest('hex');
+  }
+
+  /**
+   * Find the most similar live entry generated with identical settings
+   */
+  private findSimilar(parts: CacheKeyParts, now: number): CacheEntry | null {
+    const queryVector = this.termVector(parts.prompt);
+    let best: CacheEntry | null = null;
+    let bestScore = this.semantic.threshold;
+
+    for (const entry of this.store.values()) {
+      if (entry.expiresAt <= now) continue;
+      if (
+        entry.parts.provider !== parts.provider ||
+        entry.parts.model !== parts.model ||
+        entry.parts.systemPrompt !== parts.systemPrompt ||
+        entry.parts.temperature !== parts.temperature ||
+        entry.parts.maxTokens !== parts.maxTokens ||
+        entry.parts.options !== parts.options
+      ) continue;
+
+      const score = this.cosineSimilarity(queryVector, this.termVector(entry.parts.prompt));
+      if (score >= bestScore) {
+        best = entry;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  private termVector(text: string): Map<string, number> {
+    const vector = new Map<string, number>();
+    for (const term of text.toLowerCase().split(/\W+/).filter(Boolean)) {
+      vector.set(term, (vector.get(term) || 0) + 1);
+    }
+    return vector;
+  }
+
+  private cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+
+    a.forEach((value, term) => {
+      normA += value * value;
+      dot += value * (b.get(term) || 0);
+    });
+    b.forEach(value => {
+      normB += value * value;
+    });
+
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+  }
+}
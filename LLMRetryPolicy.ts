@@ -0,0 +1,139 @@
+/**
+ * LLM Retry Policy
+ *
+ * Error classification, exponential backoff and the fallback policy
+ * the orchestrator uses when walking its provider priority list.
+ */
+
+import { ProviderHttpError } from './LLMProviderAdapters';
+import { LLMCancelledError, raceAbort } from './LLMCancellation';
+
+export interface FallbackPolicy {
+  maxProviders: number; // how many providers of the priority list to try
+  maxRetriesPerProvider: number; // retries after the first attempt on each provider
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: number; // 0-1, fraction of the delay randomized
+  respectRetryAfter: boolean;
+}
+
+export const DEFAULT_FALLBACK_POLICY: FallbackPolicy = {
+  maxProviders: Infinity,
+  maxRetriesPerProvider: 2,
+  baseDelayMs: 250,
+  maxDelayMs: 8000,
+  jitter: 0.5,
+  respectRetryAfter: true
+};
+
+export type LLMErrorKind =
+  | 'rate_limit'
+  | 'server'
+  | 'network'
+  | 'timeout'
+  | 'auth'
+  | 'invalid_request'
+  | 'cancelled'
+  | 'unknown';
+
+export interface ErrorClassification {
+  kind: LLMErrorKind;
+  retryable: boolean;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+export interface LLMAttempt {
+  provider: string;
+  model: string;
+  attempt: number; // 1-based attempt number on this provider
+  outcome: 'success' | 'error';
+  latency: number;
+  errorKind?: LLMErrorKind;
+  status?: number;
+  message?: string;
+  retryDelayMs?: number; // wait before the next attempt on this provider
+}
+
+/**
+ * Raised when every provider in the fallback chain has failed
+ */
+export class LLMFallbackExhaustedError extends Error {
+  constructor(
+    public readonly attempts: LLMAttempt[],
+    public readonly lastError: unknown
+  ) {
+    super(`All LLM providers failed after ${attempts.length} attempt(s): ${errorMessage(lastError)}`);
+    this.name = 'LLMFallbackExhaustedError';
+  }
+}
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_SOCKET'];
+
+/**
+ * Decide whether an error is worth retrying
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof ProviderHttpError) {
+    const status = error.status;
+    if (status === 429) {
+      return { kind: 'rate_limit', retryable: true, status, retryAfterMs: error.retryAfterMs };
+    }
+    if (status === 408) {
+      return { kind: 'timeout', retryable: true, status };
+    }
+    if (status >= 500) {
+      return { kind: 'server', retryable: true, status, retryAfterMs: error.retryAfterMs };
+    }
+    if (status === 401 || status === 403) {
+      return { kind: 'auth', retryable: false, status };
+    }
+    return { kind: 'invalid_request', retryable: false, status };
+  }
+
+  if (error instanceof LLMCancelledError) {
+    return { kind: 'cancelled', retryable: false };
+  }
+
+  const err = error as { name?: string; code?: string; cause?: { code?: string } } | undefined;
+  if (err?.name === 'TimeoutError' || err?.name === 'AbortError') {
+    return { kind: 'timeout', retryable: true };
+  }
+  const code = err?.code ?? err?.cause?.code;
+  if ((code && NETWORK_ERROR_CODES.includes(code)) || (error instanceof TypeError && /fetch/i.test(error.message))) {
+    return { kind: 'network', retryable: true };
+  }
+
+  return { kind: 'unknown', retryable: false };
+}
+
+/**
+ * Exponential backoff with jitter, deferring to Retry-After when present
+ */
+export function computeBackoff(
+  retryNumber: number,
+  policy: FallbackPolicy,
+  retryAfterMs?: number
+): number {
+  if (policy.respectRetryAfter && retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, retryNumber - 1));
+  return Math.round(exponential * (1 - policy.jitter * Math.random()));
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Wait, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const wait = new Promise<void>(resolve => {
+    timer = setTimeout(resolve, ms);
+  });
+  return raceAbort(wait, signal).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,149 @@
+/**
+ * LLM Routing Policies
+ *
+ * Pluggable strategies that rank candidate providers for a request.
+ * The orchestrator filters providers by capability, rate limit, circuit
+ * state and budget, then asks the active policy to order what is left.
+ * The first provider is used; the rest form the fallback chain.
+ *
+ * Policies see live latency and error statistics gathered by the
+ * orchestrator through ProviderStatsTracker.
+ */
+
+import type { LLMProvider, LLMRequest } from './UnifiedLLMOrchestrator';
+
+export interface ProviderStatsSnapshot {
+  samples: number;
+  p50Latency: number | null;
+  p95Latency: number | null;
+  errorRate: number; // 0-1 over the sample window
+}
+
+export interface RoutingContext {
+  request: LLMRequest;
+  candidates: LLMProvider[];
+  stats(provider: LLMProvider): ProviderStatsSnapshot;
+  estimateCost(provider: LLMProvider): number; // USD, worst case for this request
+}
+
+export interface RoutingPolicy {
+  readonly name: string;
+  /** Order candidates best-first; providers left out are never tried */
+  rank(context: RoutingContext): LLMProvider[];
+}
+
+// Expected latency before any calls have been observed
+const LATENCY_CLASS_MS: Record<LLMProvider['latency'], number> = {
+  low: 500,
+  medium: 2000,
+  high: 5000
+};
+
+/**
+ * Rolling latency and error statistics per provider
+ */
+export class ProviderStatsTracker {
+  private samples: Map<string, Array<{ latency: number; ok: boolean }>> = new Map();
+
+  constructor(private windowSize = 200) {}
+
+  record(provider: string, latency: number, ok: boolean): void {
+    const window = this.samples.get(provider) || [];
+    window.push({ latency, ok });
+    if (window.length > this.windowSize) window.shift();
+    this.samples.set(provider, window);
+  }
+
+  snapshot(provider: string): ProviderStatsSnapshot {
+    const window = this.samples.get(provider) || [];
+    const latencies = window.filter(s => s.ok).map(s => s.latency).sort((a, b) => a - b);
+    const errors = window.filter(s => !s.ok).length;
+
+    return {
+      samples: window.length,
+      p50Latency: this.percentile(latencies, 0.5),
+      p95Latency: this.percentile(latencies, 0.95),
+      errorRate: window.length > 0 ? errors / window.length : 0
+    };
+  }
+
+  reset(provider?: string): void {
+    if (provider) {
+      this.samples.delete(provider);
+    } else {
+      this.samples.clear();
+    }
+  }
+
+  private percentile(sorted: number[], p: number): number | null {
+    if (sorted.length === 0) return null;
+    const index = Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1);
+    return sorted[Math.max(0, index)];
+  }
+}
+
+/**
+ * Expected latency of a provider: observed p50, else its latency class
+ */
+export function expectedLatency(provider: LLMProvider, stats: ProviderStatsSnapshot): number {
+  return stats.p50Latency ?? LATENCY_CLASS_MS[provider.latency];
+}
+
+/**
+ * Static priority order; the orchestrator's original behaviour
+ */
+export const priorityPolicy: RoutingPolicy = {
+  name: 'priority',
+  rank({ candidates }) {
+    return [...candidates].sort((a, b) => a.priority - b.priority);
+  }
+};
+
+/**
+ * Cheapest estimated cost for this request first
+ */
+export const cheapestPolicy: RoutingPolicy = {
+  name: 'cheapest',
+  rank({ candidates, estimateCost }) {
+    return [...candidates].sort((a, b) => estimateCost(a) - estimateCost(b) || a.priority - b.priority);
+  }
+};
+
+/**
+ * Lowest observed median latency first, penalizing unreliable providers
+ */
+export const lowestLatencyPolicy: RoutingPolicy = {
+  name: 'lowest-latency',
+  rank({ candidates, stats }) {
+    // A failed call costs roughly a full retry, so weight latency by reliability
+    const score = (provider: LLMProvider) => {
+      const snapshot = stats(provider);
+      return expectedLatency(provider, snapshot) / Math.max(0.05, 1 - snapshot.errorRate);
+    };
+    return [...candidates].sort((a, b) => score(a) - score(b) || a.priority - b.priority);
+  }
+};
+
+/**
+ * Highest quality (priority order, skipping unreliable providers)
+ * among those whose estimated cost fits request.maxCostUsd
+ */
+export const bestQualityPolicy: RoutingPolicy = {
+  name: 'best-quality',
+  rank({ request, candidates, stats, estimateCost }) {
+    const affordable = request.maxCostUsd === undefined
+      ? candidates
+      : candidates.filter(provider => estimateCost(provider) <= request.maxCostUsd!);
+
+    const reliable = affordable.filter(provider => stats(provider).errorRate < 0.5);
+    const pool = reliable.length > 0 ? reliable : affordable;
+    return [...pool].sort((a, b) => a.priority - b.priority);
+  }
+};
+
+export const builtInRoutingPolicies: RoutingPolicy[] = [
+  priorityPolicy,
+  cheapestPolicy,
+  lowestLatencyPolicy,
+  bestQualityPolicy
+];
@@ -0,0 +1,216 @@
+/**
+ * LLM Structured Output
+ *
+ * JSON extraction, JSON Schema validation and repair prompts for
+ * machine-readable answers. The validator covers the subset of JSON
+ * Schema used to describe model output (types, properties, required,
+ * items, enums, bounds and combinators) so no schema library is needed.
+ */
+
+import type { LLMRequest, LLMResponse } from './UnifiedLLMOrchestrator';
+import type { JSONSchema } from './LLMTools';
+
+export interface LLMResponseFormat {
+  type: 'json';
+  schema?: JSONSchema; // shape the JSON must conform to
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+export type OutputValidator<T> = (value: unknown) => ValidationResult<T>;
+
+export interface StructuredOutputOptions<T> {
+  schema?: JSONSchema;
+  validate?: OutputValidator<T>; // runs after schema validation passes
+  maxRepairs?: number; // re-asks after the first attempt
+}
+
+export interface StructuredResult<T> {
+  value: T;
+  response: LLMResponse;
+  repairs: number;
+}
+
+/**
+ * Raised when the model never produced valid structured output
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly errors: string[],
+    public readonly lastText: string,
+    public readonly repairs: number
+  ) {
+    super(`Structured output invalid after ${repairs} repair(s): ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Pull a JSON value out of model text, tolerating code fences and
+ * surrounding prose
+ */
+export function extractJson(text: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return { ok: true, value: JSON.parse(candidate) };
+  } catch {
+    // Fall through to scanning for an embedded object or array
+  }
+
+  const starts = [candidate.indexOf('{'), candidate.indexOf('[')].filter(i => i >= 0);
+  if (starts.length === 0) {
+    return { ok: false, error: 'Reply did not contain a JSON object or array' };
+  }
+  const start = Math.min(...starts);
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+
+  try {
+    return { ok: true, value: JSON.parse(candidate.slice(start, end + 1)) };
+  } catch (error) {
+    return { ok: false, error: `Reply was not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validate a value against a JSON Schema, returning readable errors
+ */
+export function validateJsonSchema(value: unknown, schema: JSONSchema, path = '$'): string[] {
+  const errors: string[] = [];
+  const s = schema as Record<string, any>;
+
+  if (s.type !== undefined) {
+    const types: string[] = Array.isArray(s.type) ? s.type : [s.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (s.const !== undefined && JSON.stringify(value) !== JSON.stringify(s.const)) {
+    errors.push(`${path}: must equal ${JSON.stringify(s.const)}`);
+  }
+  if (Array.isArray(s.enum) && !s.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${s.enum.map((o: unknown) => JSON.stringify(o)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (s.minLength !== undefined && value.length < s.minLength) errors.push(`${path}: shorter than ${s.minLength}`);
+    if (s.maxLength !== undefined && value.length > s.maxLength) errors.push(`${path}: longer than ${s.maxLength}`);
+    if (s.pattern !== undefined && !new RegExp(s.pattern).test(value)) errors.push(`${path}: does not match ${s.pattern}`);
+  }
+
+  if (typeof value === 'number') {
+    if (s.minimum !== undefined && value < s.minimum) errors.push(`${path}: less than ${s.minimum}`);
+    if (s.maximum !== undefined && value > s.maximum) errors.push(`${path}: greater than ${s.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (s.minItems !== undefined && value.length < s.minItems) errors.push(`${path}: fewer than ${s.minItems} items`);
+    if (s.maxItems !== undefined && value.length > s.maxItems) errors.push(`${path}: more than ${s.maxItems} items`);
+    if (s.items && typeof s.items === 'object') {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, s.items, `${path}[${index}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties: Record<string, JSONSchema> = s.properties || {};
+
+    for (const key of s.required || []) {
+      if (!(key in record)) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      if (key in record) errors.push(...validateJsonSchema(record[key], propertySchema, `${path}.${key}`));
+    }
+    for (const key of Object.keys(record)) {
+      if (key in properties) continue;
+      if (s.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (s.additionalProperties && typeof s.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(record[key], s.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (Array.isArray(s.allOf)) {
+    for (const sub of s.allOf) errors.push(...validateJsonSchema(value, sub, path));
+  }
+  if (Array.isArray(s.anyOf) && !s.anyOf.some((sub: JSONSchema) => validateJsonSchema(value, sub, path).length === 0)) {
+    errors.push(`${path}: does not match any allowed schema`);
+  }
+  if (Array.isArray(s.oneOf)) {
+    const matches = s.oneOf.filter((sub: JSONSchema) => validateJsonSchema(value, sub, path).length === 0).length;
+    if (matches !== 1) errors.push(`${path}: must match exactly one schema, matched ${matches}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate a reply against the caller's schema and validator
+ */
+export function checkStructuredReply<T>(text: string, options: StructuredOutputOptions<T>): ValidationResult<T> {
+  const parsed = extractJson(text);
+  if (!parsed.ok) {
+    return { ok: false, errors: [parsed.error] };
+  }
+
+  if (options.schema) {
+    const errors = validateJsonSchema(parsed.value, options.schema);
+    if (errors.length > 0) return { ok: false, errors };
+  }
+
+  return options.validate ? options.validate(parsed.value) : { ok: true, value: parsed.value as T };
+}
+
+/**
+ * System prompt instructions asking for JSON output
+ */
+export function structuredInstructions(schema?: JSONSchema): string {
+  return schema
+    ? `Respond with only a JSON value that conforms to this JSON Schema, with no other text:\n${JSON.stringify(schema)}`
+    : 'Respond with only a valid JSON value, with no other text.';
+}
+
+/**
+ * Prepare a JSON request for a provider. Instructions always go into
+ * the system prompt, since most native JSON modes guarantee syntax but
+ * not shape; the native response format is dropped for providers
+ * that cannot take it.
+ */
+export function applyResponseFormat(request: LLMRequest, native: boolean): LLMRequest {
+  if (!request.responseFormat) return request;
+
+  const instructions = structuredInstructions(request.responseFormat.schema);
+  return {
+    ...request,
+    systemPrompt: request.systemPrompt ? `${request.systemPrompt}\n\n${instructions}` : instructions,
+    responseFormat: native ? request.responseFormat : undefined
+  };
+}
+
+/**
+ * Follow-up turn asking the model to fix an invalid reply
+ */
+export function repairPrompt(errors: string[]): string {
+  return [
+    'Your previous reply was not valid. Problems found:',
+    ...errors.slice(0, 10).map(error => `- ${error}`),
+    'Reply again with only the corrected JSON.'
+  ].join('\n');
+}
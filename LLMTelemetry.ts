@@ -0,0 +1,430 @@
+/**
+ * LLM Telemetry
+ *
+ * Structured traces and metrics for the orchestrator. Each generate,
+ * stream or embed call gets a span with a child span per provider
+ * attempt, and requests made on its behalf (history summaries,
+ * ensemble members, judges) are children in the same trace; counters
+ * and histograms track requests, attempts, errors, fallbacks, latency,
+ * tokens and cost.
+ *
+ * Spans follow the OpenTelemetry data model (hex trace and span ids,
+ * gen_ai.* semantic-convention attributes) and are handed to exporters
+ * with OpenTelemetry's SpanExporter signature, so bridging to an OTel
+ * SDK is a thin mapping. Metrics render in the Prometheus text format.
+ *
+ * The default is noopTelemetry, which records nothing and costs next to
+ * nothing; install an LLMTelemetry with setTelemetry() to collect.
+ */
+
+import { randomBytes } from 'crypto';
+import type { LLMProvider, LLMRequest, LLMResponse } from './UnifiedLLMOrchestrator';
+import type { LLMAttempt } from './LLMRetryPolicy';
+
+export type AttributeValue = string | number | boolean;
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+export interface SpanEvent {
+  name: string;
+  time: number; // epoch ms
+  attributes?: Record<string, AttributeValue>;
+}
+
+/**
+ * A finished span as handed to exporters
+ */
+export interface SpanData {
+  name: string;
+  traceId: string; // 32 hex characters
+  spanId: string; // 16 hex characters
+  parentSpanId?: string;
+  kind: 'internal' | 'client';
+  startTime: number; // epoch ms
+  endTime: number;
+  attributes: Record<string, AttributeValue>;
+  events: SpanEvent[];
+  status: { code: 'unset' | 'ok' | 'error'; message?: string };
+}
+
+export interface Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  setAttributes(attributes: Attributes): void;
+  addEvent(name: string, attributes?: Attributes): void;
+  /** Mark the span failed and attach the error as an exception event */
+  recordError(error: unknown): void;
+  end(): void;
+}
+
+// OpenTelemetry's ExportResultCode: 0 = SUCCESS, 1 = FAILED
+export interface ExportResult {
+  code: 0 | 1;
+  error?: Error;
+}
+
+/**
+ * Receives finished spans; same shape as OpenTelemetry's SpanExporter
+ */
+export interface SpanExporter {
+  export(spans: SpanData[], resultCallback: (result: ExportResult) => void): void;
+  shutdown(): Promise<void>;
+}
+
+export type Labels = Record<string, string | number | boolean | undefined>;
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+export interface Telemetry {
+  startSpan(name: string, attributes?: Attributes, options?: { parent?: Span; kind?: SpanData['kind'] }): Span;
+  counter(name: string, help: string): Counter;
+  histogram(name: string, help: string, buckets: number[]): Histogram;
+  /** Every metric in the Prometheus text exposition format */
+  prometheus(): string;
+}
+
+export const LATENCY_BUCKETS_MS = [50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000];
+export const TOKEN_BUCKETS = [16, 64, 256, 1024, 4096, 16384, 65536];
+
+const NOOP_SPAN: Span = {
+  traceId: '00000000000000000000000000000000',
+  spanId: '0000000000000000',
+  setAttributes: () => undefined,
+  addEvent: () => undefined,
+  recordError: () => undefined,
+  end: () => undefined
+};
+
+/**
+ * Telemetry that records nothing
+ */
+export const noopTelemetry: Telemetry = {
+  startSpan: () => NOOP_SPAN,
+  counter: () => ({ inc: () => undefined }),
+  histogram: () => ({ observe: () => undefined }),
+  prometheus: () => ''
+};
+
+/**
+ * Exporter keeping finished spans in memory, for tests and debugging
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: SpanData[] = [];
+
+  export(spans: SpanData[], resultCallback: (result: ExportResult) => void): void {
+    this.spans.push(...spans);
+    resultCallback({ code: 0 });
+  }
+
+  async shutdown(): Promise<void> {
+    this.spans = [];
+  }
+
+  getFinishedSpans(): SpanData[] {
+    return [...this.spans];
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+function cleanAttributes(attributes: Attributes | undefined): Record<string, AttributeValue> {
+  const clean: Record<string, AttributeValue> = {};
+  for (const [key, value] of Object.entries(attributes || {})) {
+    if (value !== undefined) clean[key] = value;
+  }
+  return clean;
+}
+
+class RecordingSpan implements Span {
+  readonly traceId: string;
+  readonly spanId = randomBytes(8).toString('hex');
+  private data: SpanData;
+  private ended = false;
+
+  constructor(
+    name: string,
+    attributes: Attributes | undefined,
+    parent: Span | undefined,
+    kind: SpanData['kind'],
+    private onEnd: (span: SpanData) => void
+  ) {
+    // The no-op span's all-zero ids are not a valid parent
+    const validParent = parent && parent !== NOOP_SPAN ? parent : undefined;
+    this.traceId = validParent?.traceId ?? randomBytes(16).toString('hex');
+    this.data = {
+      name,
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(validParent ? { parentSpanId: validParent.spanId } : {}),
+      kind,
+      startTime: Date.now(),
+      endTime: 0,
+      attributes: cleanAttributes(attributes),
+      events: [],
+      status: { code: 'unset' }
+    };
+  }
+
+  setAttributes(attributes: Attributes): void {
+    Object.assign(this.data.attributes, cleanAttributes(attributes));
+  }
+
+  addEvent(name: string, attributes?: Attributes): void {
+    this.data.events.push({ name, time: Date.now(), ...(attributes ? { attributes: cleanAttributes(attributes) } : {}) });
+  }
+
+  recordError(error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    this.data.status = { code: 'error', message };
+    this.addEvent('exception', {
+      'exception.type': error instanceof Error ? error.name : typeof error,
+      'exception.message': message
+    });
+  }
+
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    if (this.data.status.code === 'unset') this.data.status = { code: 'ok' };
+    this.onEnd({ ...this.data, endTime: Date.now() });
+  }
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .filter(key => labels[key] !== undefined)
+    .sort()
+    .map(key => `${key}="${String(labels[key]).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+    .join(',');
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'histogram';
+  buckets: number[];
+  series: Map<string, { counts: number[]; sum: number; count: number }>;
+}
+
+/**
+ * Collecting telemetry: spans go to the exporters as they end, metrics
+ * are kept in memory for prometheus() and snapshot()
+ */
+export class LLMTelemetry implements Telemetry {
+  private exporters: SpanExporter[];
+  private families: Map<string, MetricFamily> = new Map();
+
+  constructor(options: { exporters?: SpanExporter[] } = {}) {
+    this.exporters = options.exporters ?? [];
+  }
+
+  addExporter(exporter: SpanExporter): void {
+    this.exporters.push(exporter);
+  }
+
+  startSpan(name: string, attributes?: Attributes, options: { parent?: Span; kind?: SpanData['kind'] } = {}): Span {
+    return new RecordingSpan(name, attributes, options.parent, options.kind ?? 'internal', span => {
+      for (const exporter of this.exporters) {
+        exporter.export([span], result => {
+          if (result.code !== 0) {
+            console.log(`[LLM Telemetry] Span export failed: ${result.error?.message ?? 'unknown error'}`);
+          }
+        });
+      }
+    });
+  }
+
+  counter(name: string, help: string): Counter {
+    const family = this.family(name, help, 'counter', []);
+    return {
+      inc: (labels = {}, value = 1) => {
+        const series = this.series(family, labels);
+        series.sum += value;
+        series.count += 1;
+      }
+    };
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    const family = this.family(name, help, 'histogram', [...buckets].sort((a, b) => a - b));
+    return {
+      observe: (labels, value) => {
+        const series = this.series(family, labels);
+        family.buckets.forEach((bound, index) => {
+          if (value <= bound) series.counts[index]++;
+        });
+        series.sum += value;
+        series.count += 1;
+      }
+    };
+  }
+
+  prometheus(): string {
+    const lines: string[] = [];
+    this.families.forEach(family => {
+      lines.push(`# HELP ${family.name} ${family.help}`, `# TYPE ${family.name} ${family.type}`);
+      family.series.forEach((series, key) => {
+        if (family.type === 'counter') {
+          lines.push(`${family.name}${key ? `{${key}}` : ''} ${series.sum}`);
+          return;
+        }
+        const prefix = key ? `${key},` : '';
+        family.buckets.forEach((bound, index) => {
+          lines.push(`${family.name}_bucket{${prefix}le="${bound}"} ${series.counts[index]}`);
+        });
+        lines.push(`${family.name}_bucket{${prefix}le="+Inf"} ${series.count}`);
+        lines.push(`${family.name}_sum${key ? `{${key}}` : ''} ${series.sum}`);
+        lines.push(`${family.name}_count${key ? `{${key}}` : ''} ${series.count}`);
+      });
+    });
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  /**
+   * Current value of every series: counter totals, histogram sum and count
+   */
+  snapshot(): Record<string, Array<{ labels: string; value: number; count: number }>> {
+    const result: Record<string, Array<{ labels: string; value: number; count: number }>> = {};
+    this.families.forEach(family => {
+      result[family.name] = Array.from(family.series.entries()).map(([labels, series]) => ({
+        labels,
+        value: series.sum,
+        count: series.count
+      }));
+    });
+    return result;
+  }
+
+  /**
+   * Clear metrics and shut exporters down
+   */
+  async shutdown(): Promise<void> {
+    this.families.clear();
+    await Promise.all(this.exporters.map(exporter => exporter.shutdown()));
+  }
+
+  private family(name: string, help: string, type: MetricFamily['type'], buckets: number[]): MetricFamily {
+    const existing = this.families.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+    const family: MetricFamily = { name, help, type, buckets, series: new Map() };
+    this.families.set(name, family);
+    return family;
+  }
+
+  private series(family: MetricFamily, labels: Labels): { counts: number[]; sum: number; count: number } {
+    const key = labelKey(labels);
+    let series = family.series.get(key);
+    if (!series) {
+      series = { counts: family.buckets.map(() => 0), sum: 0, count: 0 };
+      family.series.set(key, series);
+    }
+    return series;
+  }
+}
+
+/**
+ * The instruments the orchestrator reports through
+ */
+export interface OrchestratorInstruments {
+  requests: Counter; // provider, model, outcome, cached
+  requestDuration: Histogram; // provider, model
+  requestTokens: Histogram; // provider, model, type
+  attempts: Counter; // provider, model, outcome, error_kind
+  attemptDuration: Histogram; // provider, model, outcome
+  fallbacks: Counter; // from, to
+  tokens: Counter; // provider, model, type
+  cost: Counter; // provider, model
+}
+
+export function createInstruments(telemetry: Telemetry): OrchestratorInstruments {
+  return {
+    requests: telemetry.counter('llm_requests_total', 'Completed generate, stream and embed calls'),
+    requestDuration: telemetry.histogram('llm_request_duration_ms', 'End-to-end request latency in milliseconds', LATENCY_BUCKETS_MS),
+    requestTokens: telemetry.histogram('llm_request_tokens', 'Tokens per request', TOKEN_BUCKETS),
+    attempts: telemetry.counter('llm_attempts_total', 'Provider calls, including retries and fallbacks'),
+    attemptDuration: telemetry.histogram('llm_attempt_duration_ms', 'Provider call latency in milliseconds', LATENCY_BUCKETS_MS),
+    fallbacks: telemetry.counter('llm_fallbacks_total', 'Requests moved to another provider after a failure'),
+    tokens: telemetry.counter('llm_tokens_total', 'Prompt and completion tokens'),
+    cost: telemetry.counter('llm_cost_usd_total', 'Spend in USD')
+  };
+}
+
+/**
+ * Span attributes describing a request, after OpenTelemetry's gen_ai
+ * semantic conventions
+ */
+export function requestAttributes(request: LLMRequest, operation: string): Attributes {
+  return {
+    'gen_ai.operation.name': operation,
+    'gen_ai.request.model': request.model,
+    'gen_ai.request.max_tokens': request.maxTokens,
+    'gen_ai.request.temperature': request.temperature,
+    'llm.routing_policy': typeof request.routingPolicy === 'object' ? request.routingPolicy.name : request.routingPolicy,
+    'llm.preferred_provider': request.preferredProvider,
+    'llm.priority': request.priority,
+    'llm.tenant': request.tenantId ?? request.sessionId,
+    'llm.tools': request.tools?.length,
+    'llm.template.id': request.template?.id,
+    'llm.template.version': request.template?.version
+  };
+}
+
+export function responseAttributes(response: LLMResponse): Attributes {
+  return {
+    'gen_ai.system': response.provider,
+    'gen_ai.response.model': response.model,
+    'gen_ai.usage.input_tokens': response.promptTokens,
+    'gen_ai.usage.output_tokens': response.completionTokens,
+    'llm.cost_usd': response.cost,
+    'llm.cached': response.cached,
+    'llm.attempts': response.metadata?.attempts.length
+  };
+}
+
+export function attemptAttributes(provider: LLMProvider, attempt: number): Attributes {
+  return {
+    'gen_ai.system': provider.name,
+    'gen_ai.request.model': provider.model,
+    ...serverAttributes(provider.endpoint),
+    'llm.attempt': attempt
+  };
+}
+
+const DEFAULT_PORTS: Record<string, number> = { 'http:': 80, 'https:': 443 };
+
+/**
+ * Host name and port of an endpoint URL; paths and query strings stay
+ * out of span attributes
+ */
+function serverAttributes(endpoint: string): Attributes {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return { 'server.address': endpoint };
+  }
+  return {
+    'server.address': url.hostname.replace(/^\[|\]$/g, ''),
+    'server.port': url.port ? Number(url.port) : DEFAULT_PORTS[url.protocol]
+  };
+}
+
+export function attemptOutcomeAttributes(record: LLMAttempt): Attributes {
+  return {
+    'llm.outcome': record.outcome,
+    'error.type': record.errorKind,
+    'http.response.status_code': record.status
+  };
+}
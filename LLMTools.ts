@@ -0,0 +1,182 @@
+/**
+ * LLM Tools
+ *
+ * Provider-neutral tool (function) calling. Tools are declared with
+ * JSON Schema parameters; adapters translate them to each vendor's
+ * native format and normalize the calls that come back. Providers
+ * without native support get tools described in the system prompt and
+ * their JSON replies parsed back into calls.
+ */
+
+import type { LLMRequest, LLMResponse } from './UnifiedLLMOrchestrator';
+import { LLMMessage, messageText } from './LLMMessages';
+
+export type JSONSchema = Record<string, unknown>;
+
+export interface LLMToolDefinition {
+  name: string;
+  description?: string;
+  parameters: JSONSchema; // JSON Schema for the arguments object
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export type LLMToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+export type ToolHandler = (
+  args: Record<string, unknown>,
+  call: LLMToolCall
+) => unknown | Promise<unknown>;
+
+export interface ToolExecution {
+  call: LLMToolCall;
+  result: unknown;
+  error?: string;
+}
+
+export interface ToolLoopResult {
+  response: LLMResponse; // the final answer
+  messages: LLMMessage[]; // full conversation including tool calls and results
+  executions: ToolExecution[];
+}
+
+/**
+ * Named tool definitions with the handlers that execute them
+ */
+export class ToolRegistry {
+  private tools: Map<string, { definition: LLMToolDefinition; handler: ToolHandler }> = new Map();
+
+  register(definition: LLMToolDefinition, handler: ToolHandler): this {
+    this.tools.set(definition.name, { definition, handler });
+    return this;
+  }
+
+  unregister(name: string): void {
+    this.tools.delete(name);
+  }
+
+  definitions(): LLMToolDefinition[] {
+    return Array.from(this.tools.values()).map(tool => tool.definition);
+  }
+
+  /**
+   * Run a tool call. Handler failures are returned rather than thrown
+   * so the model can see the error and recover.
+   */
+  async execute(call: LLMToolCall): Promise<ToolExecution> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return { call, result: null, error: `Unknown tool: ${call.name}` };
+    }
+
+    try {
+      return { call, result: await tool.handler(call.arguments, call) };
+    } catch (error) {
+      return { call, result: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+/**
+ * Tool message carrying an execution result back to the model
+ */
+export function toolResultMessage(execution: ToolExecution): LLMMessage {
+  const payload = execution.error !== undefined ? { error: execution.error } : execution.result;
+  return {
+    role: 'tool',
+    name: execution.call.name,
+    toolCallId: execution.call.id,
+    content: typeof payload === 'string' ? payload : JSON.stringify(payload ?? null)
+  };
+}
+
+/**
+ * Parse tool call arguments, which some vendors send as a JSON string
+ */
+export function parseToolArguments(raw: unknown): Record<string, unknown> {
+  if (typeof raw === 'string') {
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+  return raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+}
+
+/**
+ * Rewrite a tool request for a provider without native tool support:
+ * tools are described in the system prompt and prior calls and results
+ * become ordinary turns.
+ */
+export function emulateTools(request: LLMRequest): LLMRequest {
+  const tools = request.tools || [];
+  if (tools.length === 0 || request.toolChoice === 'none') {
+    return { ...request, tools: undefined, toolChoice: undefined };
+  }
+
+  const forced = typeof request.toolChoice === 'object' ? request.toolChoice.name : null;
+  const instructions = [
+    'You can call the following tools:',
+    ...tools.map(tool =>
+      `- ${tool.name}: ${tool.description || 'No description'}\n  Arguments JSON Schema: ${JSON.stringify(tool.parameters)}`
+    ),
+    'To call tools, reply with only a JSON object of the form ' +
+      '{"tool_calls": [{"name": "<tool name>", "arguments": {...}}]} and nothing else.',
+    forced
+      ? `You must call the ${forced} tool.`
+      : request.toolChoice === 'required'
+        ? 'You must call at least one tool.'
+        : 'If no tool is needed, answer normally.'
+  ].join('\n');
+
+  const messages = (request.messages || []).map((message): LLMMessage => {
+    if (message.role === 'tool') {
+      return { role: 'user', content: `Result of tool ${message.name || ''} (${message.toolCallId || ''}): ${messageText(message)}` };
+    }
+    if (message.toolCalls && message.toolCalls.length > 0) {
+      const calls = message.toolCalls.map(call => ({ name: call.name, arguments: call.arguments }));
+      return { role: 'assistant', content: JSON.stringify({ tool_calls: calls }) };
+    }
+    return message;
+  });
+
+  return {
+    ...request,
+    systemPrompt: request.systemPrompt ? `${request.systemPrompt}\n\n${instructions}` : instructions,
+    messages,
+    tools: undefined,
+    toolChoice: undefined
+  };
+}
+
+/**
+ * Extract tool calls from a reply to an emulated tool request
+ */
+export function parseEmulatedToolCalls(text: string): LLMToolCall[] {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start < 0 || end <= start) return [];
+
+  try {
+    const parsed = JSON.parse(candidate.slice(start, end + 1));
+    if (!Array.isArray(parsed?.tool_calls)) return [];
+
+    return parsed.tool_calls
+      .filter((call: any) => typeof call?.name === 'string')
+      .map((call: any, index: number) => ({
+        id: `call_${index}`,
+        name: call.name,
+        arguments: parseToolArguments(call.arguments)
+      }));
+  } catch {
+    return [];
+  }
+}
@@ -20,27 +20,253 @@
  */
 
 import { credentialManager } from '../security/SecureCredentialManager';
+import {
+  BatchEndpointConfig,
+  FetchLike,
+  LLMWireFormat,
+  ProviderResult,
+  VendorBatchItem,
+  VendorBatchItemResult,
+  getVendorBatchResults,
+  getVendorBatchStatus,
+  providerAdapters,
+  sendEmbeddingRequest,
+  sendProviderRequest,
+  streamProviderRequest,
+  submitVendorBatch,
+  supportsEmbeddings,
+  supportsVendorBatch
+} from './LLMProviderAdapters';
+import { LLMMessage, MediaKind, conversationText, toConversation } from './LLMMessages';
+import {
+  DEFAULT_MEDIA_LIMITS,
+  MEDIA_CAPABILITIES,
+  MediaLimits,
+  MediaValidationError,
+  loadMedia,
+  mediaKindsOf,
+  validateMedia
+} from './LLMMultimodal';
+import {
+  LLMToolCall,
+  LLMToolChoice,
+  LLMToolDefinition,
+  ToolLoopResult,
+  ToolRegistry,
+  emulateTools,
+  parseEmulatedToolCalls,
+  toolResultMessage
+} from './LLMTools';
+import {
+  LLMResponseFormat,
+  StructuredOutputError,
+  StructuredOutputOptions,
+  StructuredResult,
+  applyResponseFormat,
+  checkStructuredReply,
+  repairPrompt
+} from './LLMStructuredOutput';
+import { CacheKeyParts, ResponseCache, ResponseCacheStats } from './LLMResponseCache';
+import {
+  EnsembleOptions,
+  EnsembleOutput,
+  EnsembleResult,
+  JUDGE_SCHEMA,
+  agreementScores,
+  judgePrompt,
+  normalizeAnswer,
+  synthesisPrompt,
+  tallyVotes
+} from './LLMEnsemble';
+import {
+  EmbeddingCache,
+  EmbeddingModelConfig,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  EmbeddingResult,
+  LocalEmbedder,
+  batchInputs,
+  normalizeVector
+} from './LLMEmbeddings';
+import {
+  DEFAULT_FALLBACK_POLICY,
+  FallbackPolicy,
+  LLMAttempt,
+  LLMFallbackExhaustedError,
+  classifyError,
+  computeBackoff,
+  errorMessage,
+  sleep
+} from './LLMRetryPolicy';
+import {
+  DEFAULT_ATTEMPT_TIMEOUT_MS,
+  LLMCancelledError,
+  LLMTimeoutError,
+  abortReason,
+  createAbortScope,
+  throwIfAborted
+} from './LLMCancellation';
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitSnapshot,
+  DEFAULT_HEALTH_CHECK_OPTIONS,
+  HealthCheckOptions,
+  ProviderHealth
+} from './LLMCircuitBreaker';
+import {
+  DEFAULT_PRIVACY_POLICY,
+  PrivacyPolicy,
+  PrivacyPolicyError,
+  RedactionVault,
+  isLocalProvider,
+  redactRequest,
+  redactTexts,
+  restoreResult
+} from './LLMPrivacy';
+import { LLMModelConfig, bindModel, matchesModel, modelKey, modelsOf } from './LLMModelCatalog';
+import {
+  ContextFitReport,
+  ContextOverflowOptions,
+  ContextOverflowStrategy,
+  ContextWindowError,
+  DEFAULT_COMPLETION_RESERVE,
+  DEFAULT_SUMMARY_TOKENS,
+  Tokenizer,
+  builtInTokenizers,
+  countRequestTokens,
+  defaultTokenizer,
+  dropOldestTurns,
+  overflowOptions,
+  splitHistory,
+  summaryPrompt,
+  truncateMiddle,
+  withSummary
+} from './LLMContextWindow';
+import { ProviderRateLimit, ProviderRateLimiter, RateLimitSnapshot } from './LLMRateLimiter';
+import { PromptLibrary, PromptTemplateRef, RenderedPrompt, promptLibrary } from './LLMPromptTemplates';
+import { MOCK_SCHEME, MockCall, MockProviderHost, MockScript } from './LLMMockProvider';
+import { FIXTURE_MODES, FixtureMode, FixtureTransport } from './LLMRecordReplay';
+import {
+  BatchCheckpoint,
+  BatchItemResult,
+  BatchOptions,
+  BatchResult,
+  DEFAULT_BATCH_OPTIONS,
+  DEFAULT_BATCH_RATE_LIMIT_WAIT_MS,
+  VendorBatchJob,
+  batchError
+} from './LLMBatch';
+import {
+  OrchestratorInstruments,
+  Span,
+  Telemetry,
+  attemptAttributes,
+  attemptOutcomeAttributes,
+  createInstruments,
+  noopTelemetry,
+  requestAttributes,
+  responseAttributes
+} from './LLMTelemetry';
+import {
+  DEFAULT_PROVIDER_CONFIGS,
+  ProviderConfigLoadOptions,
+  loadProviderConfigFile,
+  normalizeProviderConfig
+} from './LLMProviderRegistry';
+import {
+  DEFAULT_PROVIDER_CONCURRENCY,
+  QueueSnapshot,
+  QueueTicket,
+  RequestPriority,
+  RequestScheduler
+} from './LLMRequestQueue';
+import { BudgetExceededError, CostLedger, LedgerTotals, ModelPricing, calculateCost } from './LLMCostLedger';
+import {
+  ProviderStatsSnapshot,
+  ProviderStatsTracker,
+  RoutingContext,
+  RoutingPolicy,
+  builtInRoutingPolicies,
+  cheapestPolicy,
+  expectedLatency
+} from './LLMRoutingPolicy';
 
 export interface LLMProvider {
   name: string;
   endpoint: string;
+  format: LLMWireFormat;
   model: string;
   maxTokens: number;
   temperature: number;
   priority: number;
   capabilities: string[];
-  rateLimit: number; // requests per minute
+  rateLimit: number | ProviderRateLimit; // requests per minute, or request and token budgets
   latency: 'low' | 'medium' | 'high';
   cost: 'free' | 'low' | 'medium' | 'high';
+  pricing: ModelPricing;
+  contextWindow?: number; // prompt plus completion tokens of the default model
+  models?: LLMModelConfig[]; // models served besides, or describing, the default `model`
+  embeddings?: EmbeddingModelConfig; // embedding model served alongside the chat model
+  batch?: BatchEndpointConfig; // discounted asynchronous batch API, used by generateBatch
+  timeoutMs?: number; // per-attempt timeout; defaults to DEFAULT_ATTEMPT_TIMEOUT_MS
+  maxConcurrency?: number; // concurrent calls; defaults to DEFAULT_PROVIDER_CONCURRENCY
+  region?: string; // where the provider processes data, e.g. 'us' or 'eu'; checked against allowedRegions
+  requiresCredential?: boolean; // false for providers that need no API key, e.g. local servers
+  apiKey?: string; // used instead of the credential manager, e.g. from a config file
+  mock?: MockScript; // scripted replies for providers with format 'mock'
+}
+
+export interface OrchestratorOptions {
+  providers?: LLMProvider[]; // defaults to DEFAULT_PROVIDER_CONFIGS
+  configFile?: string; // JSON or YAML provider definitions; replaces `providers`
+  configOptions?: ProviderConfigLoadOptions;
+  transport?: FetchLike; // fetch used for provider calls, e.g. a FixtureTransport
 }
 
 export interface LLMRequest {
-  prompt: string;
+  prompt?: string; // appended as the final user turn
   systemPrompt?: string;
+  messages?: LLMMessage[]; // conversation history, oldest first; user turns may carry image, document and audio parts
   maxTokens?: number;
   temperature?: number;
   preferredProvider?: string;
+  model?: string; // model id, `Provider/model-id` or alias such as 'fast', 'smart' or 'local'
   requiredCapabilities?: string[];
+  bypassCache?: boolean; // skip cache lookup; the fresh response still refreshes the cache
+  fallbackPolicy?: Partial<FallbackPolicy>;
+  rateLimitWaitMs?: number; // wait up to this long for rate limit capacity instead of rerouting
+  sessionId?: string; // attributes spend in the cost ledger
+  routingPolicy?: string | RoutingPolicy; // registered policy name or a one-off policy
+  maxCostUsd?: number; // cost cap honoured by cost-aware routing policies
+  tools?: LLMToolDefinition[];
+  toolChoice?: LLMToolChoice;
+  responseFormat?: LLMResponseFormat; // ask for JSON output instead of free text
+  signal?: AbortSignal; // cancels the request, including in-flight HTTP calls
+  timeoutMs?: number; // overall deadline across retries and fallbacks
+  attemptTimeoutMs?: number; // per provider attempt; overrides the provider's timeoutMs
+  hedge?: boolean | { delayMs?: number }; // race a second provider once the primary passes its p95 latency
+  priority?: RequestPriority; // queue class when a provider is at its concurrency limit (default 'normal')
+  tenantId?: string; // fair queuing key; defaults to sessionId
+  contextOverflow?: ContextOverflowStrategy | ContextOverflowOptions; // when the prompt exceeds the model's window (default 'error')
+  sensitive?: boolean; // only local providers may receive this request
+  redact?: boolean; // overrides the privacy policy's redaction for this request
+  // Render prompt and systemPrompt from the prompt library instead of passing `prompt`. The variant
+  // is chosen for the routed provider; fallbacks reuse its text. The structured output and tool
+  // loops render the default variant once, before routing.
+  template?: PromptTemplateRef;
+}
+
+export interface LLMResponseMetadata {
+  attempts: LLMAttempt[]; // every provider call made for this request, in order
+  hedge?: {
+    primary: string;
+    backup: string;
+    delayMs: number; // how long the primary had before the backup was sent
+    winner: string;
+  };
+  context?: ContextFitReport; // set when the request was cut down to fit the model's context window
+  batch?: { id: string; discount: number }; // set when the response came from a vendor batch
 }
 
 export interface LLMResponse {
@@ -48,174 +274,202 @@ export interface LLMResponse {
   provider: string;
   model: string;
   tokensUsed: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD
   latency: number;
   cached: boolean;
+  toolCalls?: LLMToolCall[]; // set when the model asked for tools instead of answering
+  template?: { id: string; version: string; variant?: string }; // the prompt template the request was rendered from
+  metadata?: LLMResponseMetadata;
+}
+
+export type LLMStreamEvent =
+  | { type: 'delta'; text: string; provider: string }
+  | { type: 'done'; response: LLMResponse };
+
+export interface LLMStream extends AsyncIterable<LLMStreamEvent> {
+  /** Resolves with the complete response once the stream has been consumed */
+  response: Promise<LLMResponse>;
 }
 
 export class UnifiedLLMOrchestrator {
   private static instance: UnifiedLLMOrchestrator;
-  private providers: Map<string, LLMProvider> = new Map();
+  private providerConfigs: Map<string, LLMProvider> = new Map(); // every registered provider
+  private providers: Map<string, LLMProvider> = new Map(); // registered providers with credentials
   private requestCounts: Map<string, number> = new Map();
-  private lastReset: Date = new Date();
-
-  // All supported LLM configurations
-  private readonly providerConfigs: LLMProvider[] = [
-    {
-      name: 'Claude',
-      endpoint: 'https://api.anthropic.com/v1/messages',
-      model: 'claude-3-opus-20240229',
-      maxTokens: 4096,
-      temperature: 0.7,
-      priority: 1,
-      capabilities: ['reasoning', 'coding', 'analysis', 'creative', 'long-context'],
-      rateLimit: 60,
-      latency: 'medium',
-      cost: 'high'
-    },
-    {
-      name: 'OpenAI',
-      endpoint: 'https://api.openai.com/v1/chat/completions',
-      model: 'gpt-4-turbo-preview',
-      maxTokens: 4096,
-      temperature: 0.7,
-      priority: 2,
-      capabilities: ['reasoning', 'coding', 'analysis', 'creative', 'function-calling'],
-      rateLimit: 60,
-      latency: 'medium',
-      cost: 'high'
-    },
-    {
-      name: 'DeepSeek',
-      endpoint: 'https://api.deepseek.com/v1/chat/completions',
-      model: 'deepseek-chat',
-      maxTokens: 4096,
-      temperature: 0.7,
-      priority: 3,
-      capabilities: ['reasoning', 'coding', 'math', 'analysis'],
-      rateLimit: 100,
-      latency: 'medium',
-      cost: 'low'
-    },
-    {
-      name: 'Ollama',
-      endpoint: 'http://localhost:11434/api/generate',
-      model: 'llama2',
-      maxTokens: 4096,
-      temperature: 0.7,
-      priority: 4,
-      capabilities: ['reasoning', 'coding', 'local', 'offline'],
-      rateLimit: 1000,
-      latency: 'low',
-      cost: 'free'
-    },
-    {
-      name: 'Gemini',
-      endpoint: 'https://generativelanguage.googleapis.com/v1beta/models',
-      model: 'gemini-pro',
-      maxTokens: 4096,
-      temperature: 0.7,
-      priority: 5,
-      capabilities: ['reasoning', 'multimodal', 'analysis', 'vision'],
-      rateLimit: 60,
-      latency: 'medium',
-      cost: 'medium'
-    },
-    {
-      name: 'Cohere',
-      endpoint: 'https://api.cohere.ai/v1/chat',
-      model: 'command',
-      maxTokens: 4096,
-      temperature: 0.7,
-      priority: 6,
-      capabilities: ['reasoning', 'enterprise', 'rag', 'embeddings'],
-      rateLimit: 100,
-      latency: 'medium',
-      cost: 'medium'
-    },
-    {
-      name: 'HuggingFace',
-      endpoint: 'https://api-inference.huggingface.co/models',
-      model: 'mistralai/Mixtral-8x7B-Instruct-v0.1',
-      maxTokens: 4096,
-      temperature: 0.7,
-      priority: 7,
-      capabilities: ['reasoning', 'open-source', 'custom-models'],
-      rateLimit: 30,
-      latency: 'high',
-      cost: 'low'
-    },
-    {
-      name: 'Mistral',
-      endpoint: 'https://api.mistral.ai/v1/chat/completions',
-      model: 'mistral-large-latest',
-      maxTokens: 4096,
-      temperature: 0.7,
-      priority: 8,
-      capabilities: ['reasoning', 'coding', 'multilingual', 'european'],
-      rateLimit: 60,
-      latency: 'medium',
-      cost: 'medium'
-    },
-    {
-      name: 'Perplexity',
-      endpoint: 'https://api.perplexity.ai/chat/completions',
-      model: 'pplx-7b-online',
-      maxTokens: 4096,
-      temperature: 0.7,
-      priority: 9,
-      capabilities: ['search', 'real-time', 'citations', 'web-access'],
-      rateLimit: 20,
-      latency: 'medium',
-      cost: 'medium'
-    },
-    {
-      name: 'Groq',
-      endpoint: 'https://api.groq.com/openai/v1/chat/completions',
-      model: 'mixtral-8x7b-32768',
-      maxTokens: 4096,
-      temperature: 0.7,
-      priority: 10,
-      capabilities: ['fast-inference', 'reasoning', 'speed-optimized'],
-      rateLimit: 100,
-      latency: 'low',
-      cost: 'low'
-    },
-    {
-      name: 'TogetherAI',
-      endpoint: 'https://api.together.xyz/v1/chat/completions',
-      model: 'togethercomputer/llama-2-70b-chat',
-      maxTokens: 4096,
-      temperature: 0.7,
-      priority: 11,
-      capabilities: ['fine-tuning', 'custom-models', 'reasoning'],
-      rateLimit: 60,
-      latency: 'medium',
-      cost: 'low'
-    }
-  ];
-
-  private constructor() {
-    this.initializeProviders();
+  private rateLimiter: ProviderRateLimiter = new ProviderRateLimiter();
+  private scheduler: RequestScheduler = new RequestScheduler();
+  private costLedger: CostLedger = new CostLedger();
+  private providerStats: ProviderStatsTracker = new ProviderStatsTracker();
+  private routingPolicies: Map<string, RoutingPolicy> = new Map(
+    builtInRoutingPolicies.map(policy => [policy.name, policy])
+  );
+  private defaultRoutingPolicy = 'priority';
+  private responseCache: ResponseCache | null = new ResponseCache();
+  private embeddingCache: EmbeddingCache | null = new EmbeddingCache();
+  private localEmbedder: LocalEmbedder | null = null;
+  private fallbackPolicy: FallbackPolicy = { ...DEFAULT_FALLBACK_POLICY };
+  private circuitBreakers: Map<string, CircuitBreaker> = new Map();
+  private circuitBreakerOptions: Partial<CircuitBreakerOptions> = {};
+  private providerHealth: Map<string, ProviderHealth> = new Map();
+  private healthCheckTimer: ReturnType<typeof setInterval> | null = null;
+  private tokenizers: Map<string, Tokenizer> = new Map(); // by provider name or `Provider/model-id`
+  private privacyPolicy: PrivacyPolicy = { ...DEFAULT_PRIVACY_POLICY };
+  private mediaLimits: MediaLimits = { ...DEFAULT_MEDIA_LIMITS };
+  private promptLibrary: PromptLibrary = promptLibrary;
+  private transport: FetchLike | null = null;
+  private mockHost = new MockProviderHost(name => this.providerConfigs.get(name)?.mock);
+  private telemetry: Telemetry = noopTelemetry;
+  private instruments: OrchestratorInstruments = createInstruments(noopTelemetry);
+
+  /**
+   * Create an orchestrator with its own provider registry. Most callers
+   * share the default instance via getInstance(); separate instances
+   * isolate tests and tenants.
+   */
+  constructor(options: OrchestratorOptions = {}) {
+    const configs = options.configFile
+      ? loadProviderConfigFile(options.configFile, options.configOptions)
+      : options.providers ?? DEFAULT_PROVIDER_CONFIGS;
+
+    for (const config of configs) {
+      this.registerProvider(config);
+    }
+    this.transport = options.transport ?? null;
+    console.log(`[LLM Orchestrator] Initialized ${this.providers.size} providers`);
   }
 
+  /**
+   * The shared instance. Because it is built on first import, tests
+   * configure it through the environment: LLM_PROVIDER_CONFIG names a
+   * provider config file (e.g. one with mock providers), and
+   * LLM_FIXTURE_FILE with LLM_FIXTURE_MODE installs record/replay.
+   */
   static getInstance(): UnifiedLLMOrchestrator {
     if (!UnifiedLLMOrchestrator.instance) {
-      UnifiedLLMOrchestrator.instance = new UnifiedLLMOrchestrator();
+      UnifiedLLMOrchestrator.instance = new UnifiedLLMOrchestrator(UnifiedLLMOrchestrator.optionsFromEnv(process.env));
     }
     return UnifiedLLMOrchestrator.instance;
   }
 
+  private static optionsFromEnv(env: Record<string, string | undefined>): OrchestratorOptions {
+    const mode = env.LLM_FIXTURE_MODE as FixtureMode | undefined;
+    if (mode !== undefined && !FIXTURE_MODES.includes(mode)) {
+      throw new Error(`LLM_FIXTURE_MODE must be one of ${FIXTURE_MODES.join(', ')}`);
+    }
+
+    return {
+      ...(env.LLM_PROVIDER_CONFIG ? { configFile: env.LLM_PROVIDER_CONFIG } : {}),
+      ...(env.LLM_FIXTURE_FILE ? { transport: new FixtureTransport({ file: env.LLM_FIXTURE_FILE, mode }).fetch } : {})
+    };
+  }
+
+  /**
+   * Send provider calls through a custom fetch, e.g. a FixtureTransport
+   * for record/replay; null restores the global fetch. Mock providers
+   * are always answered in-process.
+   */
+  setTransport(transport: FetchLike | null): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Calls received by mock providers, optionally for one provider
+   */
+  getMockCalls(provider?: string): MockCall[] {
+    return this.mockHost.calls(provider);
+  }
+
+  /**
+   * Forget mock calls and restart every mock script from its first reply
+   */
+  resetMockProviders(): void {
+    this.mockHost.reset();
+  }
+
+  private readonly fetchProvider: FetchLike = (url, init) => {
+    if (url.startsWith(MOCK_SCHEME)) return this.mockHost.fetch(url, init);
+    return (this.transport ?? (fetch as unknown as FetchLike))(url, init);
+  };
+
   /**
-   * Initialize available providers based on configured credentials
+   * Validate and register a provider. It becomes available for routing
+   * once it has a credential (or needs none). Registering an existing
+   * name throws unless `replace` is set.
    */
-  private initializeProviders(): void {
-    for (const config of this.providerConfigs) {
-      if (credentialManager.isConfigured(config.name) || config.name === 'Ollama') {
-        this.providers.set(config.name, config);
-        this.requestCounts.set(config.name, 0);
+  registerProvider(config: LLMProvider, options: { replace?: boolean } = {}): LLMProvider {
+    const provider = normalizeProviderConfig(config, this.nextPriority());
+
+    if (this.providerConfigs.has(provider.name)) {
+      if (!options.replace) {
+        throw new Error(`Provider already registered: ${provider.name}`);
       }
+      this.unregisterProvider(provider.name);
     }
-    console.log(`[LLM Orchestrator] Initialized ${this.providers.size} providers`);
+
+    this.providerConfigs.set(provider.name, provider);
+    if (this.hasCredential(provider)) {
+      this.providers.set(provider.name, provider);
+      this.requestCounts.set(provider.name, 0);
+      this.rateLimiter.configure(provider.name, provider.rateLimit);
+      this.scheduler.configure(provider.name, provider.maxConcurrency ?? DEFAULT_PROVIDER_CONCURRENCY);
+      this.circuitBreakers.set(provider.name, new CircuitBreaker(this.circuitBreakerOptions));
+    }
+    return provider;
+  }
+
+  /**
+   * Remove a provider and all of its runtime state. Requests queued
+   * for it are rejected; calls already in flight are left to finish.
+   */
+  unregisterProvider(name: string): boolean {
+    const config = this.providerConfigs.get(name);
+    if (!config) return false;
+
+    this.providerConfigs.delete(name);
+    this.providers.delete(name);
+    this.requestCounts.delete(name);
+    this.rateLimiter.remove(name);
+    this.scheduler.remove(name);
+    this.circuitBreakers.delete(name);
+    this.providerHealth.delete(name);
+    for (const model of modelsOf(config)) {
+      this.providerStats.reset(modelKey({ name, model: model.id }));
+    }
+    if (config.embeddings) {
+      this.providerStats.reset(modelKey({ name, model: config.embeddings.model }));
+    }
+    return true;
+  }
+
+  /**
+   * Register every provider in a JSON or YAML config file, replacing
+   * existing providers of the same name
+   */
+  loadProviderConfig(filePath: string, options: ProviderConfigLoadOptions = {}): LLMProvider[] {
+    const configs = loadProviderConfigFile(filePath, options);
+    const registered = configs.map(config => this.registerProvider(config, { replace: true }));
+    console.log(`[LLM Orchestrator] Loaded ${registered.length} providers from ${filePath}`);
+    return registered;
+  }
+
+  private nextPriority(): number {
+    let highest = 0;
+    this.providerConfigs.forEach(provider => {
+      highest = Math.max(highest, provider.priority);
+    });
+    return highest + 1;
+  }
+
+  private hasCredential(provider: LLMProvider): boolean {
+    return provider.requiresCredential === false
+      || provider.apiKey !== undefined
+      || credentialManager.isConfigured(provider.name);
+  }
+
+  private credentialFor(provider: LLMProvider): string | undefined {
+    return provider.apiKey ?? (credentialManager.getCredential(provider.name) || undefined);
   }
 
   /**
@@ -227,56 +481,368 @@ export class UnifiedLLMOrchestrator {
   }
 
   /**
-   * Select best provider for a request
+   * Every model of every available provider, as provider entries bound
+   * to that model, in priority order
+   */
+  getAvailableModels(): LLMProvider[] {
+    return this.getAvailableProviders()
+      .flatMap(provider => modelsOf(provider).map(model => bindModel(provider, model)));
+  }
+
+  /**
+   * Provider/model pairs that can serve a request. With request.model,
+   * every model matching it; otherwise one per provider: the default
+   * model, or the first of its models with the required capabilities.
+   * `allModels` lifts the one-per-provider limit. Models whose context
+   * window cannot hold the request are skipped; when none can, the
+   * models with the largest window are returned for the overflow
+   * strategy to fit the request into.
+   */
+  private getCandidateModels(request: LLMRequest, allModels = false): LLMProvider[] {
+    const required = request.requiredCapabilities || [];
+    const media = mediaKindsOf(request);
+    const permitted = this.getAvailableProviders().filter(provider => this.isPermitted(provider, request));
+    const candidates = (ignoreContext: boolean) => permitted.flatMap(provider => {
+      const accepting = modelsOf(provider).filter(model => this.acceptsMedia(bindModel(provider, model), media));
+      // Past every window, a provider offers its largest model
+      const models = ignoreContext
+        ? accepting.sort((a, b) => (b.contextWindow ?? 0) - (a.contextWindow ?? 0))
+        : accepting.filter(model => this.fitsContext(bindModel(provider, model), request));
+      if (request.model) {
+        return models
+          .filter(model => matchesModel(provider, model, request.model!))
+          .map(model => bindModel(provider, model));
+      }
+      if (allModels) {
+        return models.map(model => bindModel(provider, model));
+      }
+
+      const chosen = models.find(model => required.every(cap => model.capabilities.includes(cap))) ?? models[0];
+      return chosen ? [bindModel(provider, chosen)] : [];
+    });
+
+    const fitting = candidates(false);
+    if (fitting.length > 0) return fitting;
+
+    const all = candidates(true);
+    const largest = Math.max(...all.map(provider => provider.contextWindow ?? 0));
+    return all.filter(provider => provider.contextWindow === largest);
+  }
+
+  /**
+   * Whether a request's prompt plus its completion allowance fits a
+   * model's context window
+   */
+  private fitsContext(provider: LLMProvider, request: LLMRequest): boolean {
+    return provider.contextWindow === undefined
+      || countRequestTokens(request, this.tokenizerFor(provider)) + this.completionReserve(provider, request)
+        <= provider.contextWindow;
+  }
+
+  /**
+   * Completion tokens to keep free in the context window: the request's
+   * maxTokens, or a share of the model's output limit
+   */
+  private completionReserve(provider: LLMProvider, request: LLMRequest): number {
+    return request.maxTokens ?? Math.min(provider.maxTokens, DEFAULT_COMPLETION_RESERVE);
+  }
+
+  /**
+   * Pre-flight check against the model's context window, applying the
+   * request's overflow strategy when the prompt does not fit. Without
+   * an explicit maxTokens the completion allowance is clamped to the
+   * room the prompt leaves.
+   */
+  private async fitToContext(
+    provider: LLMProvider,
+    request: LLMRequest,
+    span?: Span
+  ): Promise<{ request: LLMRequest; report?: ContextFitReport }> {
+    const contextWindow = provider.contextWindow;
+    if (contextWindow === undefined) return { request };
+
+    const tokenizer = this.tokenizerFor(provider);
+    const options = overflowOptions(request.contextOverflow);
+    const reserve = this.completionReserve(provider, request);
+    const budget = contextWindow - reserve;
+    const originalTokens = countRequestTokens(request, tokenizer);
+    let fitted = request;
+    let report: ContextFitReport | undefined;
+
+    if (originalTokens > budget) {
+      report = {
+        strategy: options.strategy,
+        contextWindow,
+        originalTokens,
+        promptTokens: originalTokens,
+        droppedTurns: 0,
+        truncated: false,
+        summarized: false
+      };
+
+      if (options.strategy === 'drop-oldest') {
+        const result = dropOldestTurns(request, budget, tokenizer, options.keepRecentTurns);
+        fitted = result.request;
+        report.droppedTurns = result.droppedTurns;
+      } else if (options.strategy === 'truncate-middle') {
+        const result = truncateMiddle(request, budget, tokenizer);
+        fitted = result.request;
+        report.droppedTurns = result.droppedTurns;
+        report.truncated = result.truncated;
+      } else if (options.strategy === 'summarize') {
+        const result = await this.summarizeHistory(provider, request, budget, options, span);
+        fitted = result.request;
+        report.droppedTurns = result.droppedTurns;
+        report.summarized = result.summarized;
+      }
+
+      report.promptTokens = countRequestTokens(fitted, tokenizer);
+      if (report.promptTokens > budget) {
+        throw new ContextWindowError(report.promptTokens + reserve, contextWindow, modelKey(provider));
+      }
+      console.log(`[LLM Orchestrator] Fitted request into ${modelKey(provider)} (${options.strategy}): ${originalTokens} -> ${report.promptTokens} tokens`);
+    }
+
+    const promptTokens = report?.promptTokens ?? originalTokens;
+    if (fitted.maxTokens === undefined && promptTokens + provider.maxTokens > contextWindow) {
+      fitted = { ...fitted, maxTokens: contextWindow - promptTokens };
+    }
+    return { request: fitted, report };
+  }
+
+  /**
+   * Replace older turns with a summary from a cheaper model, dropping
+   * further turns if the request is still too large
+   */
+  private async summarizeHistory(
+    provider: LLMProvider,
+    request: LLMRequest,
+    budget: number,
+    options: ContextOverflowOptions,
+    span?: Span
+  ): Promise<{ request: LLMRequest; droppedTurns: number; summarized: boolean }> {
+    const { older, recent } = splitHistory(request, options.keepRecentTurns);
+    if (older.length === 0) {
+      return { request, droppedTurns: 0, summarized: false };
+    }
+
+    const summary = await this.generateWithin({
+      prompt: summaryPrompt(older),
+      ...(options.summaryModel ? { model: options.summaryModel } : { routingPolicy: 'cheapest' }),
+      maxTokens: Math.min(DEFAULT_SUMMARY_TOKENS, Math.floor(budget / 4)),
+      temperature: 0,
+      contextOverflow: 'truncate-middle',
+      sessionId: request.sessionId,
+      tenantId: request.tenantId,
+      priority: request.priority,
+      // The history is the parent's data and stays under its privacy rules
+      sensitive: request.sensitive,
+      redact: request.redact,
+      signal: request.signal
+    }, span);
+
+    const summarized = withSummary(request, recent, summary.text);
+    const tokenizer = this.tokenizerFor(provider);
+    if (countRequestTokens(summarized, tokenizer) <= budget) {
+      return { request: summarized, droppedTurns: 0, summarized: true };
+    }
+    const { request: trimmed, droppedTurns } = dropOldestTurns(summarized, budget, tokenizer, options.keepRecentTurns);
+    return { request: trimmed, droppedTurns, summarized: true };
+  }
+
+  /**
+   * Count tokens with an exact tokenizer for a provider (all of its
+   * models) or one model given as `Provider/model-id`; null restores
+   * the built-in estimate
+   */
+  setTokenizer(ref: string, tokenizer: Tokenizer | null): void {
+    if (tokenizer) {
+      this.tokenizers.set(ref, tokenizer);
+    } else {
+      this.tokenizers.delete(ref);
+    }
+  }
+
+  private tokenizerFor(provider: LLMProvider): Tokenizer {
+    return this.tokenizers.get(modelKey(provider))
+      ?? this.tokenizers.get(provider.name)
+      ?? defaultTokenizer(provider.format, provider.model);
+  }
+
+  /**
+   * Select the best provider/model pair for a request. The returned
+   * entry is the provider bound to the chosen model.
    */
   selectProvider(request: LLMRequest): LLMProvider | null {
-    const available = this.getAvailableProviders();
+    const available = this.getCandidateModels(request);
 
     if (available.length === 0) return null;
 
     // If specific provider requested
     if (request.preferredProvider) {
-      const preferred = this.providers.get(request.preferredProvider);
-      if (preferred && this.isWithinRateLimit(preferred)) {
+      const preferred = available.find(provider => provider.name === request.preferredProvider);
+      if (preferred && this.isSelectable(preferred, request)) {
         return preferred;
       }
     }
 
+    const selectable = available.filter(provider => this.isSelectable(provider, request));
+
     // If specific capabilities required
     if (request.requiredCapabilities && request.requiredCapabilities.length > 0) {
-      for (const provider of available) {
-        const hasAllCapabilities = request.requiredCapabilities.every(
-          cap => provider.capabilities.includes(cap)
-        );
-        if (hasAllCapabilities && this.isWithinRateLimit(provider)) {
-          return provider;
-        }
+      const capable = selectable.filter(provider =>
+        request.requiredCapabilities!.every(cap => provider.capabilities.includes(cap))
+      );
+      const ranked = this.rankProviders(request, capable);
+      if (ranked.length > 0) {
+        return ranked[0];
       }
     }
 
-    // Default: return highest priority available provider
-    for (const provider of available) {
-      if (this.isWithinRateLimit(provider)) {
-        return provider;
-      }
+    // Default: best available provider under the routing policy
+    return this.rankProviders(request, selectable)[0] ?? null;
+  }
+
+  /**
+   * Register a routing policy so requests can refer to it by name
+   */
+  registerRoutingPolicy(policy: RoutingPolicy): void {
+    this.routingPolicies.set(policy.name, policy);
+  }
+
+  /**
+   * Set the policy used by requests that do not name one
+   */
+  setDefaultRoutingPolicy(name: string): void {
+    if (!this.routingPolicies.has(name)) {
+      throw new Error(`Unknown routing policy: ${name}`);
     }
+    this.defaultRoutingPolicy = name;
+  }
 
-    return null;
+  /**
+   * Names requests can pass as `routingPolicy`
+   */
+  getRoutingPolicyNames(): string[] {
+    return Array.from(this.routingPolicies.keys());
   }
 
   /**
-   * Check if provider is within rate limit
+   * Order providers best-first under the request's routing policy
    */
-  private isWithinRateLimit(provider: LLMProvider): boolean {
-    // Reset counts every minute
-    const now = new Date();
-    if (now.getTime() - this.lastReset.getTime() > 60000) {
-      this.requestCounts.forEach((_, key) => this.requestCounts.set(key, 0));
-      this.lastReset = now;
+  private rankProviders(request: LLMRequest, candidates: LLMProvider[]): LLMProvider[] {
+    if (candidates.length === 0) return [];
+
+    const requested = request.routingPolicy ?? this.defaultRoutingPolicy;
+    const policy = typeof requested === 'string' ? this.routingPolicies.get(requested) : requested;
+    if (!policy) {
+      throw new Error(`Unknown routing policy: ${requested}`);
     }
 
-    const count = this.requestCounts.get(provider.name) || 0;
-    return count < provider.rateLimit;
+    const ranked = policy.rank(this.routingContext(request, candidates));
+
+    // Tool requests prefer native tool support; others are still usable via emulation
+    if (request.tools && request.tools.length > 0 && request.toolChoice !== 'none') {
+      return [
+        ...ranked.filter(provider => this.supportsNativeTools(provider)),
+        ...ranked.filter(provider => !this.supportsNativeTools(provider))
+      ];
+    }
+    return ranked;
+  }
+
+  private routingContext(request: LLMRequest, candidates: LLMProvider[]): RoutingContext {
+    return {
+      request,
+      candidates,
+      stats: provider => this.providerStats.snapshot(modelKey(provider)),
+      estimateCost: provider => this.estimateCost(provider, request)
+    };
+  }
+
+  /**
+   * Worst-case cost of a request on a provider: estimated prompt plus
+   * the full completion allowance
+   */
+  private estimateCost(provider: LLMProvider, request: LLMRequest): number {
+    return calculateCost(
+      provider.pricing,
+      countRequestTokens(request, this.tokenizerFor(provider)),
+      request.maxTokens ?? provider.maxTokens
+    );
+  }
+
+  /**
+   * Check if provider can take a request: not behind an open circuit
+   * breaker and, unless the caller is willing to wait, within its rate limit
+   */
+  private isSelectable(provider: LLMProvider, request: LLMRequest): boolean {
+    const breaker = this.circuitBreakers.get(provider.name);
+    if (breaker && !breaker.isAvailable()) return false;
+    if (this.hasExhaustedProviderBudget(provider, request)) return false;
+    return request.rateLimitWaitMs !== undefined || this.isWithinRateLimit(provider, request);
+  }
+
+  /**
+   * Check whether a budget cap scoped to this provider or its model is used up
+   */
+  private hasExhaustedProviderBudget(provider: LLMProvider, request: LLMRequest): boolean {
+    return this.costLedger
+      .exceededBudgets({ provider: provider.name, model: provider.model, sessionId: request.sessionId })
+      .some(cap => cap.provider !== undefined || cap.model !== undefined);
+  }
+
+  /**
+   * Apply request-wide budget caps: blocking caps reject the request,
+   * downgrading caps route it to the cheapest eligible provider
+   */
+  private applyBudgets(request: LLMRequest): LLMRequest {
+    const exceeded = this.costLedger
+      .exceededBudgets({ sessionId: request.sessionId })
+      .filter(cap => cap.provider === undefined && cap.model === undefined);
+
+    const blocking = exceeded.find(cap => cap.action === 'block');
+    if (blocking) {
+      throw new BudgetExceededError(blocking, this.costLedger.spentAgainst(blocking));
+    }
+
+    if (exceeded.length > 0) {
+      const cheapest = this.getCheapestProvider(request);
+      if (cheapest) {
+        console.log(`[LLM Orchestrator] Budget "${exceeded[0].id}" exceeded, downgrading to ${modelKey(cheapest)}`);
+        return { ...request, preferredProvider: cheapest.name, model: modelKey(cheapest) };
+      }
+    }
+
+    return request;
+  }
+
+  /**
+   * Cheapest selectable provider/model pair with the required
+   * capabilities, considering every model of each provider
+   */
+  private getCheapestProvider(request: LLMRequest): LLMProvider | null {
+    const required = request.requiredCapabilities || [];
+    const candidates = this.getCandidateModels(request, true).filter(provider =>
+      required.every(cap => provider.capabilities.includes(cap)) && this.isSelectable(provider, request)
+    );
+    return cheapestPolicy.rank(this.routingContext(request, candidates))[0] ?? null;
+  }
+
+  /**
+   * Check if provider has request and token capacity right now
+   */
+  private isWithinRateLimit(provider: LLMProvider, request: LLMRequest): boolean {
+    return this.rateLimiter.canAcquire(provider.name, this.estimateRequestTokens(provider, request));
+  }
+
+  /**
+   * Tokens to reserve against a provider's token budget: the prompt
+   * plus the most the completion may use. Settled against actual usage.
+   */
+  private estimateRequestTokens(provider: LLMProvider, request: LLMRequest): number {
+    return countRequestTokens(request, this.tokenizerFor(provider))
+      + (request.maxTokens ?? provider.maxTokens);
   }
 
   /**
@@ -291,127 +857,1768 @@ export class UnifiedLLMOrchestrator {
    * Generate completion using best available provider
    */
   async generate(request: LLMRequest): Promise<LLMResponse> {
-    const provider = this.selectProvider(request);
+    return this.generateWithin(request);
+  }
 
-    if (!provider) {
-      throw new Error('No LLM provider available');
-    }
+  /**
+   * generate() as a child of `parent`, for requests made on behalf of
+   * another request
+   */
+  private async generateWithin(request: LLMRequest, parent?: Span): Promise<LLMResponse> {
+    return this.traceRequest('llm.generate', request, async span => {
+      request = this.applyTemplate(await loadMedia(request)).request;
+      this.validateRequest(request);
+      const provider = this.selectProvider(this.applyBudgets(request));
 
-    const startTime = Date.now();
-    this.recordRequest(provider);
+      if (!provider) {
+        throw new Error('No LLM provider available');
+      }
 
-    try {
-      const text = await this.callProvider(provider, request);
+      const { request: rendered, template } = this.applyTemplate(request, provider);
+      const startTime = Date.now();
+      const { request: fitted, report } = await this.fitToContext(provider, rendered, span);
+      const cached = this.lookupCache(provider, fitted, startTime);
+      if (cached) return this.withTemplate(this.withContextReport(cached, report), template);
 
-      return {
-        text,
-        provider: provider.name,
-        model: provider.model,
-        tokensUsed: this.estimateTokens(text),
-        latency: Date.now() - startTime,
-        cached: false
-      };
+      const response = await this.withRequestScope(fitted, scoped =>
+        scoped.hedge ? this.generateHedged(scoped, provider, startTime, span) : this.runToCompletion(scoped, provider, startTime, span)
+      );
+      return this.withTemplate(this.withContextReport(response, report), template);
+    }, parent);
+  }
+
+  /**
+   * Run a request inside a span, recording its outcome in the span and
+   * the request metrics
+   */
+  private async traceRequest(
+    name: string,
+    request: LLMRequest,
+    run: (span: Span) => Promise<LLMResponse>,
+    parent?: Span
+  ): Promise<LLMResponse> {
+    const span = this.telemetry.startSpan(name, requestAttributes(request, 'chat'), { parent });
+    try {
+      const response = await run(span);
+      this.recordRequestOutcome(span, response);
+      return response;
     } catch (error) {
-      // Try fallback
-      const fallback = this.getFallbackProvider(provider);
-      if (fallback) {
-        console.log(`[LLM Orchestrator] Falling back from ${provider.name} to ${fallback.name}`);
-        const text = await this.callProvider(fallback, request);
-        return {
-          text,
-          provider: fallback.name,
-          model: fallback.model,
-          tokensUsed: this.estimateTokens(text),
-          latency: Date.now() - startTime,
-          cached: false
-        };
-      }
+      this.recordRequestOutcome(span, null, error);
       throw error;
+    } finally {
+      span.end();
     }
   }
 
+  private recordRequestOutcome(span: Span, response: LLMResponse | null, error?: unknown): void {
+    if (!response) {
+      span.recordError(error);
+      this.instruments.requests.inc({ outcome: 'error', error_type: error instanceof Error ? error.name : 'unknown' });
+      return;
+    }
+
+    const labels = { provider: response.provider, model: response.model };
+    span.setAttributes(responseAttributes(response));
+    this.instruments.requests.inc({ ...labels, outcome: 'success', cached: response.cached });
+    this.instruments.requestDuration.observe(labels, response.latency);
+    this.instruments.requestTokens.observe({ ...labels, type: 'prompt' }, response.promptTokens);
+    this.instruments.requestTokens.observe({ ...labels, type: 'completion' }, response.completionTokens);
+  }
+
   /**
-   * Get fallback provider
+   * Collect traces and metrics through `telemetry`, or pass null to
+   * stop collecting
    */
-  private getFallbackProvider(current: LLMProvider): LLMProvider | null {
-    const available = this.getAvailableProviders();
-    const currentIndex = available.findIndex(p => p.name === current.name);
+  setTelemetry(telemetry: Telemetry | null): void {
+    this.telemetry = telemetry ?? noopTelemetry;
+    this.instruments = createInstruments(this.telemetry);
+  }
 
-    for (let i = currentIndex + 1; i < available.length; i++) {
-      if (this.isWithinRateLimit(available[i])) {
-        return available[i];
-      }
+  getTelemetry(): Telemetry {
+    return this.telemetry;
+  }
+
+  /**
+   * The request with its prompt template rendered into prompt and
+   * systemPrompt, for the given provider or, without one, the default
+   * text used for validation and routing. The template's version is
+   * pinned, so rendering again for the routed provider cannot pick up
+   * a version registered in between.
+   */
+  private applyTemplate(request: LLMRequest, provider?: LLMProvider): { request: LLMRequest; template?: RenderedPrompt } {
+    if (!request.template) return { request };
+    if (!provider && request.prompt !== undefined) {
+      throw new Error('LLMRequest cannot set both prompt and template');
     }
-    return null;
+
+    const template = this.promptLibrary.render(request.template, provider);
+    return {
+      request: {
+        ...request,
+        prompt: template.prompt,
+        systemPrompt: template.system ?? request.systemPrompt,
+        template: { ...request.template, version: template.version }
+      },
+      template
+    };
   }
 
   /**
-   * Call a specific provider
+   * Replace the prompt library requests' templates are rendered from
    */
-  private async callProvider(provider: LLMProvider, request: LLMRequest): Promise<string> {
-    const credential = credentialManager.getCredential(provider.name);
+  setPromptLibrary(library: PromptLibrary): void {
+    this.promptLibrary = library;
+  }
+
+  getPromptLibrary(): PromptLibrary {
+    return this.promptLibrary;
+  }
 
-    // Provider-specific implementations would go here
-    // For now, return a placeholder indicating which provider would be used
-    console.log(`[LLM Orchestrator] Would call ${provider.name} with model ${provider.model}`);
+  private withContextReport(response: LLMResponse, report?: ContextFitReport): LLMResponse {
+    if (report) {
+      response.metadata = { attempts: [], ...response.metadata, context: report };
+    }
+    return response;
+  }
 
-    // This is a stub - actual implementation would make the API call
-    return `[Response from ${provider.name}]`;
+  private withTemplate(response: LLMResponse, template?: RenderedPrompt): LLMResponse {
+    if (!template) return response;
+    const { id, version, variant } = template;
+    return { ...response, template: { id, version, ...(variant ? { variant } : {}) } };
   }
 
   /**
-   * Estimate token count
+   * Run with the request's signal replaced by one that also honours
+   * its overall timeout
    */
-  private estimateTokens(text: string): number {
-    // Rough estimation: 1 token ~= 4 characters
-    return Math.ceil(text.length / 4);
+  private async withRequestScope<T>(request: LLMRequest, run: (scoped: LLMRequest) => Promise<T>): Promise<T> {
+    const scope = createAbortScope(request.signal, request.timeoutMs);
+    try {
+      return await run({ ...request, signal: scope.signal });
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  private async runToCompletion(request: LLMRequest, primary: LLMProvider, startTime: number, span?: Span): Promise<LLMResponse> {
+    const run = this.executeWithFallback(request, primary, startTime, (p, signal) => this.attemptCall(p, { ...request, signal }), span);
+    let step = await run.next();
+    while (!step.done) {
+      step = await run.next();
+    }
+    return step.value;
   }
 
   /**
-   * Get orchestrator status
+   * Hedged request: if the primary has not answered within its observed
+   * p95 latency, send the request to the next provider as well and take
+   * whichever answers first, cancelling the other
    */
-  getStatus(): {
-    totalProviders: number;
-    configuredProviders: number;
-    providerDetails: Array<{
-      name: string;
-      available: boolean;
-      priority: number;
-      requestCount: number;
-      capabilities: string[];
-    }>;
-  } {
-    return {
-      totalProviders: this.providerConfigs.length,
-      configuredProviders: this.providers.size,
-      providerDetails: this.providerConfigs.map(config => ({
-        name: config.name,
-        available: this.providers.has(config.name),
-        priority: config.priority,
-        requestCount: this.requestCounts.get(config.name) || 0,
-        capabilities: config.capabilities
-      }))
-    };
+  private generateHedged(request: LLMRequest, primary: LLMProvider, startTime: number, span?: Span): Promise<LLMResponse> {
+    const backup = this.getFallbackChain(primary, Infinity, request)
+      .slice(1)
+      .find(provider => this.isSelectable(provider, request));
+    if (!backup) {
+      return this.runToCompletion(request, primary, startTime, span);
+    }
+
+    const stats = this.providerStats.snapshot(modelKey(primary));
+    const delayMs = (typeof request.hedge === 'object' ? request.hedge.delayMs : undefined)
+      ?? stats.p95Latency
+      ?? expectedLatency(primary, stats);
+    const branches = [createAbortScope(request.signal), createAbortScope(request.signal)];
+
+    return new Promise<LLMResponse>((resolve, reject) => {
+      let settled = false;
+      let running = 0;
+      let backupLaunched = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = () => {
+        settled = true;
+        clearTimeout(timer);
+        branches.forEach(branch => branch.dispose());
+      };
+
+      const launch = (index: 0 | 1) => {
+        const provider = index === 0 ? primary : backup;
+        // The primary keeps its fallback chain; the backup is tried on its own
+        const branchRequest: LLMRequest = index === 0
+          ? { ...request, signal: branches[0].signal }
+          : { ...request, signal: branches[1].signal, fallbackPolicy: { ...request.fallbackPolicy, maxProviders: 1 } };
+        running++;
+
+        this.runToCompletion(branchRequest, provider, startTime, span).then(
+          response => {
+            if (settled) return;
+            branches[1 - index].abort(new LLMCancelledError(`Hedged request answered by ${provider.name}`));
+            finish();
+            response.metadata = {
+              attempts: response.metadata?.attempts ?? [],
+              hedge: { primary: primary.name, backup: backup.name, delayMs, winner: provider.name }
+            };
+            resolve(response);
+          },
+          error => {
+            running--;
+            if (settled) return;
+            // Keep waiting while the other branch is running or still scheduled
+            if (running === 0 && (backupLaunched || index === 0)) {
+              finish();
+              reject(error);
+            }
+          }
+        );
+      };
+
+      launch(0);
+      timer = setTimeout(() => {
+        if (settled) return;
+        console.log(`[LLM Orchestrator] ${primary.name} slower than ${delayMs}ms, hedging with ${backup.name}`);
+        span?.addEvent('hedge', { primary: primary.name, backup: backup.name, delay_ms: delayMs });
+        backupLaunched = true;
+        launch(1);
+      }, delayMs);
+    });
   }
 
   /**
-   * Log orchestrator status
+   * Reject requests that cannot be sent to any provider
    */
-  logStatus(): void {
-    const status = this.getStatus();
+  private validateRequest(request: LLMRequest): void {
+    if (toConversation(request).turns.length === 0) {
+      throw new Error('LLMRequest needs a prompt or at least one user or assistant message');
+    }
+    if (request.model && !this.getAvailableProviders().some(provider =>
+      modelsOf(provider).some(model => matchesModel(provider, model, request.model!))
+    )) {
+      throw new Error(`No available model matches "${request.model}"`);
+    }
+    if (!this.getAvailableProviders().some(provider => this.isPermitted(provider, request))) {
+      throw new PrivacyPolicyError(request.sensitive
+        ? 'Sensitive request needs a local provider, but none is available'
+        : 'No available provider is in an allowed region');
+    }
 
-    console.log('\n═══════════════════════════════════════════════════════════');
-    console.log('  UNIFIED LLM ORCHESTRATOR STATUS');
-    console.log('═══════════════════════════════════════════════════════════\n');
-    console.log(`📊 Providers: ${status.configuredProviders}/${status.totalProviders} configured\n`);
+    const mediaIssues = validateMedia(request, this.mediaLimits);
+    if (mediaIssues.length > 0) {
+      throw new MediaValidationError(mediaIssues);
+    }
+    for (const kind of mediaKindsOf(request)) {
+      if (!this.getAvailableProviders().some(provider =>
+        this.isPermitted(provider, request)
+        && modelsOf(provider).some(model =>
+          (!request.model || matchesModel(provider, model, request.model)) && this.acceptsMedia(bindModel(provider, model), [kind]))
+      )) {
+        throw new Error(`No available provider accepts ${kind} input${request.model ? ` on "${request.model}"` : ''}`);
+      }
+    }
+  }
 
-    console.log('Provider Status:');
-    for (const detail of status.providerDetails) {
-      const status = detail.available ? '✅' : '❌';
-      console.log(`  ${status} ${detail.name} (Priority: ${detail.priority})`);
-      if (detail.available) {
-        console.log(`     Requests: ${detail.requestCount}`);
-        console.log(`     Capabilities: ${detail.capabilities.slice(0, 3).join(', ')}...`);
+  /**
+   * Update the default fallback policy; requests may override it per call
+   */
+  setFallbackPolicy(policy: Partial<FallbackPolicy>): void {
+    this.fallbackPolicy = { ...this.fallbackPolicy, ...policy };
+  }
+
+  /**
+   * Reconfigure circuit breakers; resets every provider's breaker
+   */
+  configureCircuitBreakers(options: Partial<CircuitBreakerOptions>): void {
+    this.circuitBreakerOptions = { ...this.circuitBreakerOptions, ...options };
+    for (const name of this.providers.keys()) {
+      this.circuitBreakers.set(name, new CircuitBreaker(this.circuitBreakerOptions));
+    }
+  }
+
+  /**
+   * Start probing every provider in the background. Probe results
+   * feed the circuit breakers, so a recovered provider closes its
+   * breaker without waiting for live traffic.
+   */
+  startHealthChecks(options: Partial<HealthCheckOptions> = {}): void {
+    const config: HealthCheckOptions = { ...DEFAULT_HEALTH_CHECK_OPTIONS, ...options };
+    this.stopHealthChecks();
+
+    const runChecks = () => {
+      for (const provider of this.providers.values()) {
+        this.checkProviderHealth(provider.name, config.timeoutMs).catch(() => undefined);
+      }
+    };
+
+    this.healthCheckTimer = setInterval(runChecks, config.intervalMs);
+    // Background probes must not keep the process alive
+    this.healthCheckTimer.unref?.();
+    runChecks();
+  }
+
+  stopHealthChecks(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+  }
+
+  /**
+   * Send a minimal request to a provider and record whether it answered
+   */
+  async checkProviderHealth(name: string, timeoutMs = DEFAULT_HEALTH_CHECK_OPTIONS.timeoutMs): Promise<ProviderHealth> {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Unknown provider: ${name}`);
+    }
+
+    const startTime = Date.now();
+    const breaker = this.circuitBreakers.get(name);
+    const scope = createAbortScope(undefined, timeoutMs, () => new Error(`Health check timed out after ${timeoutMs}ms`));
+    let health: ProviderHealth;
+
+    try {
+      await this.callProvider(provider, { prompt: 'ping', maxTokens: 1, signal: scope.signal });
+
+      breaker?.recordSuccess();
+      health = { healthy: true, checkedAt: startTime, latency: Date.now() - startTime, error: null };
+    } catch (caught) {
+      const error = errorMessage(scope.signal.aborted ? abortReason(scope.signal) : caught);
+      breaker?.recordFailure(error);
+      health = { healthy: false, checkedAt: startTime, latency: Date.now() - startTime, error };
+    } finally {
+      scope.dispose();
+    }
+
+    this.providerHealth.set(name, health);
+    return health;
+  }
+
+  /**
+   * Replace the response cache, or pass null to disable caching
+   */
+  setResponseCache(cache: ResponseCache | null): void {
+    this.responseCache = cache;
+  }
+
+  private cacheKeyFor(provider: LLMProvider, request: LLMRequest): CacheKeyParts {
+    return {
+      prompt: conversationText(request),
+      systemPrompt: request.systemPrompt || '',
+      options: (request.tools && request.tools.length > 0) || request.responseFormat
+        ? JSON.stringify({ tools: request.tools, toolChoice: request.toolChoice, responseFormat: request.responseFormat })
+        : '',
+      provider: provider.name,
+      model: provider.model,
+      temperature: request.temperature ?? provider.temperature,
+      maxTokens: request.maxTokens ?? provider.maxTokens
+    };
+  }
+
+  private lookupCache(provider: LLMProvider, request: LLMRequest, startTime: number): LLMResponse | null {
+    if (!this.responseCache || request.bypassCache) return null;
+
+    const hit = this.responseCache.get(this.cacheKeyFor(provider, request));
+    if (!hit) return null;
+
+    const response: LLMResponse = {
+      ...hit,
+      cost: 0,
+      latency: Date.now() - startTime,
+      cached: true,
+      metadata: { attempts: [] }
+    };
+    this.recordUsage(request, response);
+    return response;
+  }
+
+  private storeInCache(provider: LLMProvider, request: LLMRequest, response: LLMResponse): LLMResponse {
+    this.responseCache?.set(this.cacheKeyFor(provider, request), response);
+    return response;
+  }
+
+  /**
+   * Stream a completion from the best available provider.
+   * Retries and fallback apply only until the first token is emitted;
+   * after that a failure propagates to the caller.
+   */
+  generateStream(request: LLMRequest): LLMStream {
+    let resolveResponse!: (response: LLMResponse) => void;
+    let rejectResponse!: (error: unknown) => void;
+    const response = new Promise<LLMResponse>((resolve, reject) => {
+      resolveResponse = resolve;
+      rejectResponse = reject;
+    });
+    // Callers that only iterate should not see an unhandled rejection
+    response.catch(() => undefined);
+
+    const self = this;
+    async function* run(): AsyncGenerator<LLMStreamEvent> {
+      try {
+        const final = yield* self.runStream(request);
+        resolveResponse(final);
+        yield { type: 'done', response: final };
+      } catch (error) {
+        rejectResponse(error);
+        throw error;
+      }
+    }
+
+    const events = run();
+    return {
+      response,
+      [Symbol.asyncIterator]: () => events
+    };
+  }
+
+  private async *runStream(request: LLMRequest): AsyncGenerator<LLMStreamEvent, LLMResponse> {
+    const span = this.telemetry.startSpan('llm.stream', requestAttributes(request, 'chat'));
+    try {
+      const response = yield* this.streamWithFallback(request, span);
+      this.recordRequestOutcome(span, response);
+      return response;
+    } catch (error) {
+      this.recordRequestOutcome(span, null, error);
+      throw error;
+    } finally {
+      // Also ends the span when the caller stops iterating early
+      span.end();
+    }
+  }
+
+  private async *streamWithFallback(request: LLMRequest, span: Span): AsyncGenerator<LLMStreamEvent, LLMResponse> {
+    request = this.applyTemplate(await loadMedia(request)).request;
+    this.validateRequest(request);
+    const provider = this.selectProvider(this.applyBudgets(request));
+
+    if (!provider) {
+      throw new Error('No LLM provider available');
+    }
+
+    const { request: rendered, template } = this.applyTemplate(request, provider);
+    const startTime = Date.now();
+    const { request: fitted, report } = await this.fitToContext(provider, rendered, span);
+    const cached = this.lookupCache(provider, fitted, startTime);
+    if (cached) {
+      yield { type: 'delta', text: cached.text, provider: cached.provider };
+      return this.withTemplate(this.withContextReport(cached, report), template);
+    }
+
+    const scope = createAbortScope(fitted.signal, fitted.timeoutMs);
+    const scoped: LLMRequest = { ...fitted, signal: scope.signal };
+    try {
+      const response = yield* this.executeWithFallback(scoped, provider, startTime, (p, signal) => this.attemptStream(p, { ...scoped, signal }), span);
+      return this.withTemplate(this.withContextReport(response, report), template);
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * Walk the fallback chain, retrying retryable errors with backoff.
+   * Each attempt is an event generator so streamed and single-shot
+   * calls share the same policy; once an attempt has yielded output
+   * it can no longer be retried.
+   */
+  private async *executeWithFallback(
+    request: LLMRequest,
+    primary: LLMProvider,
+    startTime: number,
+    attempt: (provider: LLMProvider, signal: AbortSignal) => AsyncGenerator<LLMStreamEvent, ProviderResult>,
+    span?: Span
+  ): AsyncGenerator<LLMStreamEvent, LLMResponse> {
+    const policy: FallbackPolicy = { ...this.fallbackPolicy, ...request.fallbackPolicy };
+    const attempts: LLMAttempt[] = [];
+    let lastError: unknown = new Error('No LLM provider available');
+
+    for (const provider of this.getFallbackChain(primary, policy.maxProviders, request)) {
+      if (provider !== primary && !this.isSelectable(provider, request)) continue;
+      if (attempts.length > 0) {
+        const from = attempts[attempts.length - 1].provider;
+        console.log(`[LLM Orchestrator] Falling back to ${provider.name}`);
+        span?.addEvent('fallback', { from, to: provider.name });
+        this.instruments.fallbacks.inc({ from, to: provider.name });
+      }
+
+      for (let attemptNumber = 1; attemptNumber <= policy.maxRetriesPerProvider + 1; attemptNumber++) {
+        throwIfAborted(request.signal);
+        const release = await this.scheduler.acquire(provider.name, this.queueTicket(request));
+
+        const reservedTokens = this.estimateRequestTokens(provider, request);
+        if (request.rateLimitWaitMs !== undefined) {
+          try {
+            await this.rateLimiter.acquire(provider.name, reservedTokens, request.rateLimitWaitMs, request.signal);
+          } catch (error) {
+            release();
+            throw error;
+          }
+        } else if (!this.rateLimiter.tryAcquire(provider.name, reservedTokens)) {
+          release();
+          break;
+        }
+
+        const breaker = this.circuitBreakers.get(provider.name);
+        if (breaker && !breaker.tryAcquire()) {
+          this.rateLimiter.settle(provider.name, reservedTokens, 0);
+          release();
+          break;
+        }
+
+        const attemptStart = Date.now();
+        const timeoutMs = request.attemptTimeoutMs ?? provider.timeoutMs ?? DEFAULT_ATTEMPT_TIMEOUT_MS;
+        const attemptScope = createAbortScope(
+          request.signal,
+          timeoutMs,
+          () => new LLMTimeoutError('attempt', timeoutMs, provider.name)
+        );
+        let emitted = false;
+        let settled = false; // the attempt ended in success or failure rather than being abandoned
+        let retryDelayMs: number | undefined;
+        this.recordRequest(provider);
+        const attemptSpan = this.telemetry.startSpan('llm.attempt', attemptAttributes(provider, attemptNumber), { parent: span, kind: 'client' });
+        const run = attempt(provider, attemptScope.signal);
+
+        try {
+          let step = await run.next();
+          while (!step.done) {
+            // The timeout bounds time to first output; a stream that has started may run long
+            attemptScope.disarm();
+            emitted = true;
+            yield step.value;
+            // Output the provider already delivered must not outlive a cancellation
+            if (attemptScope.signal.aborted) {
+              await run.return(undefined as never).catch(() => undefined);
+              throw abortReason(attemptScope.signal);
+            }
+            step = await run.next();
+          }
+
+          settled = true;
+          breaker?.recordSuccess();
+          this.providerStats.record(modelKey(provider), Date.now() - attemptStart, true);
+          const record: LLMAttempt = {
+            provider: provider.name,
+            model: provider.model,
+            attempt: attemptNumber,
+            outcome: 'success',
+            latency: Date.now() - attemptStart
+          };
+          attempts.push(record);
+          this.recordAttempt(record, attemptSpan);
+          const response = this.buildResponse(provider, request, step.value, startTime);
+          response.metadata = { attempts };
+          this.rateLimiter.settle(provider.name, reservedTokens, response.tokensUsed);
+          this.recordUsage(request, response);
+          return this.storeInCache(provider, request, response);
+        } catch (caught) {
+          settled = true;
+          // Report why the attempt was aborted rather than the transport's generic AbortError
+          const error = attemptScope.signal.aborted ? abortReason(attemptScope.signal) : caught;
+          const classification = classifyError(error);
+          const record: LLMAttempt = {
+            provider: provider.name,
+            model: provider.model,
+            attempt: attemptNumber,
+            outcome: 'error',
+            latency: Date.now() - attemptStart,
+            errorKind: classification.kind,
+            status: classification.status,
+            message: errorMessage(error)
+          };
+          attempts.push(record);
+          lastError = error;
+          attemptSpan.recordError(error);
+          this.recordAttempt(record, attemptSpan);
+          this.rateLimiter.settle(provider.name, reservedTokens, 0);
+          // Free the slot before any backoff so queued requests can use it
+          release();
+
+          // Cancellation and the request deadline end the whole request, not just this provider
+          if (request.signal?.aborted) {
+            breaker?.release();
+            throw abortReason(request.signal);
+          }
+
+          // A malformed request says nothing about the provider's health
+          if (classification.kind !== 'invalid_request') {
+            breaker?.recordFailure(record.message);
+            this.providerStats.record(modelKey(provider), record.latency, false);
+          } else {
+            breaker?.release();
+          }
+
+          // Output already reached the caller, so it cannot be replayed elsewhere
+          if (emitted) throw error;
+          if (!classification.retryable || attemptNumber > policy.maxRetriesPerProvider) break;
+
+          const delay = computeBackoff(attemptNumber, policy, classification.retryAfterMs);
+          if (delay > policy.maxDelayMs) break; // Server asked us to wait longer than we will
+
+          record.retryDelayMs = delay;
+          attemptSpan.setAttributes({ 'llm.retry_delay_ms': delay });
+          retryDelayMs = delay;
+        } finally {
+          if (!settled) {
+            // The consumer stopped reading mid-stream: stop the provider call and hand back what the attempt held
+            attemptScope.abort(new LLMCancelledError('Stream consumer stopped reading'));
+            await run.return(undefined as never).catch(() => undefined);
+            breaker?.release();
+            this.rateLimiter.settle(provider.name, reservedTokens, 0);
+          }
+          attemptSpan.end();
+          attemptScope.dispose();
+          release();
+        }
+
+        // The backoff belongs to the request, not to this attempt, so it starts after the span has ended
+        if (retryDelayMs !== undefined) await sleep(retryDelayMs, request.signal);
+      }
+    }
+
+    throw new LLMFallbackExhaustedError(attempts, lastError);
+  }
+
+  /**
+   * Record a finished provider attempt on its span and in the attempt metrics
+   */
+  private recordAttempt(record: LLMAttempt, span: Span): void {
+    const labels = { provider: record.provider, model: record.model, outcome: record.outcome };
+    span.setAttributes(attemptOutcomeAttributes(record));
+    this.instruments.attempts.inc({ ...labels, error_kind: record.errorKind });
+    this.instruments.attemptDuration.observe(labels, record.latency);
+  }
+
+  private async *attemptCall(provider: LLMProvider, request: LLMRequest): AsyncGenerator<LLMStreamEvent, ProviderResult> {
+    return this.callProvider(provider, request);
+  }
+
+  private async *attemptStream(provider: LLMProvider, request: LLMRequest): AsyncGenerator<LLMStreamEvent, ProviderResult> {
+    // Tool calls need the complete response, so tool requests are not streamed
+    if (request.tools && request.tools.length > 0) {
+      const result = await this.callProvider(provider, request);
+      if (result.text) {
+        yield { type: 'delta', text: result.text, provider: provider.name };
+      }
+      return result;
+    }
+
+    let text = '';
+    let promptTokens: number | undefined;
+    let completionTokens: number | undefined;
+
+    const credential = this.credentialFor(provider);
+    const { request: redacted, vault } = this.redactFor(provider, request);
+    const restorer = vault?.streamRestorer();
+    const prepared = applyResponseFormat(redacted, this.supportsNativeJson(provider));
+    for await (const delta of streamProviderRequest(provider, prepared, credential, this.fetchProvider)) {
+      if (delta.usage?.promptTokens !== undefined) promptTokens = delta.usage.promptTokens;
+      if (delta.usage?.completionTokens !== undefined) completionTokens = delta.usage.completionTokens;
+      const restored = delta.text && restorer ? restorer.push(delta.text) : delta.text;
+      if (restored) {
+        text += restored;
+        yield { type: 'delta', text: restored, provider: provider.name };
+      }
+    }
+    const held = restorer?.flush();
+    if (held) {
+      text += held;
+      yield { type: 'delta', text: held, provider: provider.name };
+    }
+
+    const usage = promptTokens !== undefined && completionTokens !== undefined
+      ? { promptTokens, completionTokens }
+      : undefined;
+    return { text, usage };
+  }
+
+  /**
+   * Build an LLMResponse from a provider result, estimating usage
+   * when the provider did not report it
+   */
+  private buildResponse(
+    provider: LLMProvider,
+    request: LLMRequest,
+    result: ProviderResult,
+    startTime: number
+  ): LLMResponse {
+    const tokenizer = this.tokenizerFor(provider);
+    const promptTokens = result.usage?.promptTokens ?? countRequestTokens(request, tokenizer);
+    const completionTokens = result.usage?.completionTokens ?? tokenizer.count(result.text);
+
+    return {
+      text: result.text,
+      provider: provider.name,
+      model: provider.model,
+      tokensUsed: promptTokens + completionTokens,
+      promptTokens,
+      completionTokens,
+      cost: calculateCost(provider.pricing, promptTokens, completionTokens),
+      latency: Date.now() - startTime,
+      cached: false,
+      ...(result.toolCalls && result.toolCalls.length > 0 ? { toolCalls: result.toolCalls } : {})
+    };
+  }
+
+  /**
+   * Record a completed call in the cost ledger
+   */
+  private recordUsage(request: LLMRequest, response: LLMResponse): void {
+    if (!response.cached) this.recordSpendMetrics(response.provider, response.model, response.promptTokens, response.completionTokens, response.cost);
+    this.costLedger.record({
+      timestamp: Date.now(),
+      provider: response.provider,
+      model: response.model,
+      sessionId: request.sessionId,
+      promptTokens: response.cached ? 0 : response.promptTokens,
+      completionTokens: response.cached ? 0 : response.completionTokens,
+      cost: response.cost,
+      cached: response.cached
+    });
+  }
+
+  private recordSpendMetrics(provider: string, model: string, promptTokens: number, completionTokens: number, cost: number): void {
+    const labels = { provider, model };
+    this.instruments.tokens.inc({ ...labels, type: 'prompt' }, promptTokens);
+    this.instruments.tokens.inc({ ...labels, type: 'completion' }, completionTokens);
+    this.instruments.cost.inc(labels, cost);
+  }
+
+  /**
+   * Access the cost ledger for spend queries and budget caps
+   */
+  getCostLedger(): CostLedger {
+    return this.costLedger;
+  }
+
+  private queueTicket(request: Pick<LLMRequest, 'priority' | 'tenantId' | 'sessionId' | 'signal'>): QueueTicket {
+    return {
+      priority: request.priority,
+      tenant: request.tenantId ?? request.sessionId,
+      signal: request.signal
+    };
+  }
+
+  /**
+   * Change how many calls a provider may run at once
+   */
+  setProviderConcurrency(name: string, limit: number): void {
+    if (!this.providers.has(name)) {
+      throw new Error(`Unknown provider: ${name}`);
+    }
+    this.scheduler.configure(name, limit);
+  }
+
+  /**
+   * Get the ordered list of providers to try, starting with the primary
+   * and continuing in routing policy order
+   */
+  private getFallbackChain(primary: LLMProvider, maxProviders: number, request: LLMRequest): LLMProvider[] {
+    const others = this.rankProviders(
+      request,
+      this.getCandidateModels(request).filter(p => p.name !== primary.name && this.fitsContext(p, request))
+    );
+    return [primary, ...others].slice(0, Math.max(1, maxProviders));
+  }
+
+  /**
+   * Call a specific provider
+   */
+  private async callProvider(provider: LLMProvider, original: LLMRequest): Promise<ProviderResult> {
+    const { request, vault } = this.redactFor(provider, original);
+    const result = await this.sendToProvider(provider, request);
+    return vault ? restoreResult(result, vault) : result;
+  }
+
+  private async sendToProvider(provider: LLMProvider, original: LLMRequest): Promise<ProviderResult> {
+    const credential = this.credentialFor(provider);
+    const request = applyResponseFormat(original, this.supportsNativeJson(provider));
+    if (!request.tools || request.tools.length === 0 || this.supportsNativeTools(provider)) {
+      return sendProviderRequest(provider, request, credential, this.fetchProvider);
+    }
+
+    const result = await sendProviderRequest(provider, emulateTools(request), credential, this.fetchProvider);
+    const toolCalls = parseEmulatedToolCalls(result.text);
+    return toolCalls.length > 0 ? { ...result, text: '', toolCalls } : result;
+  }
+
+  /**
+   * Replace the privacy policy's settings
+   */
+  setPrivacyPolicy(policy: Partial<PrivacyPolicy>): void {
+    this.privacyPolicy = { ...this.privacyPolicy, ...policy };
+  }
+
+  /**
+   * Replace the size limits applied to image, document and audio parts
+   */
+  setMediaLimits(limits: Partial<MediaLimits>): void {
+    this.mediaLimits = { ...this.mediaLimits, ...limits };
+  }
+
+  /**
+   * Whether the privacy policy lets a request reach a provider: sensitive
+   * requests stay local, remote providers must be in an allowed region
+   */
+  private isPermitted(provider: LLMProvider, request: Pick<LLMRequest, 'sensitive'>): boolean {
+    if (isLocalProvider(provider)) return true;
+    if (request.sensitive && this.privacyPolicy.sensitiveLocalOnly) return false;
+
+    const allowed = this.privacyPolicy.allowedRegions;
+    return !allowed || (provider.region !== undefined && allowed.includes(provider.region));
+  }
+
+  private shouldRedact(provider: LLMProvider, request: Pick<LLMRequest, 'redact'>): boolean {
+    const mode = request.redact === false
+      ? 'none'
+      : request.redact === true && this.privacyPolicy.redact === 'none' ? 'remote' : this.privacyPolicy.redact;
+    return mode === 'all' || (mode === 'remote' && !isLocalProvider(provider));
+  }
+
+  /**
+   * Redact a request bound for a provider when the privacy policy calls
+   * for it; the returned vault restores the provider's response
+   */
+  private redactFor(provider: LLMProvider, request: LLMRequest): { request: LLMRequest; vault: RedactionVault | null } {
+    if (!this.shouldRedact(provider, request)) return { request, vault: null };
+
+    const vault = new RedactionVault();
+    const redacted = redactRequest(request, this.privacyPolicy.filters, vault);
+    if (vault.size > 0) {
+      const kinds = Object.entries(vault.summary()).map(([kind, count]) => `${count} ${kind}`);
+      console.log(`[LLM Orchestrator] Redacted ${kinds.join(', ')} before sending to ${provider.name}`);
+    }
+    return { request: redacted, vault };
+  }
+
+  /**
+   * Whether a provider can take tool definitions in its own wire format
+   */
+  private supportsNativeTools(provider: LLMProvider): boolean {
+    return Boolean(providerAdapters[provider.format]?.supportsTools)
+      && provider.capabilities.includes('function-calling');
+  }
+
+  /**
+   * Whether a provider/model pair can take every given kind of media:
+   * its wire format must carry it and the model must have the capability
+   */
+  private acceptsMedia(provider: LLMProvider, kinds: MediaKind[]): boolean {
+    const carried = providerAdapters[provider.format]?.mediaKinds || [];
+    return kinds.every(kind => carried.includes(kind) && provider.capabilities.includes(MEDIA_CAPABILITIES[kind]));
+  }
+
+  /**
+   * Whether a provider has a native JSON output mode
+   */
+  private supportsNativeJson(provider: LLMProvider): boolean {
+    return Boolean(providerAdapters[provider.format]?.supportsJsonMode)
+      && provider.capabilities.includes('json-mode');
+  }
+
+  /**
+   * Generate JSON and return it parsed and validated. Invalid replies
+   * are sent back to the model with the validation errors until it
+   * produces a valid value or the repair allowance runs out.
+   */
+  async generateStructured<T = unknown>(
+    request: LLMRequest,
+    options: StructuredOutputOptions<T> = {}
+  ): Promise<StructuredResult<T>> {
+    return this.generateStructuredWithin(request, options);
+  }
+
+  private async generateStructuredWithin<T>(
+    request: LLMRequest,
+    options: StructuredOutputOptions<T>,
+    parent?: Span
+  ): Promise<StructuredResult<T>> {
+    const maxRepairs = options.maxRepairs ?? 2;
+    const { request: { template: _, ...rendered }, template } = this.applyTemplate(request);
+    request = rendered;
+    const messages: LLMMessage[] = [...(request.messages || [])];
+    if (request.prompt) {
+      messages.push({ role: 'user', content: request.prompt });
+    }
+
+    let errors: string[] = [];
+    let lastText = '';
+
+    for (let repairs = 0; repairs <= maxRepairs; repairs++) {
+      const response = await this.generateWithin({
+        ...request,
+        prompt: undefined,
+        messages: [...messages],
+        responseFormat: { type: 'json', schema: options.schema }
+      }, parent);
+
+      const result = checkStructuredReply(response.text, options);
+      if (result.ok) {
+        return { value: result.value, response: this.withTemplate(response, template), repairs };
+      }
+
+      errors = result.errors;
+      lastText = response.text;
+      console.log(`[LLM Orchestrator] Structured output from ${response.provider} invalid: ${errors[0]}`);
+      messages.push({ role: 'assistant', content: response.text }, { role: 'user', content: repairPrompt(errors) });
+    }
+
+    throw new StructuredOutputError(errors, lastText, maxRepairs);
+  }
+
+  /**
+   * Generate with tools, executing each requested call through the
+   * registry and feeding results back until the model answers in text
+   */
+  async generateWithTools(
+    request: LLMRequest,
+    registry: ToolRegistry,
+    options: { maxIterations?: number } = {}
+  ): Promise<ToolLoopResult> {
+    const maxIterations = options.maxIterations ?? 8;
+    const { request: { template: _, ...rendered }, template } = this.applyTemplate(request);
+    request = rendered;
+    const messages: LLMMessage[] = [...(request.messages || [])];
+    if (request.prompt) {
+      messages.push({ role: 'user', content: request.prompt });
+    }
+
+    const tools = [...(request.tools || []), ...registry.definitions()];
+    const executions: ToolLoopResult['executions'] = [];
+    let toolChoice = request.toolChoice;
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      const response = await this.generate({ ...request, prompt: undefined, messages: [...messages], tools, toolChoice });
+      if (!response.toolCalls || response.toolCalls.length === 0) {
+        return { response: this.withTemplate(response, template), messages, executions };
+      }
+
+      messages.push({ role: 'assistant', content: response.text, toolCalls: response.toolCalls });
+      const results = await Promise.all(response.toolCalls.map(call => registry.execute(call)));
+      executions.push(...results);
+      messages.push(...results.map(toolResultMessage));
+
+      // A forced tool choice applies to the first turn only, otherwise the loop never ends
+      if (toolChoice === 'required' || typeof toolChoice === 'object') {
+        toolChoice = 'auto';
+      }
+    }
+
+    throw new Error(`Tool loop did not produce a final answer within ${maxIterations} iterations`);
+  }
+
+  /**
+   * Send a request to several providers in parallel and combine the
+   * answers with the chosen strategy. Each member runs its own retry
+   * policy but never falls back to another provider, so every output
+   * is attributable. With 'first', members still running when the
+   * first answer arrives finish in the background and are reported
+   * as pending; their cost is not in totalCost.
+   */
+  async generateEnsemble(request: LLMRequest, options: EnsembleOptions): Promise<EnsembleResult> {
+    const span = this.telemetry.startSpan('llm.ensemble', {
+      ...requestAttributes(request, 'chat'),
+      'llm.ensemble.strategy': options.strategy
+    });
+    try {
+      const result = await this.runEnsemble(request, options, span);
+      span.setAttributes({ 'gen_ai.system': result.response.provider, 'llm.cost_usd': result.totalCost });
+      return result;
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  private async runEnsemble(request: LLMRequest, options: EnsembleOptions, span: Span): Promise<EnsembleResult> {
+    request = this.applyTemplate(await loadMedia(request)).request;
+    this.validateRequest(request);
+    // Blocking caps still reject the request; downgrading would collapse the ensemble to one provider
+    this.applyBudgets(request);
+
+    const members = this.selectEnsembleMembers(request, options);
+    if (members.length === 0) {
+      throw new Error('No LLM provider available');
+    }
+
+    const startTime = Date.now();
+    const outputs: EnsembleOutput[] = members.map(provider => ({ provider: provider.name, status: 'pending' }));
+    const runs = members.map((provider, index) =>
+      this.generateOn(provider, request, span).then(
+        response => {
+          outputs[index] = { provider: provider.name, status: 'success', response };
+          return response;
+        },
+        error => {
+          outputs[index] = { provider: provider.name, status: 'error', error: errorMessage(error) };
+          throw error;
+        }
+      )
+    );
+
+    if (options.strategy === 'first') {
+      const first = await new Promise<LLMResponse | null>(resolve => {
+        let remaining = runs.length;
+        for (const run of runs) {
+          run.then(resolve, () => {
+            if (--remaining === 0) resolve(null);
+          });
+        }
+      });
+      if (!first) throw this.ensembleFailure(outputs);
+      // Snapshot, since members still running keep updating their slot
+      return this.buildEnsembleResult(options, first, [...outputs], startTime);
+    }
+
+    await Promise.all(runs.map(run => run.catch(() => undefined)));
+    const succeeded = outputs.filter(output => output.status === 'success');
+    if (succeeded.length === 0) throw this.ensembleFailure(outputs);
+
+    const texts = succeeded.map(output => output.response!.text);
+    const question = conversationText(request);
+    const combiner = options.combiner ?? members[0].name;
+
+    if (options.strategy === 'majority') {
+      const votes = tallyVotes(texts);
+      let winner = normalizeAnswer(texts[0]);
+      votes.forEach((count, answer) => {
+        if (count > votes.get(winner)!) winner = answer;
+      });
+      const chosen = succeeded.find(output => normalizeAnswer(output.response!.text) === winner)!;
+      return this.buildEnsembleResult(options, chosen.response!, outputs, startTime, {
+        votes: Object.fromEntries(votes),
+        agreement: votes.get(winner)! / succeeded.length
+      });
+    }
+
+    if (options.strategy === 'judge') {
+      if (succeeded.length === 1) {
+        return this.buildEnsembleResult(options, succeeded[0].response!, outputs, startTime);
+      }
+      const schema = {
+        ...JUDGE_SCHEMA,
+        properties: { ...(JUDGE_SCHEMA.properties as object), best: { type: 'integer', minimum: 1, maximum: texts.length } }
+      };
+      const verdict = await this.generateStructuredWithin<{ best: number; reason?: string }>(
+        {
+          prompt: judgePrompt(question, texts),
+          preferredProvider: combiner,
+          sessionId: request.sessionId,
+          temperature: 0,
+          sensitive: request.sensitive,
+          redact: request.redact,
+          signal: request.signal
+        },
+        { schema },
+        span
+      );
+      return this.buildEnsembleResult(options, succeeded[verdict.value.best - 1].response!, outputs, startTime, {
+        combinerResponse: verdict.response
+      });
+    }
+
+    const synthesis = await this.generateWithin({
+      prompt: synthesisPrompt(question, texts),
+      preferredProvider: combiner,
+      sessionId: request.sessionId,
+      maxTokens: request.maxTokens,
+      sensitive: request.sensitive,
+      redact: request.redact,
+      signal: request.signal
+    }, span);
+    return this.buildEnsembleResult(options, synthesis, outputs, startTime, { combinerResponse: synthesis });
+  }
+
+  /**
+   * Explicitly named members, or the top-ranked selectable providers
+   * with the required capabilities
+   */
+  private selectEnsembleMembers(request: LLMRequest, options: EnsembleOptions): LLMProvider[] {
+    const available = this.getCandidateModels(request);
+    if (options.providers) {
+      return options.providers
+        .map(name => available.find(provider => provider.name === name))
+        .filter((provider): provider is LLMProvider => provider !== undefined && this.isSelectable(provider, request));
+    }
+
+    const required = request.requiredCapabilities || [];
+    const candidates = available.filter(provider =>
+      required.every(cap => provider.capabilities.includes(cap)) && this.isSelectable(provider, request)
+    );
+    return this.rankProviders(request, candidates).slice(0, options.size ?? 3);
+  }
+
+  /**
+   * Generate on one specific provider, retrying but never falling back
+   */
+  private async generateOn(provider: LLMProvider, request: LLMRequest, parent?: Span): Promise<LLMResponse> {
+    return this.traceRequest('llm.generate', { ...request, preferredProvider: provider.name }, async span => {
+      const { request: rendered, template } = this.applyTemplate(request, provider);
+      const startTime = Date.now();
+      const { request: fitted, report } = await this.fitToContext(provider, rendered, span);
+      const cached = this.lookupCache(provider, fitted, startTime);
+      if (cached) return this.withTemplate(this.withContextReport(cached, report), template);
+
+      const pinned: LLMRequest = { ...fitted, fallbackPolicy: { ...fitted.fallbackPolicy, maxProviders: 1 } };
+      const response = await this.withRequestScope(pinned, scoped => this.runToCompletion(scoped, provider, startTime, span));
+      return this.withTemplate(this.withContextReport(response, report), template);
+    }, parent);
+  }
+
+  private buildEnsembleResult(
+    options: EnsembleOptions,
+    response: LLMResponse,
+    outputs: EnsembleOutput[],
+    startTime: number,
+    extra: Partial<Pick<EnsembleResult, 'votes' | 'agreement' | 'combinerResponse'>> = {}
+  ): EnsembleResult {
+    const succeeded = outputs.filter(output => output.status === 'success');
+    const scores = agreementScores(succeeded.map(output => output.response!.text));
+    succeeded.forEach((output, index) => {
+      output.agreement = scores[index];
+    });
+
+    const memberCost = succeeded.reduce((sum, output) => sum + output.response!.cost, 0);
+    return {
+      text: response.text,
+      strategy: options.strategy,
+      response,
+      outputs,
+      agreement: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+      totalCost: memberCost + (extra.combinerResponse?.cost ?? 0),
+      latency: Date.now() - startTime,
+      ...extra
+    };
+  }
+
+  private ensembleFailure(outputs: EnsembleOutput[]): Error {
+    const reasons = outputs.map(output => `${output.provider}: ${output.error ?? output.status}`).join('; ');
+    return new Error(`All ensemble providers failed (${reasons})`);
+  }
+
+  /**
+   * Run many requests as one job. Items whose provider has a vendor
+   * batch endpoint are sent there at the vendor's discount; the rest go
+   * out as ordinary requests at 'batch' priority, waiting for rate limit
+   * capacity rather than failing. With a checkpoint file, running the
+   * same requests again resumes the job. A failed item is reported in
+   * its result and does not fail the batch.
+   */
+  async generateBatch(requests: LLMRequest[], options: BatchOptions = {}): Promise<BatchResult> {
+    const checkpoint = BatchCheckpoint.open(
+      options.checkpointFile,
+      requests,
+      request => !options.persistPrivateResults && this.isPrivateRequest(request)
+    );
+    const retryFailed = options.retryFailed ?? true;
+    const submitted = new Set(checkpoint.vendorJobs.flatMap(job => job.indexes));
+    const todo = requests.map((_, index) => index).filter(index => {
+      const done = checkpoint.item(index);
+      return !submitted.has(index) && (!done || (done.status === 'error' && retryFailed));
+    });
+    const resumed = requests.length - todo.length - submitted.size;
+    const reportProgress = () => options.onProgress?.(checkpoint.progress(requests.length));
+
+    const span = this.telemetry.startSpan('llm.batch', { 'llm.batch.items': requests.length, 'llm.batch.resumed': resumed });
+    try {
+      const online = options.vendorBatch === false
+        ? todo
+        : await this.submitVendorBatches(requests, todo, checkpoint, options);
+      await Promise.all([
+        this.runOnlineBatchItems(requests, online, checkpoint, options, reportProgress),
+        this.awaitVendorBatches(requests, checkpoint, options, reportProgress)
+      ]);
+      throwIfAborted(options.signal);
+
+      const items = requests.map((_, index): BatchItemResult => checkpoint.item(index) ?? { index, status: 'pending' });
+      const progress = checkpoint.progress(requests.length);
+      span.setAttributes({ 'llm.batch.succeeded': progress.succeeded, 'llm.batch.failed': progress.failed, 'llm.batch.pending': progress.pending });
+      return {
+        ...progress,
+        items,
+        totalCost: items.reduce((sum, item) => sum + (item.response?.cost ?? 0), 0),
+        resumed
+      };
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      checkpoint.compact();
+      span.end();
+    }
+  }
+
+  /**
+   * Whether an answer may carry data the privacy policy keeps away
+   * from remote providers: sensitive requests and redacted ones, whose
+   * answers come back with the original values restored
+   */
+  private isPrivateRequest(request: LLMRequest): boolean {
+    return request.sensitive === true || (request.redact ?? this.privacyPolicy.redact !== 'none');
+  }
+
+  /**
+   * A batch item as sent: batch priority, patient with rate limits,
+   * and cancelled with the job
+   */
+  private batchRequest(request: LLMRequest, options: BatchOptions): LLMRequest {
+    return {
+      ...request,
+      priority: request.priority ?? 'batch',
+      rateLimitWaitMs: request.rateLimitWaitMs ?? options.rateLimitWaitMs ?? DEFAULT_BATCH_RATE_LIMIT_WAIT_MS,
+      signal: options.signal ?? request.signal
+    };
+  }
+
+  private async runOnlineBatchItems(
+    requests: LLMRequest[],
+    indexes: number[],
+    checkpoint: BatchCheckpoint,
+    options: BatchOptions,
+    reportProgress: () => void
+  ): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+      while (next < indexes.length && !options.signal?.aborted) {
+        const index = indexes[next++];
+        try {
+          const response = await this.generate(this.batchRequest(requests[index], options));
+          checkpoint.record({ index, status: 'success', response, via: 'online' });
+        } catch (error) {
+          // A cancelled item is left unfinished so a resumed job sends it again
+          if (options.signal?.aborted) return;
+          checkpoint.record({ index, status: 'error', error: batchError(error), via: 'online' });
+        }
+        reportProgress();
+      }
+    };
+
+    const workers = Math.min(options.concurrency ?? DEFAULT_BATCH_OPTIONS.concurrency, indexes.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+  }
+
+  /**
+   * Submit the items that can go to a vendor batch, grouped by model
+   * and split at each vendor's size limit. Returns the items to send
+   * online instead: those without a batch-capable provider and those
+   * whose submission failed.
+   */
+  private async submitVendorBatches(
+    requests: LLMRequest[],
+    indexes: number[],
+    checkpoint: BatchCheckpoint,
+    options: BatchOptions
+  ): Promise<number[]> {
+    const online: number[] = [];
+    const groups: Map<string, { provider: LLMProvider; items: VendorBatchItem[] }> = new Map();
+
+    for (const index of indexes) {
+      const target = await this.vendorBatchTarget(this.batchRequest(requests[index], options));
+      if (!target) {
+        online.push(index);
+        continue;
+      }
+      if ('cached' in target) {
+        checkpoint.record({ index, status: 'success', response: target.cached, via: 'online' });
+        continue;
+      }
+
+      const key = modelKey(target.provider);
+      const group = groups.get(key) ?? { provider: target.provider, items: [] };
+      group.items.push({ customId: String(index), request: target.request });
+      groups.set(key, group);
+    }
+
+    for (const { provider, items } of groups.values()) {
+      for (let start = 0; start < items.length; start += provider.batch!.maxItems) {
+        const chunk = items.slice(start, start + provider.batch!.maxItems);
+        const chunkIndexes = chunk.map(item => Number(item.customId));
+        try {
+          const status = await submitVendorBatch(provider, chunk, this.credentialFor(provider), this.fetchProvider, options.signal);
+          checkpoint.addVendorJob({
+            provider: provider.name,
+            model: provider.model,
+            batchId: status.id,
+            indexes: chunkIndexes,
+            submittedAt: Date.now()
+          });
+          console.log(`[LLM Orchestrator] Submitted batch ${status.id} to ${provider.name} (${chunk.length} requests)`);
+        } catch (error) {
+          throwIfAborted(options.signal);
+          console.log(`[LLM Orchestrator] Batch submission to ${provider.name} failed, sending ${chunk.length} requests individually: ${error instanceof Error ? error.message : String(error)}`);
+          online.push(...chunkIndexes);
+        }
+      }
+    }
+    return online;
+  }
+
+  /**
+   * Where a batch item would go: its routed provider, if that provider
+   * takes vendor batches and the item needs nothing only a live call
+   * can do (redaction, emulated tools, hedging). A cached answer is
+   * returned as-is. Items that fail validation go online and fail there.
+   */
+  private async vendorBatchTarget(
+    original: LLMRequest
+  ): Promise<{ provider: LLMProvider; request: LLMRequest } | { cached: LLMResponse } | null> {
+    try {
+      const request = this.applyTemplate(await loadMedia(original)).request;
+      this.validateRequest(request);
+      const provider = this.selectProvider(this.applyBudgets(request));
+      if (!provider || !supportsVendorBatch(provider) || request.hedge || this.shouldRedact(provider, request)) return null;
+      if (request.tools && request.tools.length > 0 && !this.supportsNativeTools(provider)) return null;
+
+      const { request: rendered, template } = this.applyTemplate(request, provider);
+      const { request: fitted } = await this.fitToContext(provider, rendered);
+      const cached = this.lookupCache(provider, fitted, Date.now());
+      if (cached) return { cached: this.withTemplate(cached, template) };
+      return { provider, request: applyResponseFormat(fitted, this.supportsNativeJson(provider)) };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Poll open vendor batches until each has ended, collecting results
+   * as they do. Stops early at maxWaitMs, leaving the rest pending.
+   */
+  private async awaitVendorBatches(
+    requests: LLMRequest[],
+    checkpoint: BatchCheckpoint,
+    options: BatchOptions,
+    reportProgress: () => void
+  ): Promise<void> {
+    const deadline = options.maxWaitMs !== undefined ? Date.now() + options.maxWaitMs : Infinity;
+
+    while (checkpoint.vendorJobs.length > 0) {
+      for (const job of checkpoint.vendorJobs) {
+        const provider = this.vendorJobProvider(job);
+        if (!provider) {
+          checkpoint.completeVendorJob(job.batchId, job.indexes.map(index => ({
+            index,
+            status: 'error',
+            error: { name: 'Error', message: `Provider ${job.provider} is no longer registered` },
+            via: 'vendor-batch'
+          })));
+          continue;
+        }
+
+        try {
+          const credential = this.credentialFor(provider);
+          const status = await getVendorBatchStatus(provider, job.batchId, credential, this.fetchProvider, options.signal);
+          if (status.state === 'running') continue;
+
+          const results = status.state === 'ended'
+            ? await getVendorBatchResults(provider, status, credential, this.fetchProvider, options.signal)
+            : [];
+          checkpoint.completeVendorJob(job.batchId, this.vendorBatchItems(provider, job, requests, results, status.error));
+          reportProgress();
+        } catch (error) {
+          throwIfAborted(options.signal);
+          // Polling failures are transient from the job's point of view; try again next round
+          console.log(`[LLM Orchestrator] Checking batch ${job.batchId} on ${provider.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      if (checkpoint.vendorJobs.length === 0 || Date.now() >= deadline) return;
+      const interval = options.pollIntervalMs ?? DEFAULT_BATCH_OPTIONS.pollIntervalMs;
+      await sleep(Math.min(interval, Math.max(0, deadline - Date.now())), options.signal);
+    }
+  }
+
+  private vendorJobProvider(job: VendorBatchJob): LLMProvider | null {
+    const provider = this.providers.get(job.provider);
+    const model = provider && modelsOf(provider).find(candidate => candidate.id === job.model);
+    return provider && model ? bindModel(provider, model) : null;
+  }
+
+  /**
+   * Item results of an ended or failed vendor batch, priced at the
+   * vendor's discount and recorded in the cost ledger
+   */
+  private vendorBatchItems(
+    provider: LLMProvider,
+    job: VendorBatchJob,
+    requests: LLMRequest[],
+    results: VendorBatchItemResult[],
+    failure?: string
+  ): BatchItemResult[] {
+    const discount = provider.batch?.discount ?? 1;
+    return job.indexes.map((index): BatchItemResult => {
+      const item = results.find(result => result.customId === String(index));
+      if (!item?.result) {
+        const message = item?.error ?? failure ?? 'Missing from the vendor batch results';
+        return { index, status: 'error', error: { name: 'VendorBatchError', message }, via: 'vendor-batch' };
+      }
+
+      const built = this.buildResponse(provider, requests[index], item.result, job.submittedAt);
+      const response: LLMResponse = {
+        ...this.withTemplate(built, this.applyTemplate(requests[index], provider).template),
+        cost: built.cost * discount,
+        metadata: { attempts: [], batch: { id: job.batchId, discount } }
+      };
+      this.recordUsage(requests[index], response);
+      return { index, status: 'success', response, via: 'vendor-batch' };
+    });
+  }
+
+  /**
+   * Embed one or more texts. Inputs are batched to the provider's
+   * limit and served from the embedding cache where possible. All
+   * vectors in a response come from the same model; if every
+   * embedding provider fails, the local embedder is used when set.
+   */
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    const inputs = Array.isArray(request.input) ? request.input : [request.input];
+    const span = this.telemetry.startSpan('llm.embed', {
+      'gen_ai.operation.name': 'embeddings',
+      'llm.preferred_provider': request.preferredProvider,
+      'llm.inputs': inputs.length
+    });
+
+    const scope = createAbortScope(request.signal, request.timeoutMs);
+    try {
+      const response = await this.embedWithFallback({ ...request, signal: scope.signal }, inputs, span);
+      const labels = { provider: response.provider, model: response.model };
+      span.setAttributes({
+        'gen_ai.system': response.provider,
+        'gen_ai.response.model': response.model,
+        'gen_ai.usage.input_tokens': response.tokensUsed,
+        'llm.cost_usd': response.cost,
+        'llm.cached_inputs': response.cachedInputs
+      });
+      this.instruments.requests.inc({ ...labels, outcome: 'success', cached: response.cachedInputs === inputs.length });
+      this.instruments.requestDuration.observe(labels, response.latency);
+      this.instruments.requestTokens.observe({ ...labels, type: 'prompt' }, response.tokensUsed);
+      return response;
+    } catch (error) {
+      span.recordError(error);
+      this.instruments.requests.inc({ outcome: 'error', error_type: error instanceof Error ? error.name : 'unknown' });
+      throw error;
+    } finally {
+      scope.dispose();
+      span.end();
+    }
+  }
+
+  private async embedWithFallback(request: EmbeddingRequest, inputs: string[], span: Span): Promise<EmbeddingResponse> {
+    if (inputs.length === 0) {
+      throw new Error('EmbeddingRequest needs at least one input');
+    }
+
+    const startTime = Date.now();
+    const local = this.localEmbedder;
+    if (local && request.preferredProvider === local.name) {
+      return this.embedLocally(local, inputs, request, startTime);
+    }
+
+    const attempts: LLMAttempt[] = [];
+    let lastError: unknown = new Error('No embedding provider available');
+
+    for (const provider of this.getEmbeddingProviders(request)) {
+      throwIfAborted(request.signal);
+      const config = provider.embeddings!;
+      // Queue first, so nothing is reserved while waiting for a slot
+      const release = await this.scheduler.acquire(provider.name, this.queueTicket(request));
+
+      const reservedTokens = inputs.reduce((sum, input) => sum + this.estimateTokens(input), 0);
+      if (!this.rateLimiter.tryAcquire(provider.name, reservedTokens)) {
+        release();
+        continue;
+      }
+
+      const breaker = this.circuitBreakers.get(provider.name);
+      if (breaker && !breaker.tryAcquire()) {
+        this.rateLimiter.settle(provider.name, reservedTokens, 0);
+        release();
+        continue;
+      }
+
+      const attemptStart = Date.now();
+      const credential = this.credentialFor(provider);
+      this.recordRequest(provider);
+      const attemptSpan = this.telemetry.startSpan(
+        'llm.attempt',
+        attemptAttributes({ ...provider, model: config.model, endpoint: config.endpoint }, 1),
+        { parent: span, kind: 'client' }
+      );
+
+      try {
+        const result = await this.embedInBatches(config.model, inputs, request, config.maxBatchSize, batch =>
+          sendEmbeddingRequest(
+            provider,
+            this.shouldRedact(provider, request) ? redactTexts(batch, this.privacyPolicy.filters, new RedactionVault()) : batch,
+            credential,
+            this.fetchProvider,
+            request.signal
+          )
+        );
+
+        breaker?.recordSuccess();
+        this.providerStats.record(modelKey({ name: provider.name, model: config.model }), Date.now() - attemptStart, true);
+        this.rateLimiter.settle(provider.name, reservedTokens, result.tokensUsed);
+        this.recordAttempt({
+          provider: provider.name,
+          model: config.model,
+          attempt: 1,
+          outcome: 'success',
+          latency: Date.now() - attemptStart
+        }, attemptSpan);
+
+        const response: EmbeddingResponse = {
+          ...result,
+          provider: provider.name,
+          model: config.model,
+          cost: calculateCost({ inputPerMillion: config.inputPerMillion, outputPerMillion: 0 }, result.tokensUsed, 0),
+          latency: Date.now() - startTime
+        };
+        this.recordEmbeddingUsage(request, response, inputs.length);
+        return response;
+      } catch (error) {
+        const classification = classifyError(error);
+        const record: LLMAttempt = {
+          provider: provider.name,
+          model: config.model,
+          attempt: 1,
+          outcome: 'error',
+          latency: Date.now() - attemptStart,
+          errorKind: classification.kind,
+          status: classification.status,
+          message: errorMessage(error)
+        };
+        attempts.push(record);
+        lastError = error;
+        attemptSpan.recordError(error);
+        this.recordAttempt(record, attemptSpan);
+        this.rateLimiter.settle(provider.name, reservedTokens, 0);
+
+        if (request.signal?.aborted) {
+          breaker?.release();
+          throw abortReason(request.signal);
+        }
+        if (classification.kind !== 'invalid_request') {
+          breaker?.recordFailure(errorMessage(error));
+          this.providerStats.record(modelKey({ name: provider.name, model: config.model }), Date.now() - attemptStart, false);
+        } else {
+          breaker?.release();
+        }
+        console.log(`[LLM Orchestrator] Embedding with ${provider.name} failed: ${errorMessage(error)}`);
+      } finally {
+        attemptSpan.end();
+        release();
+      }
+    }
+
+    throwIfAborted(request.signal);
+    if (local) {
+      return this.embedLocally(local, inputs, request, startTime);
+    }
+    throw new LLMFallbackExhaustedError(attempts, lastError);
+  }
+
+  /**
+   * Replace the embedding cache, or pass null to disable it
+   */
+  setEmbeddingCache(cache: EmbeddingCache | null): void {
+    this.embeddingCache = cache;
+  }
+
+  /**
+   * Set the in-process embedder used offline and as the last fallback
+   */
+  setLocalEmbedder(embedder: LocalEmbedder | null): void {
+    this.localEmbedder = embedder;
+  }
+
+  /**
+   * Providers with an embedding model, preferred provider first
+   */
+  private getEmbeddingProviders(request: EmbeddingRequest): LLMProvider[] {
+    const candidates = this.getAvailableProviders().filter(provider => {
+      const breaker = this.circuitBreakers.get(provider.name);
+      return provider.capabilities.includes('embeddings')
+        && supportsEmbeddings(provider)
+        && this.isPermitted(provider, request)
+        && (!breaker || breaker.isAvailable());
+    });
+
+    const preferred = candidates.find(provider => provider.name === request.preferredProvider);
+    return preferred ? [preferred, ...candidates.filter(p => p !== preferred)] : candidates;
+  }
+
+  private async embedLocally(
+    embedder: LocalEmbedder,
+    inputs: string[],
+    request: EmbeddingRequest,
+    startTime: number
+  ): Promise<EmbeddingResponse> {
+    const result = await this.embedInBatches(embedder.model, inputs, request, inputs.length, batch => embedder.embed(batch));
+    const response: EmbeddingResponse = {
+      ...result,
+      provider: embedder.name,
+      model: embedder.model,
+      cost: 0,
+      latency: Date.now() - startTime
+    };
+    this.recordEmbeddingUsage(request, response, inputs.length);
+    return response;
+  }
+
+  /**
+   * Embed the inputs missing from the cache in batches, then assemble
+   * vectors in input order
+   */
+  private async embedInBatches(
+    model: string,
+    inputs: string[],
+    request: EmbeddingRequest,
+    batchSize: number,
+    embedBatch: (batch: string[]) => Promise<EmbeddingResult>
+  ): Promise<Pick<EmbeddingResponse, 'vectors' | 'dimensions' | 'tokensUsed' | 'cachedInputs'>> {
+    const vectors: Array<number[] | undefined> = inputs.map(input =>
+      request.bypassCache ? undefined : this.embeddingCache?.get(model, input)
+    );
+    const missing = inputs.map((_, index) => index).filter(index => !vectors[index]);
+    let tokensUsed = 0;
+
+    for (const batch of batchInputs(missing, batchSize)) {
+      const texts = batch.map(index => inputs[index]);
+      const result = await embedBatch(texts);
+      tokensUsed += result.promptTokens ?? texts.reduce((sum, text) => sum + this.estimateTokens(text), 0);
+
+      batch.forEach((index, position) => {
+        vectors[index] = result.vectors[position];
+        this.embeddingCache?.set(model, inputs[index], result.vectors[position]);
+      });
+    }
+
+    const output = (vectors as number[][]).map(vector => request.normalize === false ? vector : normalizeVector(vector));
+    return {
+      vectors: output,
+      dimensions: output[0]?.length ?? 0,
+      tokensUsed,
+      cachedInputs: inputs.length - missing.length
+    };
+  }
+
+  private recordEmbeddingUsage(request: EmbeddingRequest, response: EmbeddingResponse, inputCount: number): void {
+    this.recordSpendMetrics(response.provider, response.model, response.tokensUsed, 0, response.cost);
+    this.costLedger.record({
+      timestamp: Date.now(),
+      provider: response.provider,
+      model: response.model,
+      sessionId: request.sessionId,
+      promptTokens: response.tokensUsed,
+      completionTokens: 0,
+      cost: response.cost,
+      cached: response.cachedInputs === inputCount
+    });
+  }
+
+  /**
+   * Estimate token count when no specific model is involved
+   */
+  private estimateTokens(text: string): number {
+    return builtInTokenizers.generic.count(text);
+  }
+
+  /**
+   * Get orchestrator status
+   */
+  getStatus(): {
+    totalProviders: number;
+    configuredProviders: number;
+    providerDetails: Array<{
+      name: string;
+      available: boolean;
+      priority: number;
+      requestCount: number;
+      capabilities: string[];
+      stats: ProviderStatsSnapshot; // default model
+      models: Array<{
+        id: string;
+        aliases: string[];
+        contextWindow: number | null;
+        stats: ProviderStatsSnapshot;
+      }>;
+      rateLimit: RateLimitSnapshot | null;
+      circuit: CircuitSnapshot | null;
+      health: ProviderHealth | null;
+      queue: QueueSnapshot | null;
+    }>;
+    cache: ResponseCacheStats;
+    spend: LedgerTotals;
+    queue: { active: number; queued: number };
+  } {
+    const providerDetails = Array.from(this.providerConfigs.values()).map(config => ({
+      name: config.name,
+      available: this.providers.has(config.name),
+      priority: config.priority,
+      requestCount: this.requestCounts.get(config.name) || 0,
+      capabilities: config.capabilities,
+      stats: this.providerStats.snapshot(modelKey(config)),
+      models: modelsOf(config).map(model => ({
+        id: model.id,
+        aliases: model.aliases,
+        contextWindow: model.contextWindow ?? null,
+        stats: this.providerStats.snapshot(modelKey({ name: config.name, model: model.id }))
+      })),
+      rateLimit: this.rateLimiter.snapshot(config.name),
+      circuit: this.circuitBreakers.get(config.name)?.snapshot() ?? null,
+      health: this.providerHealth.get(config.name) ?? null,
+      queue: this.scheduler.snapshot(config.name)
+    }));
+
+    return {
+      totalProviders: this.providerConfigs.size,
+      configuredProviders: this.providers.size,
+      providerDetails,
+      cache: this.responseCache
+        ? { enabled: true, ...this.responseCache.getStats() }
+        : { enabled: false, size: 0, hits: 0, semanticHits: 0, misses: 0, expired: 0 },
+      spend: this.getSpendTotals(),
+      queue: {
+        active: providerDetails.reduce((sum, detail) => sum + (detail.queue?.active ?? 0), 0),
+        queued: providerDetails.reduce((sum, detail) => sum + (detail.queue?.queued ?? 0), 0)
+      }
+    };
+  }
+
+  private getSpendTotals(): LedgerTotals {
+    const { requests, promptTokens, completionTokens, cost } = this.costLedger.summarize();
+    return { requests, promptTokens, completionTokens, cost };
+  }
+
+  /**
+   * Log orchestrator status
+   */
+  logStatus(): void {
+    const status = this.getStatus();
+
+    console.log('\n═══════════════════════════════════════════════════════════');
+    console.log('  UNIFIED LLM ORCHESTRATOR STATUS');
+    console.log('═══════════════════════════════════════════════════════════\n');
+    console.log(`📊 Providers: ${status.configuredProviders}/${status.totalProviders} configured`);
+    console.log(`💾 Cache: ${status.cache.enabled ? `${status.cache.hits} hits / ${status.cache.misses} misses` : 'disabled'}`);
+    console.log(`💰 Spend: $${status.spend.cost.toFixed(4)} over ${status.spend.requests} requests`);
+    console.log(`🚦 Queue: ${status.queue.active} active, ${status.queue.queued} waiting\n`);
+
+    console.log('Provider Status:');
+    for (const detail of status.providerDetails) {
+      const status = detail.available ? '✅' : '❌';
+      console.log(`  ${status} ${detail.name} (Priority: ${detail.priority})`);
+      if (detail.available) {
+        console.log(`     Requests: ${detail.requestCount}`);
+        if (detail.queue && detail.queue.queued > 0) {
+          console.log(`     Queued: ${detail.queue.queued} (avg wait ${Math.round(detail.queue.avgWaitMs ?? 0)}ms)`);
+        }
+        if (detail.circuit && detail.circuit.state !== 'closed') {
+          console.log(`     Circuit: ${detail.circuit.state} (${detail.circuit.consecutiveFailures} failures)`);
+        }
+        console.log(`     Capabilities: ${detail.capabilities.slice(0, 3).join(', ')}...`);
+        if (detail.models.length > 1) {
+          const models = detail.models.map(model => model.aliases.length > 0 ? `${model.id} (${model.aliases.join(', ')})` : model.id);
+          console.log(`     Models: ${models.join(', ')}`);
+        }
       }
     }
 
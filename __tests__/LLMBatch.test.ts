@@ -0,0 +1,130 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LLMRequest, UnifiedLLMOrchestrator } from '../UnifiedLLMOrchestrator';
+import { mockProvider, MockScript } from '../LLMMockProvider';
+
+const REQUESTS: LLMRequest[] = [{ prompt: 'one' }, { prompt: 'two' }, { prompt: 'three' }];
+
+let directory: string;
+let checkpointFile: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), 'llm-batch-'));
+  checkpointFile = join(directory, 'checkpoint.json');
+});
+
+afterEach(() => rmSync(directory, { recursive: true, force: true }));
+
+function checkpointLines(): any[] {
+  return readFileSync(checkpointFile, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+}
+
+function orchestratorWith(script: MockScript, capabilities?: string[]): UnifiedLLMOrchestrator {
+  const orchestrator = new UnifiedLLMOrchestrator({ providers: [mockProvider('A', script, capabilities ? { capabilities } : {})] });
+  orchestrator.setResponseCache(null);
+  orchestrator.setFallbackPolicy({ maxRetriesPerProvider: 0 });
+  return orchestrator;
+}
+
+describe('generateBatch', () => {
+  it('returns unfinished vendor batch items as pending and collects them on resume', async () => {
+    const orchestrator = orchestratorWith({ batchPolls: 2 });
+
+    const first = await orchestrator.generateBatch(REQUESTS, { checkpointFile, maxWaitMs: 0 });
+    expect(first).toMatchObject({ succeeded: 0, pending: 3, resumed: 0 });
+    expect(first.items.map(item => item.status)).toEqual(['pending', 'pending', 'pending']);
+
+    const second = await orchestrator.generateBatch(REQUESTS, { checkpointFile, pollIntervalMs: 1 });
+    expect(second).toMatchObject({ succeeded: 3, pending: 0 });
+    expect(second.items.map(item => [item.via, item.response?.text])).toEqual([
+      ['vendor-batch', '[A] one'],
+      ['vendor-batch', '[A] two'],
+      ['vendor-batch', '[A] three']
+    ]);
+    // The batch was polled again, not submitted a second time
+    expect(orchestrator.getMockCalls('A')).toHaveLength(3);
+  });
+
+  it('skips finished items and retries failed ones when resumed', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ error: { status: 400 } }, { text: 'ok' }] });
+    const options = { checkpointFile, vendorBatch: false, concurrency: 1 };
+
+    const first = await orchestrator.generateBatch(REQUESTS, options);
+    expect(first).toMatchObject({ succeeded: 2, failed: 1 });
+    expect(first.items[0]).toMatchObject({ status: 'error', via: 'online' });
+
+    const second = await orchestrator.generateBatch(REQUESTS, options);
+    expect(second).toMatchObject({ succeeded: 3, failed: 0, resumed: 2 });
+    expect(orchestrator.getMockCalls('A')).toHaveLength(4);
+  });
+
+  it('keeps failed items when retryFailed is off', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ error: { status: 400 } }, { text: 'ok' }] });
+
+    await orchestrator.generateBatch(REQUESTS, { checkpointFile, vendorBatch: false, concurrency: 1 });
+    const second = await orchestrator.generateBatch(REQUESTS, { checkpointFile, vendorBatch: false, retryFailed: false });
+
+    expect(second).toMatchObject({ succeeded: 2, failed: 1, resumed: 3 });
+    expect(orchestrator.getMockCalls('A')).toHaveLength(3);
+  });
+
+  it('refuses a checkpoint written for a different request list', async () => {
+    const orchestrator = orchestratorWith({});
+    await orchestrator.generateBatch(REQUESTS, { checkpointFile, vendorBatch: false });
+
+    await expect(orchestrator.generateBatch([{ prompt: 'other' }], { checkpointFile }))
+      .rejects.toThrow(/belongs to a different request list/);
+  });
+
+  it('appends a line per finished item and compacts the file when the job returns', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ error: { status: 400 } }, { text: 'ok' }] });
+    const linesSeen: number[] = [];
+
+    await orchestrator.generateBatch(REQUESTS, {
+      checkpointFile,
+      vendorBatch: false,
+      concurrency: 1,
+      onProgress: () => linesSeen.push(checkpointLines().length)
+    });
+    expect(linesSeen).toEqual([2, 3, 4]);
+
+    await orchestrator.generateBatch(REQUESTS, { checkpointFile, vendorBatch: false });
+    const lines = checkpointLines();
+    expect(lines).toHaveLength(4);
+    expect(lines.slice(1).map(line => line.item.status)).toEqual(['success', 'success', 'success']);
+    expect(lines[1].item.response.metadata).toBeUndefined();
+  });
+
+  it('ignores a line torn by a crash mid-write', async () => {
+    const orchestrator = orchestratorWith({});
+    await orchestrator.generateBatch(REQUESTS.slice(0, 2), { checkpointFile, vendorBatch: false });
+    appendFileSync(checkpointFile, '{"item":{"index":');
+
+    const resumed = await orchestrator.generateBatch(REQUESTS.slice(0, 2), { checkpointFile, vendorBatch: false });
+    expect(resumed).toMatchObject({ succeeded: 2, resumed: 2 });
+  });
+
+  it('keeps answers to sensitive requests out of the checkpoint unless asked to', async () => {
+    const orchestrator = orchestratorWith({}, ['reasoning', 'local']);
+    const requests: LLMRequest[] = [{ prompt: 'private one', sensitive: true }, { prompt: 'public two' }];
+
+    const first = await orchestrator.generateBatch(requests, { checkpointFile, vendorBatch: false });
+    expect(first.items.map(item => item.response?.text)).toEqual(['[A] private one', '[A] public two']);
+    expect(readFileSync(checkpointFile, 'utf8')).not.toContain('private one');
+
+    const second = await orchestrator.generateBatch(requests, { checkpointFile, vendorBatch: false, persistPrivateResults: true });
+    expect(second).toMatchObject({ succeeded: 2, resumed: 1 });
+    expect(readFileSync(checkpointFile, 'utf8')).toContain('[A] private one');
+  });
+
+  it('treats redacted requests as private', async () => {
+    const orchestrator = orchestratorWith({});
+    orchestrator.setPrivacyPolicy({ redact: 'all' });
+
+    await orchestrator.generateBatch([{ prompt: 'Mail ann@example.com' }], { checkpointFile, vendorBatch: false });
+
+    expect(readFileSync(checkpointFile, 'utf8')).not.toContain('ann@example.com');
+    expect(checkpointLines()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,125 @@
+import { UnifiedLLMOrchestrator } from '../UnifiedLLMOrchestrator';
+import { mockProvider, MockScript } from '../LLMMockProvider';
+import { createAbortScope, LLMCancelledError, LLMTimeoutError } from '../LLMCancellation';
+import { sleep } from '../LLMRetryPolicy';
+
+const HANG: MockScript = { replies: [{ error: { hang: true } }] };
+
+function orchestratorWith(primary: MockScript, backup: MockScript = {}): UnifiedLLMOrchestrator {
+  const orchestrator = new UnifiedLLMOrchestrator({
+    providers: [mockProvider('A', primary, { priority: 1 }), mockProvider('B', backup, { priority: 2 })]
+  });
+  orchestrator.setResponseCache(null);
+  orchestrator.setFallbackPolicy({ maxRetriesPerProvider: 0 });
+  return orchestrator;
+}
+
+describe('createAbortScope', () => {
+  it('follows the parent signal and times out on its own', async () => {
+    const parent = new AbortController();
+    const child = createAbortScope(parent.signal);
+    parent.abort(new LLMCancelledError('stop'));
+    expect(child.signal.reason).toBeInstanceOf(LLMCancelledError);
+
+    const timed = createAbortScope(undefined, 10);
+    await sleep(30);
+    expect(timed.signal.reason).toMatchObject({ scope: 'request', timeoutMs: 10 });
+
+    const disarmed = createAbortScope(undefined, 10);
+    disarmed.disarm();
+    await sleep(30);
+    expect(disarmed.signal.aborted).toBe(false);
+  });
+});
+
+describe('cancellation', () => {
+  it('stops a request when the caller aborts, without falling back', async () => {
+    const orchestrator = orchestratorWith(HANG);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new LLMCancelledError('user left')), 20);
+
+    await expect(orchestrator.generate({ prompt: 'hi', signal: controller.signal })).rejects.toThrow(LLMCancelledError);
+    expect(orchestrator.getMockCalls('B')).toHaveLength(0);
+  });
+
+  it('refuses a request whose signal is already aborted', async () => {
+    const orchestrator = orchestratorWith({});
+    const controller = new AbortController();
+    controller.abort(new LLMCancelledError());
+
+    await expect(orchestrator.generate({ prompt: 'hi', signal: controller.signal })).rejects.toThrow(LLMCancelledError);
+    expect(orchestrator.getMockCalls()).toHaveLength(0);
+  });
+
+  it('ends the whole request at timeoutMs', async () => {
+    const orchestrator = orchestratorWith(HANG, HANG);
+
+    const failure = await orchestrator.generate({ prompt: 'hi', timeoutMs: 30 }).catch(error => error);
+
+    expect(failure).toBeInstanceOf(LLMTimeoutError);
+    expect(failure).toMatchObject({ scope: 'request', timeoutMs: 30 });
+  });
+
+  it('falls back when a single attempt times out', async () => {
+    const orchestrator = orchestratorWith(HANG);
+
+    const response = await orchestrator.generate({ prompt: 'hi', attemptTimeoutMs: 30 });
+
+    expect(response.provider).toBe('B');
+    expect(response.metadata?.attempts).toMatchObject([
+      { provider: 'A', outcome: 'error', message: 'A did not answer within 30ms' },
+      { provider: 'B', outcome: 'success' }
+    ]);
+  });
+
+  it('stops a stream when the caller aborts mid-way', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ chunks: ['one ', 'two ', 'three'] }], latencyMs: 20 });
+    const controller = new AbortController();
+    const received: string[] = [];
+
+    const reading = (async () => {
+      for await (const event of orchestrator.generateStream({ prompt: 'hi', signal: controller.signal })) {
+        if (event.type === 'delta') received.push(event.text);
+        controller.abort(new LLMCancelledError());
+      }
+    })();
+
+    await expect(reading).rejects.toThrow(LLMCancelledError);
+    expect(received.length).toBeLessThan(3);
+  });
+});
+
+describe('hedging', () => {
+  it('sends the request to the next provider once the primary is slow and takes the first answer', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ text: 'slow' }], latencyMs: 500 }, { replies: [{ text: 'quick' }] });
+    const started = Date.now();
+
+    const response = await orchestrator.generate({ prompt: 'hi', hedge: { delayMs: 20 } });
+
+    expect(Date.now() - started).toBeLessThan(400);
+    expect(response.text).toBe('quick');
+    expect(response.metadata?.hedge).toEqual({ primary: 'A', backup: 'B', delayMs: 20, winner: 'B' });
+  });
+
+  it('does not hedge when the primary answers in time', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ text: 'prompt' }] });
+
+    const response = await orchestrator.generate({ prompt: 'hi', hedge: { delayMs: 200 } });
+
+    expect(response.text).toBe('prompt');
+    expect(response.metadata?.hedge?.winner).toBe('A');
+    expect(orchestrator.getMockCalls('B')).toHaveLength(0);
+  });
+
+  it('waits for the backup when the primary fails after hedging', async () => {
+    const orchestrator = orchestratorWith(
+      { replies: [{ error: { status: 400 }, latencyMs: 60 }] },
+      { replies: [{ text: 'backup', latencyMs: 100 }] }
+    );
+
+    const response = await orchestrator.generate({ prompt: 'hi', hedge: { delayMs: 20 } });
+
+    expect(response.provider).toBe('B');
+    expect(response.metadata?.hedge?.winner).toBe('B');
+  });
+});
@@ -0,0 +1,139 @@
+import { UnifiedLLMOrchestrator } from '../UnifiedLLMOrchestrator';
+import { mockProvider } from '../LLMMockProvider';
+import { sleep } from '../LLMRetryPolicy';
+import { CircuitBreaker } from '../LLMCircuitBreaker';
+
+function circuitOf(orchestrator: UnifiedLLMOrchestrator, name: string) {
+  return orchestrator.getStatus().providerDetails.find(detail => detail.name === name)?.circuit;
+}
+
+describe('CircuitBreaker', () => {
+  let time: number;
+  const now = () => time;
+  beforeEach(() => (time = 0));
+
+  it('opens after consecutive failures and half-opens after the cooldown', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 }, now);
+
+    breaker.recordFailure('boom');
+    expect(breaker.state).toBe('closed');
+    breaker.recordFailure('boom');
+    expect(breaker.state).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.snapshot()).toMatchObject({ consecutiveFailures: 2, openedAt: 0, lastError: 'boom' });
+
+    time = 999;
+    expect(breaker.state).toBe('open');
+    time = 1000;
+    expect(breaker.state).toBe('half-open');
+  });
+
+  it('resets the failure count on success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 }, now);
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('admits a limited number of half-open probes', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 10, halfOpenMaxProbes: 1 }, now);
+    breaker.recordFailure();
+    time = 10;
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+    breaker.release();
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('reopens when a half-open probe fails', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 10 }, now);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    time = 10;
+
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.snapshot().openedAt).toBe(10);
+  });
+});
+
+describe('circuit breaker in the fallback chain', () => {
+  it('gives the probe slot back when a half-open probe is rejected as malformed', async () => {
+    const orchestrator = new UnifiedLLMOrchestrator({
+      providers: [
+        mockProvider('A', { replies: [{ error: { status: 503 } }, { error: { status: 400 } }, { text: 'A recovered' }] }, { priority: 1 }),
+        mockProvider('B', { replies: [{ text: 'from B' }] }, { priority: 2 })
+      ]
+    });
+    orchestrator.setResponseCache(null);
+    orchestrator.setFallbackPolicy({ maxRetriesPerProvider: 0 });
+    orchestrator.configureCircuitBreakers({ failureThreshold: 1, cooldownMs: 20 });
+
+    expect((await orchestrator.generate({ prompt: 'one' })).provider).toBe('B');
+    expect(circuitOf(orchestrator, 'A')?.state).toBe('open');
+
+    await sleep(30);
+    expect(circuitOf(orchestrator, 'A')?.state).toBe('half-open');
+    expect((await orchestrator.generate({ prompt: 'two' })).provider).toBe('B');
+    expect(orchestrator.getMockCalls('A')).toHaveLength(2);
+
+    const recovered = await orchestrator.generate({ prompt: 'three' });
+    expect(recovered.provider).toBe('A');
+    expect(recovered.text).toBe('A recovered');
+    expect(circuitOf(orchestrator, 'A')?.state).toBe('closed');
+  });
+
+  it('gives the probe slot back when a half-open embedding probe is rejected as malformed', async () => {
+    const orchestrator = new UnifiedLLMOrchestrator({
+      providers: [
+        mockProvider('A', { replies: [{ error: { status: 503 } }, { error: { status: 400 } }, {}] }, { priority: 1 }),
+        mockProvider('B', {}, { priority: 2 })
+      ]
+    });
+    orchestrator.setEmbeddingCache(null);
+    orchestrator.configureCircuitBreakers({ failureThreshold: 1, cooldownMs: 20 });
+
+    expect((await orchestrator.embed({ input: 'one' })).provider).toBe('B');
+    await sleep(30);
+    expect((await orchestrator.embed({ input: 'two' })).provider).toBe('B');
+
+    expect((await orchestrator.embed({ input: 'three' })).provider).toBe('A');
+    expect(circuitOf(orchestrator, 'A')?.state).toBe('closed');
+  });
+
+  it('gives the probe slot and rate limit reservation back when a probe stream is abandoned', async () => {
+    const orchestrator = new UnifiedLLMOrchestrator({
+      providers: [
+        mockProvider('A', { replies: [{ error: { status: 503 } }, { chunks: ['one ', 'two ', 'three'] }, { text: 'A again' }] }, {
+          priority: 1,
+          rateLimit: { requestsPerMinute: 100, tokensPerMinute: 10000 }
+        }),
+        mockProvider('B', {}, { priority: 2 })
+      ]
+    });
+    orchestrator.setResponseCache(null);
+    orchestrator.setFallbackPolicy({ maxRetriesPerProvider: 0 });
+    orchestrator.configureCircuitBreakers({ failureThreshold: 1, cooldownMs: 20 });
+
+    await orchestrator.generate({ prompt: 'one' });
+    await sleep(30);
+    for await (const event of orchestrator.generateStream({ prompt: 'two' })) {
+      expect(event).toMatchObject({ type: 'delta', provider: 'A' });
+      break;
+    }
+
+    const rateLimit = orchestrator.getStatus().providerDetails.find(detail => detail.name === 'A')?.rateLimit;
+    expect(rateLimit?.tokensAvailable).toBeGreaterThan(9500);
+    expect(circuitOf(orchestrator, 'A')?.state).toBe('half-open');
+    const recovered = await orchestrator.generate({ prompt: 'three' });
+    expect(recovered.provider).toBe('A');
+    expect(circuitOf(orchestrator, 'A')?.state).toBe('closed');
+  });
+});
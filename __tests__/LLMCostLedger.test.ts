@@ -0,0 +1,65 @@
+import { BudgetCap, CostLedger, LedgerEntry } from '../LLMCostLedger';
+
+function entry(overrides: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    timestamp: Date.now(),
+    provider: 'A',
+    model: 'm',
+    promptTokens: 10,
+    completionTokens: 10,
+    cost: 1,
+    cached: false,
+    ...overrides
+  };
+}
+
+describe('CostLedger budgets', () => {
+  it('counts spend recorded before and after a cap is added', () => {
+    const ledger = new CostLedger();
+    ledger.record(entry());
+    const cap: BudgetCap = { id: 'all', limitUsd: 3, action: 'block' };
+    ledger.addBudget(cap);
+    ledger.record(entry({ cost: 1.5 }));
+
+    expect(ledger.spentAgainst(cap)).toBeCloseTo(2.5);
+    expect(ledger.exceededBudgets({})).toEqual([]);
+    ledger.record(entry());
+    expect(ledger.exceededBudgets({}).map(exceeded => exceeded.id)).toEqual(['all']);
+  });
+
+  it('only counts entries in the cap scope', () => {
+    const ledger = new CostLedger();
+    const cap: BudgetCap = { id: 'a', limitUsd: 1, provider: 'A', sessionId: 's1', action: 'block' };
+    ledger.addBudget(cap);
+    ledger.record(entry({ sessionId: 's1' }));
+    ledger.record(entry({ provider: 'B', sessionId: 's1' }));
+    ledger.record(entry({ sessionId: 's2' }));
+
+    expect(ledger.spentAgainst(cap)).toBe(1);
+    expect(ledger.exceededBudgets({ provider: 'A', sessionId: 's1' })).toHaveLength(1);
+    expect(ledger.exceededBudgets({ provider: 'A', sessionId: 's2' })).toHaveLength(0);
+  });
+
+  it('drops spend that leaves a rolling window', () => {
+    const ledger = new CostLedger();
+    const now = Date.now();
+    const cap: BudgetCap = { id: 'hourly', limitUsd: 10, windowMs: 1000, action: 'downgrade' };
+    ledger.addBudget(cap);
+    ledger.record(entry({ timestamp: now - 900, cost: 2 }));
+    ledger.record(entry({ timestamp: now - 100, cost: 3 }));
+
+    expect(ledger.spentAgainst(cap, now)).toBe(5);
+    expect(ledger.spentAgainst(cap, now + 500)).toBe(3);
+    expect(ledger.spentAgainst(cap, now + 1000)).toBe(0);
+  });
+
+  it('keeps all-time totals for entries trimmed from the ledger', () => {
+    const ledger = new CostLedger(2);
+    const cap: BudgetCap = { id: 'all', limitUsd: 100, action: 'block' };
+    ledger.addBudget(cap);
+    for (let i = 0; i < 5; i++) ledger.record(entry());
+
+    expect(ledger.query()).toHaveLength(2);
+    expect(ledger.spentAgainst(cap)).toBe(5);
+  });
+});
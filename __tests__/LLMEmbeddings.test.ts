@@ -0,0 +1,77 @@
+import { UnifiedLLMOrchestrator } from '../UnifiedLLMOrchestrator';
+import { mockProvider } from '../LLMMockProvider';
+import { LLMCancelledError } from '../LLMCancellation';
+import { cosineSimilarity, HashingEmbedder } from '../LLMEmbeddings';
+
+function rateLimitOf(orchestrator: UnifiedLLMOrchestrator, name: string) {
+  return orchestrator.getStatus().providerDetails.find(detail => detail.name === name)?.rateLimit;
+}
+
+describe('HashingEmbedder', () => {
+  it('gives the same vector for the same text', async () => {
+    const embedder = new HashingEmbedder(64);
+    const [first] = (await embedder.embed(['The quick brown fox'])).vectors;
+    const [second] = (await new HashingEmbedder(64).embed(['the QUICK brown fox!'])).vectors;
+
+    expect(first).toHaveLength(64);
+    expect(second).toEqual(first);
+  });
+
+  it('places texts sharing words closer together', async () => {
+    const { vectors, promptTokens } = await new HashingEmbedder().embed([
+      'invoice payment overdue',
+      'payment for the overdue invoice',
+      'weather forecast for tomorrow'
+    ]);
+
+    expect(cosineSimilarity(vectors[0], vectors[1])).toBeGreaterThan(cosineSimilarity(vectors[0], vectors[2]));
+    expect(promptTokens).toBe(12);
+  });
+});
+
+describe('embed', () => {
+  it('reserves nothing for a call cancelled while queued', async () => {
+    const orchestrator = new UnifiedLLMOrchestrator({
+      providers: [mockProvider('A', { latencyMs: 50 }, { rateLimit: { requestsPerMinute: 100, tokensPerMinute: 10000 } })]
+    });
+    orchestrator.setEmbeddingCache(null);
+    orchestrator.setProviderConcurrency('A', 1);
+
+    const first = orchestrator.embed({ input: 'first' });
+    const controller = new AbortController();
+    const queued = orchestrator.embed({ input: 'word '.repeat(4000), signal: controller.signal });
+    controller.abort();
+
+    await expect(queued).rejects.toBeInstanceOf(LLMCancelledError);
+    await first;
+    // The cancelled call would have held about 4000 tokens
+    expect(rateLimitOf(orchestrator, 'A')?.tokensAvailable).toBeGreaterThan(9000);
+    expect(orchestrator.getMockCalls('A')).toHaveLength(1);
+  });
+
+  it('cancels an in-flight call without falling back', async () => {
+    const orchestrator = new UnifiedLLMOrchestrator({
+      providers: [
+        mockProvider('A', { replies: [{ error: { hang: true } }] }, { priority: 1 }),
+        mockProvider('B', {}, { priority: 2 })
+      ]
+    });
+
+    await expect(orchestrator.embed({ input: 'slow', timeoutMs: 20 })).rejects.toThrow(/timed out/);
+    expect(orchestrator.getMockCalls('B')).toHaveLength(0);
+  });
+
+  it('falls back to the local embedder when every provider fails', async () => {
+    const orchestrator = new UnifiedLLMOrchestrator({
+      providers: [mockProvider('A', { replies: [{ error: { status: 500 } }] })]
+    });
+    orchestrator.setFallbackPolicy({ maxRetriesPerProvider: 0 });
+    orchestrator.setLocalEmbedder(new HashingEmbedder(32));
+
+    const response = await orchestrator.embed({ input: ['alpha', 'beta'] });
+
+    expect(response).toMatchObject({ provider: 'local', model: 'hashing-32', dimensions: 32, cost: 0 });
+    expect(response.vectors).toEqual((await new HashingEmbedder(32).embed(['alpha', 'beta'])).vectors);
+    expect(orchestrator.getMockCalls('A')).toHaveLength(1);
+  });
+});
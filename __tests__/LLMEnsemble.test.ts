@@ -0,0 +1,90 @@
+import { UnifiedLLMOrchestrator } from '../UnifiedLLMOrchestrator';
+import { mockProvider, MockScript } from '../LLMMockProvider';
+import { agreementScores, normalizeAnswer, tallyVotes } from '../LLMEnsemble';
+
+function orchestratorWith(scripts: Record<string, MockScript>): UnifiedLLMOrchestrator {
+  const orchestrator = new UnifiedLLMOrchestrator({
+    providers: Object.entries(scripts).map(([name, script], index) => mockProvider(name, script, { priority: index + 1 }))
+  });
+  orchestrator.setResponseCache(null);
+  orchestrator.setFallbackPolicy({ maxRetriesPerProvider: 0 });
+  return orchestrator;
+}
+
+const reply = (text: string): MockScript => ({ replies: [{ text }] });
+
+describe('ensemble scoring', () => {
+  it('votes on normalized answers', () => {
+    expect(normalizeAnswer('  "Paris."  ')).toBe('paris');
+    expect(Array.from(tallyVotes(['Paris.', 'paris', '**Lyon**']))).toEqual([['paris', 2], ['lyon', 1]]);
+  });
+
+  it('scores agreement by word overlap', () => {
+    const [a, b, c] = agreementScores(['the sky is blue', 'the sky is blue', 'grass']);
+    expect(a).toBeCloseTo(0.5);
+    expect(b).toBeCloseTo(0.5);
+    expect(c).toBe(0);
+    expect(agreementScores(['alone'])).toEqual([1]);
+  });
+});
+
+describe('generateEnsemble', () => {
+  it('returns the majority answer with the vote share', async () => {
+    const orchestrator = orchestratorWith({ A: reply('Lyon'), B: reply('Paris.'), C: reply('paris') });
+
+    const result = await orchestrator.generateEnsemble({ prompt: 'capital?' }, { strategy: 'majority' });
+
+    expect(result.text).toBe('Paris.');
+    expect(result.response.provider).toBe('B');
+    expect(result.votes).toEqual({ lyon: 1, paris: 2 });
+    expect(result.agreement).toBeCloseTo(2 / 3);
+    expect(result.outputs.map(output => output.status)).toEqual(['success', 'success', 'success']);
+  });
+
+  it('lets the judge pick a candidate', async () => {
+    const orchestrator = orchestratorWith({
+      A: reply('short answer'),
+      B: reply('long and careful answer'),
+      Judge: reply('{"best": 2, "reason": "more careful"}')
+    });
+
+    const result = await orchestrator.generateEnsemble({ prompt: 'explain' }, { strategy: 'judge', providers: ['A', 'B'], combiner: 'Judge' });
+
+    expect(result.text).toBe('long and careful answer');
+    expect(result.combinerResponse?.provider).toBe('Judge');
+    expect(result.totalCost).toBeCloseTo(result.outputs.reduce((sum, output) => sum + output.response!.cost, 0) + result.combinerResponse!.cost);
+    const [judgeCall] = orchestrator.getMockCalls('Judge');
+    expect(JSON.stringify(judgeCall.messages)).toContain('Candidate 2:\\nlong and careful answer');
+  });
+
+  it('has the combiner merge the answers when synthesizing', async () => {
+    const orchestrator = orchestratorWith({ A: reply('red'), B: reply('blue'), Writer: reply('red and blue') });
+
+    const result = await orchestrator.generateEnsemble({ prompt: 'colours?' }, { strategy: 'synthesize', providers: ['A', 'B'], combiner: 'Writer' });
+
+    expect(result.text).toBe('red and blue');
+    expect(result.response.provider).toBe('Writer');
+    expect(JSON.stringify(orchestrator.getMockCalls('Writer')[0].messages)).toContain('Candidate 1:\\nred');
+  });
+
+  it('returns the first answer and reports slower members as pending', async () => {
+    const orchestrator = orchestratorWith({ Slow: { replies: [{ text: 'slow' }], latencyMs: 200 }, Fast: reply('fast') });
+
+    const result = await orchestrator.generateEnsemble({ prompt: 'race' }, { strategy: 'first' });
+
+    expect(result.text).toBe('fast');
+    expect(result.outputs).toMatchObject([{ provider: 'Slow', status: 'pending' }, { provider: 'Fast', status: 'success' }]);
+  });
+
+  it('survives failing members and fails only when all of them do', async () => {
+    const broken = { replies: [{ error: { status: 400, message: 'bad' } }] };
+    const orchestrator = orchestratorWith({ A: broken, B: reply('ok'), C: broken });
+
+    const result = await orchestrator.generateEnsemble({ prompt: 'q' }, { strategy: 'majority' });
+    expect(result.text).toBe('ok');
+    expect(result.outputs.map(output => output.status)).toEqual(['error', 'success', 'error']);
+
+    await expect(orchestrator.generateEnsemble({ prompt: 'q' }, { strategy: 'majority', providers: ['A', 'C'] }))
+      .rejects.toThrow(/^All ensemble providers failed \(A: .*; C: .*\)/);
+  });
+});
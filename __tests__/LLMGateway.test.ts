@@ -0,0 +1,137 @@
+import { UnifiedLLMOrchestrator } from '../UnifiedLLMOrchestrator';
+import { mockProvider } from '../LLMMockProvider';
+import { GatewayOptions, LLMGateway } from '../LLMGateway';
+
+interface Started {
+  gateway: LLMGateway;
+  orchestrator: UnifiedLLMOrchestrator;
+  url: string;
+}
+
+const running: LLMGateway[] = [];
+
+async function start(options: GatewayOptions = {}): Promise<Started> {
+  const orchestrator = new UnifiedLLMOrchestrator({ providers: [mockProvider('A')] });
+  orchestrator.setResponseCache(null);
+  const gateway = new LLMGateway({ orchestrator, ...options });
+  const address = await gateway.listen(0);
+  running.push(gateway);
+  return { gateway, orchestrator, url: `http://127.0.0.1:${address.port}` };
+}
+
+function post(url: string, body: unknown, key?: string): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...(key ? { authorization: `Bearer ${key}` } : {}) },
+    body: JSON.stringify(body)
+  });
+}
+
+const CLIENTS = [
+  { name: 'web', key: 'web-key' },
+  { name: 'ops', key: 'ops-key', admin: true }
+];
+
+afterEach(async () => {
+  await Promise.all(running.splice(0).map(gateway => gateway.close()));
+});
+
+describe('LLMGateway', () => {
+  it('answers chat completions in the OpenAI format', async () => {
+    const { url } = await start();
+
+    const response = await post(`${url}/v1/chat/completions`, { model: 'auto', messages: [{ role: 'user', content: 'hello' }] });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      object: 'chat.completion',
+      model: 'A/mock-model',
+      choices: [{ index: 0, message: { role: 'assistant', content: '[A] hello' }, finish_reason: 'stop' }]
+    });
+  });
+
+  it('streams chat completions as server-sent events', async () => {
+    const { url } = await start();
+
+    const response = await post(`${url}/v1/chat/completions`, { stream: true, messages: [{ role: 'user', content: 'hi' }] });
+    const events = (await response.text()).split('\n\n').filter(Boolean);
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(events[events.length - 1]).toBe('data: [DONE]');
+    const text = events
+      .slice(0, -1)
+      .map(event => JSON.parse(event.slice('data: '.length)).choices[0]?.delta?.content ?? '')
+      .join('');
+    expect(text).toBe('[A] hi');
+  });
+
+  it('rejects requests without a known key', async () => {
+    const { url } = await start({ clients: CLIENTS });
+
+    expect((await post(`${url}/v1/chat/completions`, { messages: [{ role: 'user', content: 'hi' }] })).status).toBe(401);
+    expect((await post(`${url}/v1/chat/completions`, { messages: [{ role: 'user', content: 'hi' }] }, 'wrong')).status).toBe(401);
+    expect((await post(`${url}/v1/chat/completions`, { messages: [{ role: 'user', content: 'hi' }] }, 'web-key')).status).toBe(200);
+  });
+
+  it('serves the admin endpoints to admin clients only', async () => {
+    const { url } = await start({ clients: CLIENTS });
+    const get = (path: string, key: string) => fetch(`${url}${path}`, { headers: { authorization: `Bearer ${key}` } });
+
+    expect((await get('/admin/status', 'web-key')).status).toBe(403);
+    expect((await get('/metrics', 'web-key')).status).toBe(403);
+    expect((await get('/admin/status', 'ops-key')).status).toBe(200);
+    expect((await get('/metrics', 'ops-key')).status).toBe(200);
+  });
+
+  it('keeps the admin endpoints closed without authentication unless allowed', async () => {
+    const closed = await start();
+    expect((await fetch(`${closed.url}/admin/status`)).status).toBe(403);
+    expect((await fetch(`${closed.url}/metrics`)).status).toBe(403);
+
+    const open = await start({ allowAnonymousAdmin: true });
+    expect((await fetch(`${open.url}/admin/status`)).status).toBe(200);
+  });
+
+  it('answers 400 for malformed routing options', async () => {
+    const { url } = await start();
+    const send = (orchestrator: unknown) =>
+      post(`${url}/v1/chat/completions`, { messages: [{ role: 'user', content: 'hi' }], orchestrator });
+
+    for (const options of [
+      'cheapest',
+      { routing_policy: 'fastest-ever' },
+      { routing_policy: { name: 'custom' } },
+      { preferred_provider: 7 },
+      { required_capabilities: 'vision' },
+      { sensitive: 'yes' },
+      { bypass_cache: 1 },
+      { priority: 'urgent' }
+    ]) {
+      const response = await send(options);
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.type).toBe('invalid_request_error');
+    }
+
+    expect((await send({ routing_policy: 'cheapest', required_capabilities: ['reasoning'], bypass_cache: true })).status).toBe(200);
+  });
+
+  it('scopes the budget session to the client', async () => {
+    const { url, orchestrator } = await start({ clients: CLIENTS });
+
+    await post(`${url}/v1/chat/completions`, { user: 'alice', messages: [{ role: 'user', content: 'hi' }] }, 'web-key');
+    await post(`${url}/v1/embeddings`, { user: 'alice', input: 'hi' }, 'ops-key');
+
+    const sessions = orchestrator.getCostLedger().query().map(entry => entry.sessionId);
+    expect(sessions).toEqual(expect.arrayContaining(['web/alice', 'ops/alice']));
+    expect(sessions).not.toContain('alice');
+  });
+
+  it('ignores the user field when authentication is off', async () => {
+    const { url, orchestrator } = await start();
+
+    await post(`${url}/v1/chat/completions`, { user: 'alice', messages: [{ role: 'user', content: 'hi' }] });
+
+    expect(orchestrator.getCostLedger().query().map(entry => entry.sessionId)).toEqual([undefined]);
+  });
+});
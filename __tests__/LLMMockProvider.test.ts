@@ -0,0 +1,95 @@
+import { UnifiedLLMOrchestrator } from '../UnifiedLLMOrchestrator';
+import { mockProvider, MockScript } from '../LLMMockProvider';
+import { ProviderHttpError } from '../LLMProviderAdapters';
+
+function orchestratorWith(script: MockScript): UnifiedLLMOrchestrator {
+  const orchestrator = new UnifiedLLMOrchestrator({ providers: [mockProvider('A', script)] });
+  orchestrator.setResponseCache(null);
+  orchestrator.setFallbackPolicy({ maxRetriesPerProvider: 0 });
+  return orchestrator;
+}
+
+describe('mock providers', () => {
+  it('echo the last user turn when unscripted', async () => {
+    const response = await orchestratorWith({}).generate({
+      messages: [{ role: 'user', content: 'first' }, { role: 'assistant', content: 'reply' }],
+      prompt: 'second'
+    });
+    expect(response.text).toBe('[A] second');
+  });
+
+  it('serve scripted replies in order and repeat the last', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ text: 'one' }, { text: 'two' }] });
+
+    const texts: string[] = [];
+    for (let call = 0; call < 3; call++) {
+      texts.push((await orchestrator.generate({ prompt: 'hi' })).text);
+    }
+    expect(texts).toEqual(['one', 'two', 'two']);
+  });
+
+  it('start over after the last reply when looping', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ text: 'one' }, { text: 'two' }], loop: true });
+
+    await orchestrator.generate({ prompt: 'hi' });
+    await orchestrator.generate({ prompt: 'hi' });
+    expect((await orchestrator.generate({ prompt: 'hi' })).text).toBe('one');
+  });
+
+  it('report scripted usage and tool calls', async () => {
+    const orchestrator = orchestratorWith({
+      replies: [{ toolCalls: [{ id: 'c1', name: 'lookup', arguments: { q: 'x' } }], usage: { promptTokens: 7, completionTokens: 2 } }]
+    });
+
+    const response = await orchestrator.generate({
+      prompt: 'find x',
+      tools: [{ name: 'lookup', description: 'Look up', parameters: { type: 'object', properties: { q: { type: 'string' } } } }]
+    });
+
+    expect(response.toolCalls).toEqual([{ id: 'c1', name: 'lookup', arguments: { q: 'x' } }]);
+    expect(response).toMatchObject({ promptTokens: 7, completionTokens: 2 });
+    expect(orchestrator.getMockCalls('A')[0].tools?.[0].name).toBe('lookup');
+  });
+
+  it('answer through a respond function', async () => {
+    const orchestrator = orchestratorWith({ respond: call => ({ text: `call ${call.index} to ${call.model}` }) });
+
+    await orchestrator.generate({ prompt: 'hi' });
+    expect((await orchestrator.generate({ prompt: 'hi' })).text).toBe('call 1 to mock-model');
+  });
+
+  it('raise injected HTTP errors like a real provider', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ error: { status: 429, retryAfterSeconds: 2, message: 'slow down' } }] });
+
+    const error = await orchestrator.generate({ prompt: 'hi' }).catch(caught => caught);
+
+    const cause = error.lastError as ProviderHttpError;
+    expect(cause).toBeInstanceOf(ProviderHttpError);
+    expect(cause.status).toBe(429);
+    expect(cause.retryAfterMs).toBe(2000);
+    expect(error.attempts[0]).toMatchObject({ errorKind: 'rate_limit', status: 429 });
+  });
+
+  it('stream replies in the scripted chunks', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ chunks: ['Hel', 'lo'] }] });
+
+    const deltas: string[] = [];
+    for await (const event of orchestrator.generateStream({ prompt: 'hi' })) {
+      if (event.type === 'delta') deltas.push(event.text);
+    }
+    expect(deltas).toEqual(['Hel', 'lo']);
+  });
+
+  it('record calls and restart scripts on reset', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ text: 'one' }, { text: 'two' }] });
+
+    await orchestrator.generate({ systemPrompt: 'sys', prompt: 'hi' });
+    expect(orchestrator.getMockCalls('A')).toEqual([
+      expect.objectContaining({ provider: 'A', index: 0, system: 'sys', stream: false })
+    ]);
+
+    orchestrator.resetMockProviders();
+    expect(orchestrator.getMockCalls()).toEqual([]);
+    expect((await orchestrator.generate({ prompt: 'hi' })).text).toBe('one');
+  });
+});
@@ -0,0 +1,145 @@
+import { UnifiedLLMOrchestrator } from '../UnifiedLLMOrchestrator';
+import { mockProvider } from '../LLMMockProvider';
+import { LLMMessage } from '../LLMMessages';
+import { builtInPromptFilters, redactRequest, RedactionVault, restoreResult } from '../LLMPrivacy';
+
+function localAndRemote(): UnifiedLLMOrchestrator {
+  const orchestrator = new UnifiedLLMOrchestrator({
+    providers: [
+      mockProvider('Local', { replies: [{ text: 'short answer' }] }, {
+        priority: 1,
+        capabilities: ['reasoning', 'local'],
+        contextWindow: 600,
+        maxTokens: 50,
+        pricing: { inputPerMillion: 10, outputPerMillion: 10 }
+      }),
+      mockProvider('Remote', {}, { priority: 2, pricing: { inputPerMillion: 0, outputPerMillion: 0 } })
+    ]
+  });
+  orchestrator.setResponseCache(null);
+  return orchestrator;
+}
+
+describe('sensitive requests', () => {
+  it('summarize overflowing history on a local provider', async () => {
+    const orchestrator = localAndRemote();
+    const messages: LLMMessage[] = Array.from({ length: 8 }, (_, index) => ({
+      role: index % 2 === 0 ? 'user' : 'assistant',
+      content: index < 6 ? `turn ${index}: ${'private detail '.repeat(40)}` : `turn ${index}`
+    }));
+
+    const response = await orchestrator.generate({
+      messages,
+      prompt: 'what next?',
+      sensitive: true,
+      contextOverflow: 'summarize'
+    });
+
+    expect(response.provider).toBe('Local');
+    expect(response.metadata?.context?.summarized).toBe(true);
+    expect(orchestrator.getMockCalls('Remote')).toHaveLength(0);
+  });
+
+  it('keep ensemble synthesis on a local provider', async () => {
+    const orchestrator = localAndRemote();
+    orchestrator.registerProvider(mockProvider('Local2', {}, { priority: 3, capabilities: ['reasoning', 'local'] }));
+
+    await orchestrator.generateEnsemble(
+      { prompt: 'private question', sensitive: true },
+      { strategy: 'synthesize', providers: ['Local', 'Local2'], combiner: 'Remote' }
+    );
+
+    expect(orchestrator.getMockCalls('Remote')).toHaveLength(0);
+  });
+});
+
+describe('redactRequest', () => {
+  it('replaces personal data with stable placeholders and restores them', () => {
+    const vault = new RedactionVault();
+    const redacted = redactRequest({
+      systemPrompt: 'Support agent',
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'I am ann@example.com' }] }],
+      prompt: 'Email ann@example.com or bob@example.com, card 4111 1111 1111 1111'
+    }, builtInPromptFilters, vault);
+
+    expect(redacted.prompt).toBe('Email [EMAIL_1] or [EMAIL_2], card [CREDIT_CARD_1]');
+    expect(redacted.messages?.[0].content).toEqual([{ type: 'text', text: 'I am [EMAIL_1]' }]);
+    expect(redacted.systemPrompt).toMatch(/^Support agent\n\n.*placeholders/);
+    expect(vault.summary()).toEqual({ email: 2, 'credit-card': 1 });
+    expect(restoreResult({ text: 'Wrote to [EMAIL_2]' }, vault).text).toBe('Wrote to bob@example.com');
+  });
+
+  it('redacts text documents and leaves binary ones alone', () => {
+    const vault = new RedactionVault();
+    const csv = Buffer.from('name,email\nAnn,ann@example.com\n').toString('base64');
+    const pdf = Buffer.from('%PDF-1.7 ann@example.com').toString('base64');
+
+    const redacted = redactRequest({
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'document', mimeType: 'text/csv', name: 'people.csv', data: csv },
+          { type: 'document', mimeType: 'application/pdf', data: pdf }
+        ]
+      }]
+    }, builtInPromptFilters, vault);
+
+    const [text, binary] = redacted.messages![0].content as Array<{ data: string }>;
+    expect(Buffer.from(text.data, 'base64').toString('utf8')).toBe('name,email\nAnn,[EMAIL_1]\n');
+    expect(binary.data).toBe(pdf);
+  });
+
+  it('leaves requests without personal data alone', () => {
+    const vault = new RedactionVault();
+    const request = { prompt: 'Order 1234 ships Tuesday' };
+
+    expect(redactRequest(request, builtInPromptFilters, vault)).toEqual(request);
+    expect(vault.size).toBe(0);
+  });
+});
+
+describe('redaction policy', () => {
+  it('sends placeholders to the provider and restores the answer', async () => {
+    const orchestrator = new UnifiedLLMOrchestrator({ providers: [mockProvider('Remote')] });
+    orchestrator.setResponseCache(null);
+    orchestrator.setPrivacyPolicy({ redact: 'all' });
+
+    const response = await orchestrator.generate({ prompt: 'Contact ann@example.com' });
+
+    const [call] = orchestrator.getMockCalls('Remote');
+    expect(JSON.stringify(call.messages)).not.toContain('ann@example.com');
+    expect(JSON.stringify(call.messages)).toContain('[EMAIL_1]');
+    expect(response.text).toBe('[Remote] Contact ann@example.com');
+  });
+
+  it('redacts attached text documents before they are sent', async () => {
+    const orchestrator = new UnifiedLLMOrchestrator({ providers: [mockProvider('Remote')] });
+    orchestrator.setResponseCache(null);
+    orchestrator.setPrivacyPolicy({ redact: 'all' });
+
+    await orchestrator.generate({
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Summarize the notes' },
+          { type: 'document', mimeType: 'text/markdown', data: Buffer.from('# Notes\nCall +1 415 555 0100').toString('base64') }
+        ]
+      }]
+    });
+
+    const [call] = orchestrator.getMockCalls('Remote');
+    const sent = JSON.stringify(call.messages).match(/"data":"([^"]+)"/)![1];
+    expect(Buffer.from(sent, 'base64').toString('utf8')).toBe('# Notes\nCall [PHONE_1]');
+  });
+
+  it('only redacts for remote providers under the remote policy', async () => {
+    const orchestrator = localAndRemote();
+    orchestrator.setPrivacyPolicy({ redact: 'remote' });
+
+    await orchestrator.generate({ prompt: 'Contact ann@example.com', preferredProvider: 'Local' });
+    await orchestrator.generate({ prompt: 'Contact ann@example.com', preferredProvider: 'Remote' });
+
+    expect(JSON.stringify(orchestrator.getMockCalls('Local')[0].messages)).toContain('ann@example.com');
+    expect(JSON.stringify(orchestrator.getMockCalls('Remote')[0].messages)).not.toContain('ann@example.com');
+  });
+});
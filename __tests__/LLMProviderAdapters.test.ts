@@ -0,0 +1,232 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import type { LLMProvider } from '../UnifiedLLMOrchestrator';
+import {
+  LLMWireFormat,
+  ProviderHttpError,
+  ProviderStreamDelta,
+  sendEmbeddingRequest,
+  sendProviderRequest,
+  streamProviderRequest
+} from '../LLMProviderAdapters';
+
+interface ReceivedRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: any;
+}
+
+interface CannedResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown; // objects are sent as JSON, strings as-is
+}
+
+/**
+ * Local HTTP server standing in for a vendor API: records every
+ * request and answers from a queue of canned responses
+ */
+class VendorServer {
+  received: ReceivedRequest[] = [];
+  private responses: CannedResponse[] = [];
+  private server: Server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      this.received.push({ method: req.method!, path: req.url!, headers: req.headers, body: raw ? JSON.parse(raw) : undefined });
+      const reply = this.responses.shift() ?? { status: 500, body: { error: 'no canned response' } };
+      res.writeHead(reply.status ?? 200, { 'content-type': 'application/json', ...reply.headers });
+      res.end(typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body));
+    });
+  });
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  reply(...responses: CannedResponse[]): void {
+    this.responses.push(...responses);
+  }
+
+  reset(): void {
+    this.received = [];
+    this.responses = [];
+  }
+}
+
+const server = new VendorServer();
+
+beforeAll(() => server.start());
+afterAll(() => server.stop());
+beforeEach(() => server.reset());
+
+function provider(format: LLMWireFormat, overrides: Partial<LLMProvider> = {}): LLMProvider {
+  return {
+    name: `Test-${format}`,
+    endpoint: `${server.url}/v1/${format}`,
+    format,
+    model: 'test-model',
+    maxTokens: 256,
+    temperature: 0.5,
+    priority: 1,
+    capabilities: ['reasoning'],
+    rateLimit: 100,
+    latency: 'low',
+    cost: 'low',
+    pricing: { inputPerMillion: 1, outputPerMillion: 2 },
+    ...overrides
+  };
+}
+
+describe('anthropic adapter', () => {
+  it('sends a Messages API request and parses text and usage', async () => {
+    server.reply({ body: { content: [{ type: 'text', text: 'Hello' }, { type: 'text', text: ' there' }], usage: { input_tokens: 12, output_tokens: 3 } } });
+
+    const result = await sendProviderRequest(provider('anthropic'), { prompt: 'Hi', systemPrompt: 'Be brief' }, 'secret');
+
+    expect(result).toEqual({ text: 'Hello there', usage: { promptTokens: 12, completionTokens: 3 } });
+    const [request] = server.received;
+    expect(request.path).toBe('/v1/anthropic');
+    expect(request.headers['x-api-key']).toBe('secret');
+    expect(request.headers['anthropic-version']).toBe('2023-06-01');
+    expect(request.body).toMatchObject({ model: 'test-model', max_tokens: 256, temperature: 0.5, system: 'Be brief' });
+    expect(request.body.messages).toHaveLength(1);
+    expect(request.body.messages[0].role).toBe('user');
+  });
+
+  it('sends tools and parses tool calls', async () => {
+    server.reply({ body: { content: [{ type: 'tool_use', id: 'tu_1', name: 'lookup', input: { q: 'x' } }] } });
+
+    const result = await sendProviderRequest(provider('anthropic'), {
+      prompt: 'Find x',
+      tools: [{ name: 'lookup', description: 'Look up', parameters: { type: 'object', properties: { q: { type: 'string' } } } }],
+      toolChoice: 'required'
+    });
+
+    expect(result.toolCalls).toEqual([{ id: 'tu_1', name: 'lookup', arguments: { q: 'x' } }]);
+    expect(server.received[0].body.tools[0]).toMatchObject({ name: 'lookup', input_schema: { type: 'object' } });
+    expect(server.received[0].body.tool_choice).toEqual({ type: 'any' });
+  });
+});
+
+describe('openai adapter', () => {
+  it('sends chat completions with a bearer token and parses the reply', async () => {
+    server.reply({ body: { choices: [{ message: { content: 'Hi!' } }], usage: { prompt_tokens: 5, completion_tokens: 2 } } });
+
+    const result = await sendProviderRequest(provider('openai'), {
+      systemPrompt: 'sys',
+      messages: [{ role: 'user', content: 'one' }, { role: 'assistant', content: 'two' }],
+      prompt: 'three',
+      responseFormat: { type: 'json' }
+    }, 'sk-test');
+
+    expect(result).toEqual({ text: 'Hi!', usage: { promptTokens: 5, completionTokens: 2 } });
+    const [request] = server.received;
+    expect(request.headers.authorization).toBe('Bearer sk-test');
+    expect(request.body.messages.map((message: any) => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(request.body.response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('parses tool calls with JSON-encoded arguments', async () => {
+    server.reply({
+      body: { choices: [{ message: { content: null, tool_calls: [{ id: 'c1', function: { name: 'sum', arguments: '{"a":1,"b":2}' } }] } }] }
+    });
+
+    const result = await sendProviderRequest(provider('openai'), { prompt: 'add' });
+    expect(result.toolCalls).toEqual([{ id: 'c1', name: 'sum', arguments: { a: 1, b: 2 } }]);
+    expect(result.text).toBe('');
+  });
+
+  it('streams server-sent events', async () => {
+    const events = [
+      { choices: [{ delta: { content: 'Hel' } }] },
+      { choices: [{ delta: { content: 'lo' } }] },
+      { choices: [], usage: { prompt_tokens: 4, completion_tokens: 2 } }
+    ];
+    server.reply({
+      headers: { 'content-type': 'text/event-stream' },
+      body: `${events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('')}data: [DONE]\n\n`
+    });
+
+    const deltas: ProviderStreamDelta[] = [];
+    for await (const delta of streamProviderRequest(provider('openai'), { prompt: 'Hi' })) {
+      deltas.push(delta);
+    }
+
+    expect(deltas.map(delta => delta.text ?? '').join('')).toBe('Hello');
+    expect(deltas[deltas.length - 1].usage).toEqual({ promptTokens: 4, completionTokens: 2 });
+    expect(server.received[0].body.stream).toBe(true);
+  });
+
+  it('sends embedding requests and orders vectors by index', async () => {
+    server.reply({ body: { data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }], usage: { prompt_tokens: 4 } } });
+
+    const embeddingProvider = provider('openai', {
+      embeddings: { endpoint: `${server.url}/v1/embeddings`, model: 'embed', maxBatchSize: 8, inputPerMillion: 0 }
+    });
+    const result = await sendEmbeddingRequest(embeddingProvider, ['a', 'b'], 'sk-test');
+
+    expect(result).toEqual({ vectors: [[1, 0], [0, 1]], promptTokens: 4 });
+    expect(server.received[0].body).toEqual({ model: 'embed', input: ['a', 'b'] });
+  });
+});
+
+describe('gemini adapter', () => {
+  it('calls generateContent for the model and parses candidates', async () => {
+    server.reply({
+      body: {
+        candidates: [{ content: { parts: [{ text: 'Gemini says hi' }] } }],
+        usageMetadata: { promptTokenCount: 7, candidatesTokenCount: 4 }
+      }
+    });
+
+    const result = await sendProviderRequest(provider('gemini'), { prompt: 'Hi', systemPrompt: 'sys', maxTokens: 64 }, 'g-key');
+
+    expect(result).toEqual({ text: 'Gemini says hi', usage: { promptTokens: 7, completionTokens: 4 } });
+    const [request] = server.received;
+    expect(request.path).toBe('/v1/gemini/test-model:generateContent');
+    expect(request.headers['x-goog-api-key']).toBe('g-key');
+    expect(request.body.systemInstruction).toEqual({ parts: [{ text: 'sys' }] });
+    expect(request.body.generationConfig).toMatchObject({ maxOutputTokens: 64, temperature: 0.5 });
+  });
+});
+
+describe('ollama adapter', () => {
+  it('flattens history into one prompt and parses eval counts', async () => {
+    server.reply({ body: { response: 'local answer', prompt_eval_count: 9, eval_count: 2 } });
+
+    const result = await sendProviderRequest(provider('ollama'), {
+      messages: [{ role: 'user', content: 'first' }, { role: 'assistant', content: 'reply' }],
+      prompt: 'second'
+    });
+
+    expect(result).toEqual({ text: 'local answer', usage: { promptTokens: 9, completionTokens: 2 } });
+    const { body } = server.received[0];
+    expect(body.stream).toBe(false);
+    expect(body.prompt).toContain('first');
+    expect(body.prompt).toContain('second');
+    expect(body.options).toEqual({ temperature: 0.5, num_predict: 256 });
+  });
+});
+
+describe('HTTP errors', () => {
+  it('raise ProviderHttpError with status, body and Retry-After', async () => {
+    server.reply({ status: 429, headers: { 'retry-after': '3' }, body: { error: { message: 'slow down' } } });
+
+    const error = await sendProviderRequest(provider('openai'), { prompt: 'Hi' }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ProviderHttpError);
+    expect(error.status).toBe(429);
+    expect(error.retryAfterMs).toBe(3000);
+    expect(error.responseBody).toContain('slow down');
+  });
+});
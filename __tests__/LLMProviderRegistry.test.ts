@@ -0,0 +1,119 @@
+import { ProviderConfigError, parseProviderConfig, parseYaml } from '../LLMProviderRegistry';
+
+const CONFIG = `
+providers:
+  - name: Local
+    endpoint: \${LOCAL_URL:-http://localhost:8000/v1/chat/completions}
+    format: openai
+    model: \${MODEL}
+    apiKey: \${KEY}
+    rateLimit:
+      requestsPerMinute: \${RPM}
+    requiresCredential: \${NEEDS_KEY:-true}
+`;
+
+describe('parseProviderConfig environment substitution', () => {
+  it('keeps substituted values as strings outside numeric and boolean fields', () => {
+    for (const value of ['0123', 'true', 'null', '1e3', '[abc', '{abc', '"abc']) {
+      const [provider] = parseProviderConfig(CONFIG, 'yaml', { MODEL: value, KEY: value, RPM: '60' });
+      expect(provider.model).toBe(value);
+      expect(provider.apiKey).toBe(value);
+    }
+  });
+
+  it('converts placeholders in numeric and boolean fields', () => {
+    const [provider] = parseProviderConfig(CONFIG, 'yaml', { MODEL: 'm', KEY: 'k', RPM: '1e3', NEEDS_KEY: 'false' });
+    expect(provider.rateLimit).toEqual({ requestsPerMinute: 1000 });
+    expect(provider.requiresCredential).toBe(false);
+    expect(provider.endpoint).toBe('http://localhost:8000/v1/chat/completions');
+  });
+
+  it('reports values that do not convert as config issues', () => {
+    const parse = () => parseProviderConfig(CONFIG, 'yaml', { MODEL: 'm', KEY: 'k', RPM: '[60', NEEDS_KEY: 'yes' });
+    expect(parse).toThrow(ProviderConfigError);
+    try {
+      parse();
+    } catch (error) {
+      expect((error as ProviderConfigError).issues).toEqual(expect.arrayContaining([
+        'providers[0].rateLimit.requestsPerMinute: environment value is not a number',
+        'providers[0].requiresCredential: environment value must be true or false'
+      ]));
+    }
+  });
+
+  it('reports unset variables', () => {
+    expect(() => parseProviderConfig(CONFIG, 'yaml', { MODEL: 'm', RPM: '60' })).toThrow(/KEY is not set/);
+  });
+});
+
+describe('parseYaml', () => {
+  it('reads the supported subset', () => {
+    const parsed = parseYaml([
+      '---',
+      '# provider list',
+      'providers:',
+      '  - name: "Local # 1"        # quoted hash is part of the value',
+      '    endpoint: http://host:8000/v1#frag',
+      "    apiKey: '0123'",
+      '    model: It\'s a model',
+      '    capabilities: [reasoning, "coding, fast"]',
+      '    contextWindow: 32_768',
+      '    temperature: -0.5',
+      '    requiresCredential: FALSE',
+      '    mock: { replies: [{ text: ok }], loop: ~ }',
+      '    notes:',
+      '  -',
+      '    name: Second'
+    ].join('\n'));
+
+    expect(parsed).toEqual({
+      providers: [
+        {
+          name: 'Local # 1',
+          endpoint: 'http://host:8000/v1#frag',
+          apiKey: '0123',
+          model: "It's a model",
+          capabilities: ['reasoning', 'coding, fast'],
+          contextWindow: 32768,
+          temperature: -0.5,
+          requiresCredential: false,
+          mock: { replies: [{ text: 'ok' }], loop: null },
+          notes: null
+        },
+        { name: 'Second' }
+      ]
+    });
+  });
+
+  it('rejects what falls outside the subset, naming the line', () => {
+    const cases: Array<[string, RegExp]> = [
+      ['a: 1\n\tb: 2', /^line 2: tabs/],
+      ['a: 1\n---\nb: 2', /^line 2: only one document/],
+      ['a: &base x', /^line 1: anchors and aliases/],
+      ['a: x\nb: *base', /^line 2: anchors and aliases/],
+      ['a: !secret x', /^line 1: tags/],
+      ['a: |\n  text', /^line 1: block scalars/],
+      ['key: first part\n  second part', /^line 2: values continued on the next line/],
+      ['- first\n  more', /^line 2: values continued on the next line/],
+      ['a: "open\n  close"', /^line 1: unterminated string/],
+      ['a: [x,\n  y]', /^line 1: unterminated list/],
+      ['a: 1\nb: 2\na: 3', /^line 3: duplicate key "a"/],
+      ['a: { b: 1, b: 2 }', /^line 1: duplicate key "b"/],
+      ['a: b: c', /^line 1: quote the value b: c/],
+      ['apiKey: 0123', /^line 1: quote 0123/],
+      ['apiKey: 0x1f', /^line 1: quote 0x1f/],
+      ['enabled: yes', /^line 1: quote yes, or use true or false/],
+      ['a:\n    b: 1\n  c: 2', /^line 3: unexpected indentation/]
+    ];
+
+    for (const [text, message] of cases) {
+      expect(() => parseYaml(text)).toThrow(message);
+    }
+  });
+
+  it('reports parse errors as config issues with the line', () => {
+    const text = 'providers:\n  - name: Local\n    apiKey: 007';
+    expect(() => parseProviderConfig(text, 'yaml', {})).toThrow(ProviderConfigError);
+    expect(() => parseProviderConfig(text, 'yaml', {})).toThrow(/could not parse yaml: line 3: quote 007/);
+  });
+});
@@ -0,0 +1,109 @@
+import { ProviderRateLimiter, RateLimiterClock, RateLimitTimeoutError, TokenBucket } from '../LLMRateLimiter';
+
+/**
+ * Clock that only moves when told to; sleeping advances it at once
+ */
+class FakeClock implements RateLimiterClock {
+  time = 0;
+  slept: number[] = [];
+
+  now(): number {
+    return this.time;
+  }
+
+  async sleep(ms: number): Promise<void> {
+    this.slept.push(ms);
+    this.time += ms;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
+describe('TokenBucket', () => {
+  it('refills continuously up to its capacity', () => {
+    const clock = new FakeClock();
+    const bucket = new TokenBucket(60, 60, clock);
+
+    expect(bucket.tryTake(60)).toBe(true);
+    expect(bucket.tryTake(1)).toBe(false);
+    clock.advance(500);
+    expect(bucket.available()).toBeCloseTo(0.5);
+    clock.advance(500);
+    expect(bucket.tryTake(1)).toBe(true);
+    clock.advance(10 * 60000);
+    expect(bucket.available()).toBe(60);
+  });
+
+  it('admits a request larger than the bucket once it is full', () => {
+    const clock = new FakeClock();
+    const bucket = new TokenBucket(10, 60, clock);
+
+    expect(bucket.tryTake(25)).toBe(true);
+    expect(bucket.available()).toBe(-15);
+    expect(bucket.msUntilAvailable(25)).toBe(25000);
+  });
+});
+
+describe('ProviderRateLimiter', () => {
+  it('enforces requests and tokens per minute', () => {
+    const clock = new FakeClock();
+    const limiter = new ProviderRateLimiter(clock);
+    limiter.configure('A', { requestsPerMinute: 2, tokensPerMinute: 1000 });
+
+    expect(limiter.tryAcquire('A', 400)).toBe(true);
+    expect(limiter.tryAcquire('A', 700)).toBe(false); // tokens
+    expect(limiter.tryAcquire('A', 100)).toBe(true);
+    expect(limiter.tryAcquire('A', 0)).toBe(false); // requests
+    expect(limiter.snapshot('A')).toEqual({ requestsPerMinute: 2, tokensPerMinute: 1000, requestsAvailable: 0, tokensAvailable: 500 });
+  });
+
+  it('lets unconfigured providers through', () => {
+    expect(new ProviderRateLimiter(new FakeClock()).tryAcquire('unknown', 1e9)).toBe(true);
+  });
+
+  it('settles reservations against actual usage', () => {
+    const limiter = new ProviderRateLimiter(new FakeClock());
+    limiter.configure('A', { requestsPerMinute: 10, tokensPerMinute: 1000 });
+
+    limiter.tryAcquire('A', 600);
+    limiter.settle('A', 600, 100);
+    expect(limiter.snapshot('A')?.tokensAvailable).toBe(900);
+    limiter.tryAcquire('A', 100);
+    limiter.settle('A', 100, 1200);
+    expect(limiter.snapshot('A')?.tokensAvailable).toBe(-300);
+  });
+
+  it('waits for capacity using the clock', async () => {
+    const clock = new FakeClock();
+    const limiter = new ProviderRateLimiter(clock);
+    limiter.configure('A', 1);
+
+    await limiter.acquire('A', 0, 120000);
+    await limiter.acquire('A', 0, 120000);
+    expect(clock.slept).toEqual([60000]);
+    expect(clock.now()).toBe(60000);
+  });
+
+  it('gives up when capacity will not arrive in time', async () => {
+    const clock = new FakeClock();
+    const limiter = new ProviderRateLimiter(clock);
+    limiter.configure('A', 1);
+    limiter.tryAcquire('A');
+
+    await expect(limiter.acquire('A', 0, 1000)).rejects.toBeInstanceOf(RateLimitTimeoutError);
+    expect(clock.slept).toEqual([]);
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    const limiter = new ProviderRateLimiter({ now: () => 0, sleep: () => new Promise(() => undefined) });
+    limiter.configure('A', 1);
+    limiter.tryAcquire('A');
+
+    const controller = new AbortController();
+    const waiting = limiter.acquire('A', 0, 120000, controller.signal);
+    controller.abort(new Error('stop'));
+    await expect(waiting).rejects.toThrow('stop');
+  });
+});
@@ -0,0 +1,105 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FixtureMissError, FixtureTransport } from '../LLMRecordReplay';
+import type { FetchLike } from '../LLMProviderAdapters';
+import { LLMProvider, UnifiedLLMOrchestrator } from '../UnifiedLLMOrchestrator';
+
+const VENDOR: LLMProvider = {
+  name: 'Vendor',
+  endpoint: 'https://vendor.test/v1/chat/completions',
+  format: 'openai',
+  model: 'vendor-model',
+  maxTokens: 100,
+  temperature: 0,
+  priority: 1,
+  capabilities: ['reasoning'],
+  rateLimit: 100,
+  latency: 'low',
+  cost: 'low',
+  pricing: { inputPerMillion: 1, outputPerMillion: 1 },
+  requiresCredential: false
+};
+
+/**
+ * Stand-in for the network that answers from a list of statuses and
+ * counts the calls it received
+ */
+function vendorFetch(statuses: number[]): FetchLike & { calls: number } {
+  const stub = Object.assign(async () => {
+    const status = statuses[Math.min(stub.calls++, statuses.length - 1)];
+    const body = status === 200
+      ? JSON.stringify({ choices: [{ message: { content: `answer ${stub.calls}` } }], usage: { prompt_tokens: 3, completion_tokens: 2 } })
+      : JSON.stringify({ error: { message: 'unavailable' } });
+    return { ok: status === 200, status, text: async () => body, headers: { get: () => null } };
+  }, { calls: 0 });
+  return stub;
+}
+
+function orchestratorUsing(transport: FixtureTransport): UnifiedLLMOrchestrator {
+  const orchestrator = new UnifiedLLMOrchestrator({ providers: [VENDOR] });
+  orchestrator.setResponseCache(null);
+  orchestrator.setFallbackPolicy({ baseDelayMs: 1, jitter: 0 });
+  orchestrator.setTransport(transport.fetch);
+  return orchestrator;
+}
+
+let directory: string;
+let file: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), 'llm-fixtures-'));
+  file = join(directory, 'fixtures.json');
+});
+
+afterEach(() => rmSync(directory, { recursive: true, force: true }));
+
+describe('FixtureTransport', () => {
+  it('replays recorded responses without touching the network', async () => {
+    const network = vendorFetch([200]);
+    const recorded = await orchestratorUsing(new FixtureTransport({ file, mode: 'record', fetch: network })).generate({ prompt: 'hi' });
+    expect(network.calls).toBe(1);
+
+    const offline = vendorFetch([500]);
+    const replayed = await orchestratorUsing(new FixtureTransport({ file, fetch: offline })).generate({ prompt: 'hi' });
+
+    expect(replayed.text).toBe(recorded.text);
+    expect(replayed.promptTokens).toBe(3);
+    expect(offline.calls).toBe(0);
+  });
+
+  it('replays a retry sequence in order', async () => {
+    const recording = await orchestratorUsing(new FixtureTransport({ file, mode: 'record', fetch: vendorFetch([503, 200]) })).generate({ prompt: 'hi' });
+    expect(recording.metadata?.attempts.map(attempt => attempt.outcome)).toEqual(['error', 'success']);
+
+    const transport = new FixtureTransport({ file });
+    expect(transport.size).toBe(2);
+    const replayed = await orchestratorUsing(transport).generate({ prompt: 'hi' });
+    expect(replayed.metadata?.attempts.map(attempt => [attempt.outcome, attempt.status])).toEqual([
+      ['error', 503],
+      ['success', undefined]
+    ]);
+  });
+
+  it('raises FixtureMissError for unrecorded requests in replay mode', async () => {
+    const transport = new FixtureTransport({ file });
+    const init = { method: 'POST', headers: {}, body: '{"prompt":"new"}' };
+
+    await expect(transport.fetch('https://vendor.test/v1/chat/completions', init)).rejects.toBeInstanceOf(FixtureMissError);
+  });
+
+  it('records only what is missing in auto mode', async () => {
+    const network = vendorFetch([200]);
+    const init = (body: string) => ({ method: 'POST', headers: { authorization: 'Bearer secret' }, body });
+    const first = new FixtureTransport({ file, mode: 'auto', fetch: network });
+    await first.fetch('https://vendor.test/a', init('{"n":1}'));
+
+    const second = new FixtureTransport({ file, mode: 'auto', fetch: network });
+    await second.fetch('https://vendor.test/a', init('{"n":1}'));
+    await second.fetch('https://vendor.test/a', init('{"n":2}'));
+
+    expect(network.calls).toBe(2);
+    expect(second.size).toBe(2);
+    expect(readFileSync(file, 'utf8')).not.toContain('secret');
+  });
+});
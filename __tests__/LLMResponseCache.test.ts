@@ -0,0 +1,109 @@
+import { CacheKeyParts, ResponseCache } from '../LLMResponseCache';
+import { LLMResponse, UnifiedLLMOrchestrator } from '../UnifiedLLMOrchestrator';
+import { mockProvider } from '../LLMMockProvider';
+
+const PARTS: CacheKeyParts = { prompt: 'What is the capital of France?', systemPrompt: '', provider: 'A', model: 'm', temperature: 0, maxTokens: 100, options: '' };
+
+function response(text: string): LLMResponse {
+  return { text, provider: 'A', model: 'm', tokensUsed: 10, promptTokens: 5, completionTokens: 5, cost: 0.01, latency: 5, cached: false };
+}
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('ResponseCache', () => {
+  it('expires entries after their TTL', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const cache = new ResponseCache({ ttlMs: 500 });
+    cache.set(PARTS, response('Paris'));
+
+    now.mockReturnValue(1499);
+    expect(cache.get(PARTS)?.text).toBe('Paris');
+    now.mockReturnValue(1500);
+    expect(cache.get(PARTS)).toBeNull();
+    expect(cache.getStats()).toMatchObject({ hits: 1, expired: 1, misses: 1, size: 0 });
+  });
+
+  it('keys on every generation setting', () => {
+    const cache = new ResponseCache();
+    cache.set(PARTS, response('Paris'));
+
+    expect(cache.get({ ...PARTS, temperature: 1 })).toBeNull();
+    expect(cache.get({ ...PARTS, provider: 'B' })).toBeNull();
+    expect(cache.get({ ...PARTS, model: 'other' })).toBeNull();
+    expect(cache.get({ ...PARTS, options: 'tools' })).toBeNull();
+  });
+
+  it('serves near-duplicate prompts in semantic mode', () => {
+    const cache = new ResponseCache({ semantic: { enabled: true, threshold: 0.7 } });
+    cache.set(PARTS, response('Paris'));
+
+    expect(cache.get({ ...PARTS, prompt: 'what is the capital of France' })?.text).toBe('Paris');
+    expect(cache.get({ ...PARTS, prompt: 'How do magnets work?' })).toBeNull();
+    expect(cache.getStats().semanticHits).toBe(1);
+  });
+
+  it('keeps stored responses apart from the copies it hands out', () => {
+    const cache = new ResponseCache();
+    const original = response('Paris');
+    cache.set(PARTS, original);
+    original.text = 'changed';
+    cache.get(PARTS)!.text = 'changed again';
+
+    expect(cache.get(PARTS)?.text).toBe('Paris');
+  });
+});
+
+describe('response caching in the orchestrator', () => {
+  function orchestrator(): UnifiedLLMOrchestrator {
+    return new UnifiedLLMOrchestrator({
+      providers: [mockProvider('A', {}, { pricing: { inputPerMillion: 1000, outputPerMillion: 1000 } })]
+    });
+  }
+
+  it('answers a repeated request from the cache at no cost', async () => {
+    const llm = orchestrator();
+
+    const first = await llm.generate({ prompt: 'hello' });
+    const second = await llm.generate({ prompt: 'hello' });
+
+    expect(first.cached).toBe(false);
+    expect(first.cost).toBeGreaterThan(0);
+    expect(second).toMatchObject({ cached: true, cost: 0, text: first.text });
+    expect(llm.getMockCalls('A')).toHaveLength(1);
+  });
+
+  it('is unaffected by callers changing the responses they got', async () => {
+    const llm = orchestrator();
+
+    const first = await llm.generate({ prompt: 'hello' });
+    const text = first.text;
+    first.text = 'edited by the caller';
+    const second = await llm.generate({ prompt: 'hello' });
+    second.text = 'edited again';
+    const third = await llm.generate({ prompt: 'hello' });
+
+    expect(third.text).toBe(text);
+    expect(third.metadata?.attempts).toEqual([]);
+  });
+
+  it('keeps answers from providers serving the same model apart', async () => {
+    const llm = new UnifiedLLMOrchestrator({
+      providers: [mockProvider('A', {}, { priority: 1 }), mockProvider('B', {}, { priority: 2 })]
+    });
+
+    await llm.generate({ prompt: 'hello' });
+    const fromB = await llm.generate({ prompt: 'hello', preferredProvider: 'B' });
+
+    expect(fromB).toMatchObject({ provider: 'B', cached: false, text: '[B] hello' });
+  });
+
+  it('goes to the provider when the cache is bypassed', async () => {
+    const llm = orchestrator();
+
+    await llm.generate({ prompt: 'hello' });
+    const fresh = await llm.generate({ prompt: 'hello', bypassCache: true });
+
+    expect(fresh.cached).toBe(false);
+    expect(llm.getMockCalls('A')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,134 @@
+import { UnifiedLLMOrchestrator } from '../UnifiedLLMOrchestrator';
+import { mockProvider, MockScript } from '../LLMMockProvider';
+import { ProviderHttpError } from '../LLMProviderAdapters';
+import { LLMCancelledError } from '../LLMCancellation';
+import { classifyError, computeBackoff, DEFAULT_FALLBACK_POLICY, LLMFallbackExhaustedError } from '../LLMRetryPolicy';
+import { noopTelemetry, Span, Telemetry } from '../LLMTelemetry';
+
+function orchestratorWith(a: MockScript, b: MockScript = {}): UnifiedLLMOrchestrator {
+  const orchestrator = new UnifiedLLMOrchestrator({
+    providers: [mockProvider('A', a, { priority: 1 }), mockProvider('B', b, { priority: 2 })]
+  });
+  orchestrator.setResponseCache(null);
+  orchestrator.setFallbackPolicy({ baseDelayMs: 1, jitter: 0 });
+  return orchestrator;
+}
+
+describe('classifyError', () => {
+  it('sorts HTTP statuses into retryable and final errors', () => {
+    const http = (status: number, retryAfterMs?: number) => classifyError(new ProviderHttpError('A', status, '', retryAfterMs));
+
+    expect(http(429, 1000)).toEqual({ kind: 'rate_limit', retryable: true, status: 429, retryAfterMs: 1000 });
+    expect(http(408)).toMatchObject({ kind: 'timeout', retryable: true });
+    expect(http(502)).toMatchObject({ kind: 'server', retryable: true });
+    expect(http(401)).toMatchObject({ kind: 'auth', retryable: false });
+    expect(http(422)).toMatchObject({ kind: 'invalid_request', retryable: false });
+  });
+
+  it('recognises network failures and cancellation', () => {
+    expect(classifyError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toEqual({ kind: 'network', retryable: true });
+    expect(classifyError(new TypeError('fetch failed'))).toEqual({ kind: 'network', retryable: true });
+    expect(classifyError(new LLMCancelledError('stop'))).toEqual({ kind: 'cancelled', retryable: false });
+    expect(classifyError(new Error('other'))).toEqual({ kind: 'unknown', retryable: false });
+  });
+});
+
+describe('computeBackoff', () => {
+  const policy = { ...DEFAULT_FALLBACK_POLICY, baseDelayMs: 100, maxDelayMs: 1000, jitter: 0 };
+
+  it('doubles the delay per retry up to the maximum', () => {
+    expect([1, 2, 3, 4, 5].map(retry => computeBackoff(retry, policy))).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it('defers to Retry-After when the policy allows it', () => {
+    expect(computeBackoff(1, policy, 5000)).toBe(5000);
+    expect(computeBackoff(1, { ...policy, respectRetryAfter: false }, 5000)).toBe(100);
+  });
+});
+
+describe('fallback and retry', () => {
+  it('retries transient errors on the same provider', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ error: { status: 503 } }, { text: 'A ok' }] });
+
+    const response = await orchestrator.generate({ prompt: 'hi' });
+
+    expect(response.provider).toBe('A');
+    expect(response.text).toBe('A ok');
+    expect(response.metadata?.attempts.map(attempt => [attempt.provider, attempt.attempt, attempt.outcome])).toEqual([
+      ['A', 1, 'error'],
+      ['A', 2, 'success']
+    ]);
+    expect(response.metadata?.attempts[0]).toMatchObject({ errorKind: 'server', status: 503, retryDelayMs: 1 });
+  });
+
+  it('falls back once retries on a provider are used up', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ error: { status: 503 } }] }, { replies: [{ text: 'B ok' }] });
+    orchestrator.setFallbackPolicy({ maxRetriesPerProvider: 1 });
+
+    const response = await orchestrator.generate({ prompt: 'hi' });
+
+    expect(response.text).toBe('B ok');
+    expect(orchestrator.getMockCalls('A')).toHaveLength(2);
+    expect(response.metadata?.attempts.map(attempt => attempt.provider)).toEqual(['A', 'A', 'B']);
+  });
+
+  it('does not retry malformed requests on the same provider', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ error: { status: 400 } }] });
+
+    const response = await orchestrator.generate({ prompt: 'hi' });
+
+    expect(response.provider).toBe('B');
+    expect(orchestrator.getMockCalls('A')).toHaveLength(1);
+    expect(response.metadata?.attempts[0]).toMatchObject({ provider: 'A', errorKind: 'invalid_request' });
+  });
+
+  it('reports every attempt when all providers fail', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ error: { status: 500 } }] }, { replies: [{ error: { network: true } }] });
+    orchestrator.setFallbackPolicy({ maxRetriesPerProvider: 0 });
+
+    const error = await orchestrator.generate({ prompt: 'hi' }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(LLMFallbackExhaustedError);
+    expect((error as LLMFallbackExhaustedError).attempts.map(attempt => [attempt.provider, attempt.errorKind])).toEqual([
+      ['A', 'server'],
+      ['B', 'network']
+    ]);
+  });
+
+  it('stops after maxProviders', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ error: { status: 503 } }] });
+    orchestrator.setFallbackPolicy({ maxProviders: 1, maxRetriesPerProvider: 0 });
+
+    await expect(orchestrator.generate({ prompt: 'hi' })).rejects.toBeInstanceOf(LLMFallbackExhaustedError);
+    expect(orchestrator.getMockCalls('B')).toHaveLength(0);
+  });
+
+  it('ends each attempt span once, before the backoff', async () => {
+    const spans: Array<{ name: string; ends: number[] }> = [];
+    const telemetry: Telemetry = {
+      ...noopTelemetry,
+      startSpan(name) {
+        const record = { name, ends: [] as number[] };
+        spans.push(record);
+        const span: Span = {
+          ...noopTelemetry.startSpan(name),
+          end: () => {
+            record.ends.push(Date.now());
+          }
+        };
+        return span;
+      }
+    };
+    const orchestrator = orchestratorWith({ replies: [{ error: { status: 503 } }, { text: 'A ok' }] });
+    orchestrator.setFallbackPolicy({ baseDelayMs: 50 });
+    orchestrator.setTelemetry(telemetry);
+
+    const started = Date.now();
+    await orchestrator.generate({ prompt: 'hi' });
+
+    const attemptSpans = spans.filter(span => span.name === 'llm.attempt');
+    expect(attemptSpans).toHaveLength(2);
+    expect(spans.every(span => span.ends.length === 1)).toBe(true);
+    expect(attemptSpans[0].ends[0] - started).toBeLessThan(50);
+  });
+});
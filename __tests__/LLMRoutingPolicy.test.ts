@@ -0,0 +1,92 @@
+import { UnifiedLLMOrchestrator } from '../UnifiedLLMOrchestrator';
+import { mockProvider, MockScript } from '../LLMMockProvider';
+import {
+  bestQualityPolicy,
+  lowestLatencyPolicy,
+  ProviderStatsSnapshot,
+  ProviderStatsTracker,
+  RoutingContext
+} from '../LLMRoutingPolicy';
+
+function orchestratorWith(a: MockScript, b: MockScript = {}): UnifiedLLMOrchestrator {
+  const orchestrator = new UnifiedLLMOrchestrator({
+    providers: [
+      mockProvider('A', a, { priority: 1, capabilities: ['reasoning'], pricing: { inputPerMillion: 5, outputPerMillion: 5 } }),
+      mockProvider('B', b, { priority: 2, capabilities: ['reasoning', 'vision'], pricing: { inputPerMillion: 1, outputPerMillion: 1 } })
+    ]
+  });
+  orchestrator.setResponseCache(null);
+  orchestrator.setFallbackPolicy({ baseDelayMs: 1, jitter: 0 });
+  return orchestrator;
+}
+
+describe('ProviderStatsTracker', () => {
+  it('reports latency percentiles over successes and the error rate over the window', () => {
+    const tracker = new ProviderStatsTracker(4);
+    for (const latency of [100, 300, 200]) tracker.record('A', latency, true);
+    tracker.record('A', 5000, false);
+
+    expect(tracker.snapshot('A')).toEqual({ samples: 4, p50Latency: 200, p95Latency: 300, errorRate: 0.25 });
+    tracker.record('A', 50, true);
+    expect(tracker.snapshot('A').samples).toBe(4);
+  });
+});
+
+describe('routing policies', () => {
+  const A = mockProvider('A', {}, { priority: 1, latency: 'high' });
+  const B = mockProvider('B', {}, { priority: 2, latency: 'low' });
+  const C = mockProvider('C', {}, { priority: 3, latency: 'low' });
+
+  function context(stats: Record<string, Partial<ProviderStatsSnapshot>>, maxCostUsd?: number): RoutingContext {
+    return {
+      request: { prompt: 'hi', maxCostUsd },
+      candidates: [A, B, C],
+      stats: provider => ({ samples: 10, p50Latency: null, p95Latency: null, errorRate: 0, ...stats[provider.name] }),
+      estimateCost: provider => provider.priority / 100
+    };
+  }
+
+  it('rank by observed latency, weighted by reliability', () => {
+    const ranked = lowestLatencyPolicy.rank(context({ A: { p50Latency: 100 }, B: { p50Latency: 150, errorRate: 0.5 }, C: { p50Latency: 200 } }));
+    expect(ranked.map(provider => provider.name)).toEqual(['A', 'C', 'B']);
+  });
+
+  it('fall back to the latency class without observations', () => {
+    expect(lowestLatencyPolicy.rank(context({})).map(provider => provider.name)).toEqual(['B', 'C', 'A']);
+  });
+
+  it('prefer reliable providers within the cost limit for best quality', () => {
+    const ranked = bestQualityPolicy.rank(context({ A: { errorRate: 0.9 } }, 0.025));
+    expect(ranked.map(provider => provider.name)).toEqual(['B']);
+  });
+});
+
+describe('routing', () => {
+  it('orders by priority by default', async () => {
+    expect((await orchestratorWith({}).generate({ prompt: 'hi' })).provider).toBe('A');
+  });
+
+  it('picks the cheapest provider under the cheapest policy', async () => {
+    const response = await orchestratorWith({}).generate({ prompt: 'hi', routingPolicy: 'cheapest' });
+    expect(response.provider).toBe('B');
+  });
+
+  it('honours a preferred provider', async () => {
+    expect((await orchestratorWith({}).generate({ prompt: 'hi', preferredProvider: 'B' })).provider).toBe('B');
+  });
+
+  it('restricts to providers with the required capabilities', async () => {
+    const response = await orchestratorWith({}).generate({ prompt: 'hi', requiredCapabilities: ['vision'] });
+    expect(response.provider).toBe('B');
+  });
+
+  it('skips providers behind an open circuit', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ error: { status: 503 } }, { text: 'A ok' }] });
+    orchestrator.setFallbackPolicy({ maxRetriesPerProvider: 0 });
+    orchestrator.configureCircuitBreakers({ failureThreshold: 1, cooldownMs: 60000 });
+
+    await orchestrator.generate({ prompt: 'one' });
+    expect((await orchestrator.generate({ prompt: 'two' })).provider).toBe('B');
+    expect(orchestrator.getMockCalls('A')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,96 @@
+import { UnifiedLLMOrchestrator } from '../UnifiedLLMOrchestrator';
+import { mockProvider, MockReply } from '../LLMMockProvider';
+import { extractJson, StructuredOutputError, validateJsonSchema } from '../LLMStructuredOutput';
+
+const PERSON = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    age: { type: 'integer', minimum: 0 },
+    tags: { type: 'array', items: { enum: ['a', 'b'] } }
+  },
+  required: ['name', 'age'],
+  additionalProperties: false
+};
+
+function orchestratorWith(replies: MockReply[]): UnifiedLLMOrchestrator {
+  const orchestrator = new UnifiedLLMOrchestrator({ providers: [mockProvider('A', { replies })] });
+  orchestrator.setResponseCache(null);
+  return orchestrator;
+}
+
+describe('extractJson', () => {
+  it('finds JSON in code fences and surrounding prose', () => {
+    expect(extractJson('```json\n{"a": 1}\n```')).toEqual({ ok: true, value: { a: 1 } });
+    expect(extractJson('Here you go: [1, 2] hope that helps')).toEqual({ ok: true, value: [1, 2] });
+    expect(extractJson('no json here')).toEqual({ ok: false, error: 'Reply did not contain a JSON object or array' });
+  });
+});
+
+describe('validateJsonSchema', () => {
+  it('reports every problem with its path', () => {
+    expect(validateJsonSchema({ name: 'Ann', age: 30, tags: ['a'] }, PERSON)).toEqual([]);
+    expect(validateJsonSchema({ name: '', age: 1.5, tags: ['c'], extra: true }, PERSON)).toEqual([
+      '$.name: shorter than 1',
+      '$.age: expected integer, got number',
+      '$.tags[0]: must be one of "a", "b"',
+      '$.extra: is not allowed'
+    ]);
+    expect(validateJsonSchema('Ann', PERSON)).toEqual(['$: expected object, got string']);
+  });
+
+  it('applies combinators', () => {
+    const schema = { oneOf: [{ type: 'integer' }, { type: 'number', minimum: 10 }] };
+    expect(validateJsonSchema(3, schema)).toEqual([]);
+    expect(validateJsonSchema(12, schema)).toEqual(['$: must match exactly one schema, matched 2']);
+    expect(validateJsonSchema('x', { anyOf: [{ type: 'number' }, { type: 'null' }] })).toEqual(['$: does not match any allowed schema']);
+  });
+});
+
+describe('generateStructured', () => {
+  it('returns the parsed value and asks for JSON in the system prompt', async () => {
+    const orchestrator = orchestratorWith([{ text: '```json\n{"name": "Ann", "age": 30}\n```' }]);
+
+    const result = await orchestrator.generateStructured<{ name: string }>({ prompt: 'who?' }, { schema: PERSON });
+
+    expect(result).toMatchObject({ value: { name: 'Ann', age: 30 }, repairs: 0 });
+    expect(orchestrator.getMockCalls('A')[0].system).toContain('Respond with only a JSON value that conforms to this JSON Schema');
+  });
+
+  it('sends invalid replies back with the errors until one validates', async () => {
+    const orchestrator = orchestratorWith([
+      { text: 'Ann, thirty' },
+      { text: '{"name": "Ann", "age": "30"}' },
+      { text: '{"name": "Ann", "age": 30}' }
+    ]);
+
+    const result = await orchestrator.generateStructured({ prompt: 'who?' }, { schema: PERSON });
+
+    expect(result).toMatchObject({ value: { name: 'Ann', age: 30 }, repairs: 2 });
+    const last = orchestrator.getMockCalls('A')[2].messages;
+    expect(last.map(message => message.role)).toEqual(['user', 'assistant', 'user', 'assistant', 'user']);
+    expect(last[4].content).toContain('- $.age: expected integer, got string');
+  });
+
+  it('runs the custom validator after the schema', async () => {
+    const orchestrator = orchestratorWith([{ text: '{"name": "Ann", "age": 300}' }, { text: '{"name": "Ann", "age": 30}' }]);
+    const validate = (value: unknown) => (value as { age: number }).age < 150
+      ? { ok: true as const, value: value as { age: number } }
+      : { ok: false as const, errors: ['$.age: not a plausible age'] };
+
+    const result = await orchestrator.generateStructured({ prompt: 'who?' }, { schema: PERSON, validate });
+
+    expect(result.value.age).toBe(30);
+    expect(result.repairs).toBe(1);
+  });
+
+  it('gives up once the repair allowance is spent', async () => {
+    const orchestrator = orchestratorWith([{ text: 'still not JSON' }]);
+
+    const failure = await orchestrator.generateStructured({ prompt: 'who?' }, { schema: PERSON, maxRepairs: 1 }).catch(error => error);
+
+    expect(failure).toBeInstanceOf(StructuredOutputError);
+    expect(failure).toMatchObject({ repairs: 1, lastText: 'still not JSON' });
+    expect(orchestrator.getMockCalls('A')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,89 @@
+import { LLMProvider, UnifiedLLMOrchestrator } from '../UnifiedLLMOrchestrator';
+import { mockProvider } from '../LLMMockProvider';
+import { attemptAttributes, InMemorySpanExporter, LLMTelemetry } from '../LLMTelemetry';
+import { LLMMessage } from '../LLMMessages';
+
+function traced(providers: LLMProvider[]): { orchestrator: UnifiedLLMOrchestrator; exporter: InMemorySpanExporter } {
+  const exporter = new InMemorySpanExporter();
+  const orchestrator = new UnifiedLLMOrchestrator({ providers });
+  orchestrator.setResponseCache(null);
+  orchestrator.setTelemetry(new LLMTelemetry({ exporters: [exporter] }));
+  return { orchestrator, exporter };
+}
+
+describe('attemptAttributes', () => {
+  it('report the endpoint host and port, not the full URL', () => {
+    const provider = mockProvider('A');
+
+    expect(attemptAttributes({ ...provider, endpoint: 'https://api.vendor.test/v1/chat?key=x' }, 1)).toMatchObject({
+      'server.address': 'api.vendor.test',
+      'server.port': 443
+    });
+    expect(attemptAttributes({ ...provider, endpoint: 'http://[::1]:11434/api/generate' }, 2)).toMatchObject({
+      'server.address': '::1',
+      'server.port': 11434,
+      'llm.attempt': 2
+    });
+  });
+});
+
+describe('traces', () => {
+  it('record each provider attempt as a child of the request span', async () => {
+    const { orchestrator, exporter } = traced([mockProvider('A', { replies: [{ error: { status: 503 } }, { text: 'ok' }] })]);
+    orchestrator.setFallbackPolicy({ baseDelayMs: 1, jitter: 0 });
+
+    await orchestrator.generate({ prompt: 'hi' });
+
+    const spans = exporter.getFinishedSpans();
+    const root = spans.find(span => span.name === 'llm.generate')!;
+    const attempts = spans.filter(span => span.name === 'llm.attempt');
+    expect(attempts.map(span => span.status.code)).toEqual(['error', 'ok']);
+    expect(attempts.every(span => span.traceId === root.traceId && span.parentSpanId === root.spanId)).toBe(true);
+    expect(root.attributes).toMatchObject({ 'gen_ai.system': 'A', 'llm.attempts': 2 });
+  });
+
+  it('keep history summaries inside the request trace', async () => {
+    const { orchestrator, exporter } = traced([
+      mockProvider('A', { replies: [{ text: 'short answer' }] }, { contextWindow: 600, maxTokens: 50 })
+    ]);
+    const messages: LLMMessage[] = Array.from({ length: 8 }, (_, index) => ({
+      role: index % 2 === 0 ? 'user' : 'assistant',
+      content: index < 6 ? `turn ${index}: ${'detail '.repeat(60)}` : `turn ${index}`
+    }));
+
+    await orchestrator.generate({ messages, prompt: 'next?', contextOverflow: 'summarize' });
+
+    const requests = exporter.getFinishedSpans().filter(span => span.name === 'llm.generate');
+    expect(requests).toHaveLength(2);
+    const [summary, root] = requests;
+    expect(summary.traceId).toBe(root.traceId);
+    expect(summary.parentSpanId).toBe(root.spanId);
+  });
+
+  it('group ensemble members and the combiner under one ensemble span', async () => {
+    const { orchestrator, exporter } = traced([mockProvider('A'), mockProvider('B')]);
+
+    await orchestrator.generateEnsemble({ prompt: 'hi' }, { strategy: 'synthesize', providers: ['A', 'B'], combiner: 'A' });
+
+    const spans = exporter.getFinishedSpans();
+    const ensemble = spans.find(span => span.name === 'llm.ensemble')!;
+    const requests = spans.filter(span => span.name === 'llm.generate');
+    expect(ensemble.attributes).toMatchObject({ 'llm.ensemble.strategy': 'synthesize' });
+    expect(requests).toHaveLength(3);
+    expect(requests.every(span => span.traceId === ensemble.traceId && span.parentSpanId === ensemble.spanId)).toBe(true);
+  });
+});
+
+describe('metrics', () => {
+  it('render request and attempt counters in the Prometheus format', async () => {
+    const telemetry = new LLMTelemetry();
+    const orchestrator = new UnifiedLLMOrchestrator({ providers: [mockProvider('A')] });
+    orchestrator.setTelemetry(telemetry);
+
+    await orchestrator.generate({ prompt: 'hi' });
+
+    const text = telemetry.prometheus();
+    expect(text).toMatch(/# TYPE \w+ counter/);
+    expect(text).toMatch(/provider="A"/);
+  });
+});
@@ -0,0 +1,86 @@
+import { UnifiedLLMOrchestrator } from '../UnifiedLLMOrchestrator';
+import { mockProvider, MockScript } from '../LLMMockProvider';
+import { parseEmulatedToolCalls, ToolRegistry } from '../LLMTools';
+
+const ADD = {
+  name: 'add',
+  description: 'Add two numbers',
+  parameters: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } } }
+};
+
+function calculator(): ToolRegistry {
+  return new ToolRegistry().register(ADD, args => Number(args.a) + Number(args.b));
+}
+
+function orchestratorWith(script: MockScript, capabilities?: string[]): UnifiedLLMOrchestrator {
+  const orchestrator = new UnifiedLLMOrchestrator({ providers: [mockProvider('A', script, capabilities ? { capabilities } : {})] });
+  orchestrator.setResponseCache(null);
+  return orchestrator;
+}
+
+describe('ToolRegistry', () => {
+  it('returns handler failures and unknown tools as errors for the model to see', async () => {
+    const registry = calculator().register({ name: 'fail', parameters: {} }, () => {
+      throw new Error('disk full');
+    });
+
+    expect(await registry.execute({ id: '1', name: 'add', arguments: { a: 2, b: 3 } })).toMatchObject({ result: 5 });
+    expect(await registry.execute({ id: '2', name: 'fail', arguments: {} })).toMatchObject({ result: null, error: 'disk full' });
+    expect(await registry.execute({ id: '3', name: 'nope', arguments: {} })).toMatchObject({ error: 'Unknown tool: nope' });
+  });
+});
+
+describe('parseEmulatedToolCalls', () => {
+  it('reads calls from a fenced JSON reply and ignores plain answers', () => {
+    const reply = 'Sure.\n```json\n{"tool_calls": [{"name": "add", "arguments": "{\\"a\\": 1}"}, {"arguments": {}}]}\n```';
+
+    expect(parseEmulatedToolCalls(reply)).toEqual([{ id: 'call_0', name: 'add', arguments: { a: 1 } }]);
+    expect(parseEmulatedToolCalls('The answer is {probably} 3')).toEqual([]);
+  });
+});
+
+describe('generateWithTools', () => {
+  it('executes requested calls and feeds the results back until the model answers', async () => {
+    const orchestrator = orchestratorWith({
+      replies: [
+        { toolCalls: [{ id: 'c1', name: 'add', arguments: { a: 1, b: 2 } }, { id: 'c2', name: 'add', arguments: { a: 3, b: 4 } }] },
+        { text: '3 and 7' }
+      ]
+    });
+
+    const result = await orchestrator.generateWithTools({ prompt: 'add things' }, calculator());
+
+    expect(result.response.text).toBe('3 and 7');
+    expect(result.executions.map(execution => execution.result)).toEqual([3, 7]);
+    const [first, second] = orchestrator.getMockCalls('A');
+    expect(first.tools?.map(tool => tool.name)).toEqual(['add']);
+    expect(second.messages.filter(message => message.role === 'tool')).toEqual([
+      { role: 'tool', name: 'add', toolCallId: 'c1', content: '3' },
+      { role: 'tool', name: 'add', toolCallId: 'c2', content: '7' }
+    ]);
+    expect(result.messages.map(message => message.role)).toEqual(['user', 'assistant', 'tool', 'tool']);
+  });
+
+  it('describes tools in the prompt for providers without native tool calling', async () => {
+    const orchestrator = orchestratorWith({
+      replies: [{ text: '{"tool_calls": [{"name": "add", "arguments": {"a": 20, "b": 22}}]}' }, { text: '42' }]
+    }, ['reasoning']);
+
+    const result = await orchestrator.generateWithTools({ prompt: 'add 20 and 22' }, calculator());
+
+    expect(result.response.text).toBe('42');
+    expect(result.executions).toMatchObject([{ call: { name: 'add' }, result: 42 }]);
+    const [first, second] = orchestrator.getMockCalls('A');
+    expect(first.tools).toBeUndefined();
+    expect(first.system).toContain('You can call the following tools');
+    expect(JSON.stringify(second.messages)).toContain('Result of tool add (call_0): 42');
+  });
+
+  it('gives up after maxIterations rounds of tool calls', async () => {
+    const orchestrator = orchestratorWith({ replies: [{ toolCalls: [{ id: 'c', name: 'add', arguments: { a: 1, b: 1 } }] }] });
+
+    await expect(orchestrator.generateWithTools({ prompt: 'loop' }, calculator(), { maxIterations: 2 }))
+      .rejects.toThrow('Tool loop did not produce a final answer within 2 iterations');
+    expect(orchestrator.getMockCalls('A')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * Tests run against the TypeScript sources through ts-jest. Modules are
+ * transpiled one at a time, since this package is type-checked as part
+ * of the host application it is built into.
+ */
+module.exports = {
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/__tests__/**/*.test.ts'],
+  setupFiles: ['<rootDir>/jest.setup.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', {
+      tsconfig: {
+        target: 'ES2020',
+        module: 'commonjs',
+        esModuleInterop: true,
+        isolatedModules: true,
+        types: ['node', 'jest']
+      }
+    }]
+  }
+};
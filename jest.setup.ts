@@ -0,0 +1,8 @@
+// The credential store belongs to the host application. Tests use
+// providers that carry their own keys or need none.
+jest.mock('../security/SecureCredentialManager', () => ({
+  credentialManager: {
+    isConfigured: () => false,
+    getCredential: () => null
+  }
+}), { virtual: true });